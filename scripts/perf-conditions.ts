@@ -1,55 +1,112 @@
 /*
  * Micro-benchmark for condition evaluation hot paths.
- * Measures cold vs cached evaluation latency and basic p50/p95 stats.
+ * Measures cold (parse every time) vs cached vs precompiled evaluation latency with p50/p95 stats,
+ * then getAvailableChoices() across a large generated story with and without load-time compilation.
  */
-import { conditionEvaluator } from '../src/engine/condition';
-import { createQNCEEngine } from '../src/engine/core';
+import { conditionEvaluator, type ConditionContext } from '../src/engine/condition';
+import { createQNCEEngine, type NarrativeNode, type StoryData } from '../src/engine/core';
 import { DEMO_STORY } from '../src/engine/demo-story';
 
 interface StatBucket { times: number[]; }
 
+// Test-only access to the evaluator's compiled expression cache
+const compiledCache = (conditionEvaluator as unknown as { compiledCache: Map<string, unknown> }).compiledCache;
+
 function percentile(sorted: number[], p: number): number {
   if (!sorted.length) return 0;
   const idx = Math.min(sorted.length - 1, Math.floor((p / 100) * sorted.length));
   return sorted[idx];
 }
 
+function summary(bucket: StatBucket) {
+  const times = [...bucket.times].sort((a, b) => a - b);
+  return {
+    n: times.length,
+    min: times[0]?.toFixed(4),
+    p50: percentile(times, 50).toFixed(4),
+    p95: percentile(times, 95).toFixed(4),
+    max: times[times.length - 1]?.toFixed(4)
+  };
+}
+
+function time(bucket: StatBucket, fn: () => void) {
+  const t0 = performance.now();
+  fn();
+  bucket.times.push(performance.now() - t0);
+}
+
 function run(label: string, expr: string, iterations: number) {
   const engine = createQNCEEngine(DEMO_STORY);
-  const ctx = { state: (engine as any).state, timestamp: Date.now() } as any;
+  const ctx: ConditionContext = { state: engine.getState(), timestamp: Date.now() };
   const cold: StatBucket = { times: [] };
   const warm: StatBucket = { times: [] };
+  const compiled: StatBucket = { times: [] };
 
-  // Cold (first evaluation repeatedly with cache flush each time)
+  // Cold: parse on every evaluation (the cache is flushed each time)
   for (let i = 0; i < iterations; i++) {
-    // crude cache flush by touching internal map if present
-    (conditionEvaluator as any).functionCache?.clear?.();
-    const t0 = performance.now();
-    conditionEvaluator.evaluate(expr, ctx);
-    cold.times.push(performance.now() - t0);
+    compiledCache.clear();
+    time(cold, () => conditionEvaluator.evaluate(expr, ctx));
   }
-  // Warm (reuse cache)
+  // Warm: expression text looked up in the evaluator cache
   for (let i = 0; i < iterations; i++) {
-    const t0 = performance.now();
-    conditionEvaluator.evaluate(expr, ctx);
-    warm.times.push(performance.now() - t0);
+    time(warm, () => conditionEvaluator.evaluate(expr, ctx));
   }
+  // Precompiled: what the engine does for story conditions
+  const program = conditionEvaluator.compile(expr);
+  for (let i = 0; i < iterations; i++) {
+    time(compiled, () => conditionEvaluator.evaluate(program, ctx));
+  }
+  return { label, expr, cold: summary(cold), warm: summary(warm), compiled: summary(compiled) };
+}
 
-  cold.times.sort((a,b)=>a-b); warm.times.sort((a,b)=>a-b);
-  function summary(bucket: StatBucket) {
-    return {
-      n: bucket.times.length,
-      min: bucket.times[0]?.toFixed(4),
-      p50: percentile(bucket.times, 50).toFixed(4),
-      p95: percentile(bucket.times, 95).toFixed(4),
-      max: bucket.times[bucket.times.length - 1]?.toFixed(4)
-    };
+/** Story of `count` nodes, each with three conditional choices unique to the node */
+function generateStory(count: number): StoryData {
+  const nodes: NarrativeNode[] = [];
+  for (let i = 0; i < count; i++) {
+    const next = `n${(i + 1) % count}`;
+    nodes.push({
+      id: `n${i}`,
+      text: `Node ${i}`,
+      choices: [
+        { text: 'Fight', nextNodeId: next, condition: `flags.strength >= ${i % 10} && !flags.fled${i}` },
+        { text: 'Trade', nextNodeId: next, condition: `flags.gold > ${i % 50} || "map" in flags.items` },
+        { text: 'Talk', nextNodeId: next, condition: `visits.n${i} < 3 ? flags.charm > 2 : flags.party.leader === "Ana"` }
+      ]
+    });
   }
-  return { label, expr, cold: summary(cold), warm: summary(warm) };
+  return { initialNodeId: 'n0', nodes };
+}
+
+function runStory(nodeCount: number, passes: number) {
+  const story = generateStory(nodeCount);
+  const flags = { strength: 5, gold: 20, items: ['map'], charm: 3, party: { leader: 'Ana' } };
+  const t0 = performance.now();
+  const engine = createQNCEEngine(story, { flags });
+  const loadMs = performance.now() - t0;
+
+  // Jump by setting the current node directly, so history and undo snapshots stay out of the timing
+  const state = (engine as unknown as { state: { currentNodeId: string } }).state;
+  const walk = (beforeNode?: () => void) => {
+    const start = performance.now();
+    for (let pass = 0; pass < passes; pass++) {
+      for (const node of story.nodes) {
+        state.currentNodeId = node.id;
+        beforeNode?.();
+        engine.getAvailableChoices();
+      }
+    }
+    return performance.now() - start;
+  };
+  const precompiledMs = walk();
+  // Without load-time compilation every condition is parsed again once the small cache turns over
+  (engine as unknown as { compiledConditions: Map<string, unknown> }).compiledConditions.clear();
+  const reparsedMs = walk(() => compiledCache.clear());
+  return { nodeCount, passes, loadMs, precompiledMs, reparsedMs };
 }
 
 function main() {
   const iterations = parseInt(process.env.QNCE_BENCH_ITERS || '500', 10);
+  const nodeCount = parseInt(process.env.QNCE_BENCH_NODES || '8000', 10);
   const expressions = [
     'flags.score > 10 && flags.lives >= 2',
     'flags.mode === "hard" || flags.debug',
@@ -60,15 +117,27 @@ function main() {
   // eslint-disable-next-line no-console
   console.log('\nQNCE Condition Evaluation Benchmark');
   // eslint-disable-next-line no-console
-  console.log('Iterations per phase (cold/warm):', iterations);
+  console.log('Iterations per phase (cold/warm/compiled):', iterations);
   for (const r of results) {
     // eslint-disable-next-line no-console
     console.log(`\n[${r.label}] ${r.expr}`);
     // eslint-disable-next-line no-console
-    console.log('  Cold  p50:', r.cold.p50,'ms p95:', r.cold.p95,'ms min:', r.cold.min,'ms max:', r.cold.max,'ms');
+    console.log('  Cold      p50:', r.cold.p50,'ms p95:', r.cold.p95,'ms min:', r.cold.min,'ms max:', r.cold.max,'ms');
     // eslint-disable-next-line no-console
-    console.log('  Warm  p50:', r.warm.p50,'ms p95:', r.warm.p95,'ms min:', r.warm.min,'ms max:', r.warm.max,'ms');
+    console.log('  Warm      p50:', r.warm.p50,'ms p95:', r.warm.p95,'ms min:', r.warm.min,'ms max:', r.warm.max,'ms');
+    // eslint-disable-next-line no-console
+    console.log('  Compiled  p50:', r.compiled.p50,'ms p95:', r.compiled.p95,'ms min:', r.compiled.min,'ms max:', r.compiled.max,'ms');
   }
+
+  const story = runStory(nodeCount, 3);
+  // eslint-disable-next-line no-console
+  console.log(`\n[story] ${story.nodeCount} nodes x 3 conditional choices, getAvailableChoices() on every node, ${story.passes} passes`);
+  // eslint-disable-next-line no-console
+  console.log('  Load (compiles conditions):', story.loadMs.toFixed(1), 'ms');
+  // eslint-disable-next-line no-console
+  console.log('  Precompiled:', story.precompiledMs.toFixed(1), 'ms');
+  // eslint-disable-next-line no-console
+  console.log('  Re-parsed:  ', story.reparsedMs.toFixed(1), 'ms', `(${(story.reparsedMs / story.precompiledMs).toFixed(2)}x)`);
 }
 
 main();
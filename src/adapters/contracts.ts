@@ -8,6 +8,7 @@ export interface AdapterOptions {
   namespace?: string;
   strict?: boolean;
   idPrefix?: string;
+  speakerLines?: boolean; // Twison/Ink: map `Name: line` text to dialogue and characters (off by default)
 }
 
 export interface StoryAdapter {
@@ -27,3 +28,26 @@ export interface SaveEnvelope<TPayload = unknown> {
   checksum: string; // checksum of payload
   payload: TPayload; // engine state snapshot or delta
 }
+
+// Translation interchange (qnce-translate): one unit per translatable string
+export interface TranslationUnit {
+  id: string; // stable text key (node/choice textKey, or a derived key)
+  source: string; // text in the source locale
+  target?: string; // translated text, absent when untranslated
+  context?: string; // note for translators (where the string appears)
+  fuzzy?: boolean; // target needs review (e.g. source changed since it was translated)
+}
+
+export interface TranslationDocument {
+  sourceLocale: string;
+  targetLocale: string;
+  units: TranslationUnit[];
+}
+
+export interface TranslationAdapter {
+  readonly format: string;
+  readonly extension: string;
+  serialize(document: TranslationDocument): string;
+  parse(source: string): TranslationDocument;
+  detect?(source: string): boolean;
+}
@@ -4,6 +4,9 @@
 import type { StoryAdapter, AdapterOptions } from '../../adapters/contracts';
 import type { StoryData } from '../../engine/core';
 import type { ValidationResult } from '../../engine/validation';
+import { validateFlagEffects } from '../../engine/effects';
+import { validateFlagSchema } from '../../engine/flag-schema';
+import { qualifyNodeId, namespaceNodes } from '../../engine/modules';
 
 export class CustomJSONAdapter implements StoryAdapter {
   async load(source: string | object, options?: AdapterOptions): Promise<StoryData> {
@@ -12,19 +15,38 @@ export class CustomJSONAdapter implements StoryAdapter {
     if (!data || typeof data !== 'object') throw new Error('Invalid story source');
     type InputChoice = {
       text?: unknown;
+      textKey?: unknown;
       nextNodeId?: unknown;
       flagEffects?: unknown;
       flagRequirements?: unknown;
       timeRequirements?: unknown;
       inventoryRequirements?: unknown;
+      consumeInventory?: unknown;
+      inventoryEffects?: unknown;
+      questEffects?: unknown;
+      advanceTime?: unknown;
       enabled?: unknown;
+      once?: unknown;
+      sticky?: unknown;
+      returnTo?: unknown;
       condition?: unknown;
+      lockedMessage?: unknown;
       [k: string]: unknown;
     };
     type InputNode = {
       id?: unknown;
       text?: unknown;
+      textKey?: unknown;
+      dialogue?: unknown;
+      blocks?: unknown;
+      ending?: unknown;
+      achievement?: unknown;
+      duration?: unknown;
       meta?: { tags?: unknown } | unknown;
+      onEnter?: unknown;
+      onExit?: unknown;
+      redirects?: unknown;
+      timer?: unknown;
       choices?: InputChoice[] | unknown;
       [k: string]: unknown;
     };
@@ -34,11 +56,30 @@ export class CustomJSONAdapter implements StoryAdapter {
 
     if (!Array.isArray(nodes)) throw new Error('Invalid nodes array');
 
+    const templating = (data as { templating?: unknown }).templating;
+    const defaultChoiceMode = (data as { defaultChoiceMode?: unknown }).defaultChoiceMode;
+    const { items, inventory, flagSchema, characters, quests, gameClock } = data as { items?: unknown; inventory?: unknown; flagSchema?: unknown; characters?: unknown; quests?: unknown; gameClock?: unknown };
+    const { locales, defaultLocale, localeFallbacks, translationHashes, modules } = data as { locales?: unknown; defaultLocale?: unknown; localeFallbacks?: unknown; translationHashes?: unknown; modules?: unknown };
+
     const normalized: StoryData = {
       initialNodeId,
+      ...(typeof templating === 'boolean' ? { templating } : {}),
+      ...(defaultChoiceMode === 'once' || defaultChoiceMode === 'sticky' ? { defaultChoiceMode } : {}),
+      ...(Array.isArray(items) ? { items } : {}),
+      ...(Array.isArray(characters) ? { characters } : {}),
+      ...(Array.isArray(quests) ? { quests } : {}),
+      ...(gameClock && typeof gameClock === 'object' && !Array.isArray(gameClock) ? { gameClock } : {}),
+      ...(inventory && typeof inventory === 'object' ? { inventory } : {}),
+      ...(flagSchema && typeof flagSchema === 'object' && !Array.isArray(flagSchema) ? { flagSchema } : {}),
+      ...(locales && typeof locales === 'object' && !Array.isArray(locales) ? { locales } : {}),
+      ...(typeof defaultLocale === 'string' ? { defaultLocale } : {}),
+      ...(localeFallbacks && typeof localeFallbacks === 'object' && !Array.isArray(localeFallbacks) ? { localeFallbacks } : {}),
+      ...(translationHashes && typeof translationHashes === 'object' && !Array.isArray(translationHashes) ? { translationHashes } : {}),
+      ...(modules && typeof modules === 'object' && !Array.isArray(modules) ? { modules } : {}),
       nodes: (nodes as InputNode[]).map((n) => ({
         id: String((n as InputNode).id),
         text: String((n as InputNode).text ?? ''),
+        ...(n.textKey !== undefined ? { textKey: String(n.textKey) } : {}),
         meta:
           n && typeof n === 'object' && (n as InputNode).meta && typeof (n as InputNode).meta === 'object'
             ? (() => {
@@ -49,16 +90,35 @@ export class CustomJSONAdapter implements StoryAdapter {
                 };
               })()
             : undefined,
+        ...(n.onEnter !== undefined ? { onEnter: n.onEnter } : {}),
+        ...(n.onExit !== undefined ? { onExit: n.onExit } : {}),
+        ...(Array.isArray(n.redirects) ? { redirects: n.redirects } : {}),
+        ...(n.timer && typeof n.timer === 'object' ? { timer: n.timer } : {}),
+        ...(Array.isArray(n.dialogue) ? { dialogue: n.dialogue } : {}),
+        ...(Array.isArray(n.blocks) ? { blocks: n.blocks } : {}),
+        ...(n.ending && typeof n.ending === 'object' ? { ending: n.ending } : {}),
+        ...(n.achievement && typeof n.achievement === 'object' ? { achievement: n.achievement } : {}),
+        ...(n.duration !== undefined ? { duration: n.duration } : {}),
         choices: Array.isArray((n as InputNode).choices)
           ? ((n as InputNode).choices as InputChoice[]).map((c) => ({
+              ...(c.id !== undefined ? { id: String(c.id) } : {}),
               text: String(c.text ?? ''),
+              ...(c.textKey !== undefined ? { textKey: String(c.textKey) } : {}),
               nextNodeId: String(c.nextNodeId ?? ''),
+              ...(c.returnTo !== undefined ? { returnTo: String(c.returnTo) } : {}),
               flagEffects: c.flagEffects as unknown,
               flagRequirements: c.flagRequirements as unknown,
               timeRequirements: c.timeRequirements as unknown,
               inventoryRequirements: c.inventoryRequirements as unknown,
+              ...(c.consumeInventory !== undefined ? { consumeInventory: c.consumeInventory } : {}),
+              ...(c.inventoryEffects !== undefined ? { inventoryEffects: c.inventoryEffects } : {}),
+              ...(c.questEffects && typeof c.questEffects === 'object' ? { questEffects: c.questEffects } : {}),
+              ...(c.advanceTime !== undefined ? { advanceTime: c.advanceTime } : {}),
               enabled: c.enabled as unknown,
+              ...(c.once !== undefined ? { once: c.once } : {}),
+              ...(c.sticky !== undefined ? { sticky: c.sticky } : {}),
               condition: c.condition as unknown,
+              ...(c.lockedMessage !== undefined ? { lockedMessage: String(c.lockedMessage) } : {}),
             }))
           : [],
       })),
@@ -66,9 +126,9 @@ export class CustomJSONAdapter implements StoryAdapter {
 
     if (options?.strict) {
       // Fail on unknown keys at top-level nodes/choices
-  const allowedNodeKeys = new Set(['id', 'text', 'choices', 'meta']);
+  const allowedNodeKeys = new Set(['id', 'text', 'textKey', 'choices', 'meta', 'onEnter', 'onExit', 'redirects', 'timer', 'dialogue', 'blocks', 'ending', 'achievement', 'duration']);
       const allowedChoiceKeys = new Set([
-        'text','nextNodeId','flagEffects','flagRequirements','timeRequirements','inventoryRequirements','enabled','condition'
+        'id','text','textKey','nextNodeId','returnTo','flagEffects','flagRequirements','timeRequirements','inventoryRequirements','consumeInventory','inventoryEffects','questEffects','advanceTime','enabled','once','sticky','condition','lockedMessage'
       ]);
       for (const n of nodes) {
         for (const k of Object.keys(n)) if (!allowedNodeKeys.has(k)) throw new Error(`Unknown node key: ${k}`);
@@ -76,11 +136,25 @@ export class CustomJSONAdapter implements StoryAdapter {
           for (const ck of Object.keys(c)) if (!allowedChoiceKeys.has(ck)) throw new Error(`Unknown choice key: ${ck}`);
         }
       }
+      const flagSchemaProblems = validateFlagSchema(flagSchema);
+      if (flagSchemaProblems.length) throw new Error(`Invalid flagSchema: ${flagSchemaProblems.join('; ')}`);
+      // Validate flag effect operators on choices and node entry/exit effects
+      for (const n of normalized.nodes) {
+        const sources: Array<[string, unknown]> = [
+          ...n.choices.map((c, i): [string, unknown] => [`choice ${i}`, c.flagEffects]),
+          ['onEnter', (n.onEnter as { flagEffects?: unknown } | undefined)?.flagEffects],
+          ['onExit', (n.onExit as { flagEffects?: unknown } | undefined)?.flagEffects]
+        ];
+        for (const [where, effects] of sources) {
+          const problems = validateFlagEffects(effects);
+          if (problems.length) throw new Error(`Invalid flagEffects in node ${n.id} (${where}): ${problems.join('; ')}`);
+        }
+      }
     } else {
       // Lenient mode: ignore unknown keys silently
-      const allowedNodeKeys = new Set(['id', 'text', 'choices', 'meta']);
+      const allowedNodeKeys = new Set(['id', 'text', 'textKey', 'choices', 'meta', 'onEnter', 'onExit', 'redirects', 'timer', 'dialogue', 'blocks', 'ending', 'achievement', 'duration']);
       const allowedChoiceKeys = new Set([
-        'text','nextNodeId','flagEffects','flagRequirements','timeRequirements','inventoryRequirements','enabled','condition'
+        'id','text','textKey','nextNodeId','returnTo','flagEffects','flagRequirements','timeRequirements','inventoryRequirements','consumeInventory','inventoryEffects','questEffects','advanceTime','enabled','once','sticky','condition','lockedMessage'
       ]);
       for (const n of nodes as InputNode[]) {
         for (const k of Object.keys(n)) {
@@ -96,6 +170,12 @@ export class CustomJSONAdapter implements StoryAdapter {
       }
     }
 
+    // Module namespace / id prefix: qualify node ids and every node reference
+    if (options?.namespace || options?.idPrefix) {
+      normalized.nodes = namespaceNodes(normalized.nodes, options.namespace, options.idPrefix);
+      normalized.initialNodeId = qualifyNodeId(normalized.initialNodeId, options.namespace, options.idPrefix);
+    }
+
     return normalized;
   }
 
@@ -0,0 +1,34 @@
+// File Module Resolver
+// Loads story manifest modules from disk (Node.js only) for the CLIs. Each module file goes
+// through the matching story adapter with the module's namespace, so Twison and Ink sources
+// can be composed alongside Custom JSON.
+
+import { readFile } from 'fs/promises';
+import { resolve } from 'path';
+import type { StoryAdapter } from '../../adapters/contracts';
+import type { StoryModuleResolver } from '../../engine/modules';
+import { CustomJSONAdapter } from './CustomJSONAdapter';
+import { TwisonAdapter } from './TwisonAdapter';
+import { InkAdapter } from './InkAdapter';
+
+/**
+ * Resolver for module sources given as paths relative to `baseDir`
+ * @param options.strict - Load modules with the adapters' strict validation
+ * @param options.speakerLines - Map `Name: line` text in Twison and Ink modules to dialogue
+ */
+export function createFileModuleResolver(baseDir: string, options: { strict?: boolean; speakerLines?: boolean } = {}): StoryModuleResolver {
+  const adapters: Record<string, StoryAdapter> = {
+    json: new CustomJSONAdapter(),
+    twison: new TwisonAdapter(),
+    ink: new InkAdapter()
+  };
+  return async (ref, namespace) => {
+    if (!ref.source) throw new Error(`Module ${namespace} has no source`);
+    const json = JSON.parse(await readFile(resolve(baseDir, ref.source), 'utf-8')) as object;
+    const adapter = ref.format
+      ? adapters[ref.format]
+      : [adapters.twison, adapters.ink].find(candidate => candidate.detect?.(json)) ?? adapters.json;
+    if (!adapter) throw new Error(`Unknown format for module ${namespace}: ${ref.format}`);
+    return adapter.load(json, { namespace, strict: options.strict, speakerLines: options.speakerLines });
+  };
+}
@@ -4,6 +4,8 @@
 import type { StoryAdapter, AdapterOptions } from '../../adapters/contracts';
 import type { StoryData } from '../../engine/core';
 import type { ValidationResult } from '../../engine/validation';
+import { qualifyNodeId } from '../../engine/modules';
+import { parseSpeakerLines, mergeCharacters, type CharacterDefinition } from '../../engine/dialogue';
 
 // This is intentionally a very light stub; real Ink JSON can be complex.
 export class InkAdapter implements StoryAdapter {
@@ -15,19 +17,31 @@ export class InkAdapter implements StoryAdapter {
   type Knot = { text?: unknown; choices?: Array<{ text?: unknown; target?: unknown }> };
   const knots = ((obj as { knots?: Record<string, Knot> }).knots) || {};
     const idPrefix = options?.idPrefix ?? '';
+    const makeId = (name: string) => qualifyNodeId(name, options?.namespace, idPrefix);
 
     // Silently proceed in non-experimental mode; no console noise in library code
 
+    // With speakerLines, Ink's `Name: line` speaker convention becomes structured dialogue
+    const speakers: CharacterDefinition[][] = [];
+    const dialogueOf = (text: string) => {
+      if (!options?.speakerLines) return {};
+      const parsed = parseSpeakerLines(text);
+      if (!parsed) return {};
+      speakers.push(parsed.characters);
+      return { dialogue: parsed.lines };
+    };
     const nodes = Object.keys(knots).map((k) => ({
-      id: `${idPrefix}${k}`,
+      id: makeId(k),
       text: String((knots[k] as Knot | undefined)?.text ?? ''),
+      ...dialogueOf(String((knots[k] as Knot | undefined)?.text ?? '')),
       choices: Array.isArray((knots[k] as Knot | undefined)?.choices)
-        ? ((knots[k] as Knot).choices as Array<{ text?: unknown; target?: unknown }>).map((c) => ({ text: String(c.text ?? ''), nextNodeId: `${idPrefix}${String(c.target ?? '')}` }))
+        ? ((knots[k] as Knot).choices as Array<{ text?: unknown; target?: unknown }>).map((c) => ({ text: String(c.text ?? ''), nextNodeId: makeId(String(c.target ?? '')) }))
         : [],
     }));
 
-    const initialNodeId = `${idPrefix}${(((obj as { start?: unknown }).start as string) ?? Object.keys(knots)[0] ?? 'start')}`;
-    return { initialNodeId, nodes } as StoryData;
+    const initialNodeId = makeId(((obj as { start?: unknown }).start as string) ?? Object.keys(knots)[0] ?? 'start');
+    const characters = mergeCharacters(...speakers);
+    return { initialNodeId, nodes, ...(characters.length ? { characters } : {}) } as StoryData;
   }
 
   validate(): ValidationResult { return { isValid: true }; }
@@ -4,6 +4,8 @@
 import type { StoryAdapter, AdapterOptions } from '../../adapters/contracts';
 import type { StoryData } from '../../engine/core';
 import type { ValidationResult } from '../../engine/validation';
+import { qualifyNodeId } from '../../engine/modules';
+import { parseSpeakerLines, mergeCharacters, type CharacterDefinition } from '../../engine/dialogue';
 
 interface TwisonPassage {
   pid?: number;
@@ -27,11 +29,21 @@ export class TwisonAdapter implements StoryAdapter {
 
     const idPrefix = options?.idPrefix ?? '';
 
-    const makeId = (name: string) => `${idPrefix}${name}`;
+    const makeId = (name: string) => qualifyNodeId(name, options?.namespace, idPrefix);
     const tagSet = new Set<string>();
+    const speakers: CharacterDefinition[][] = [];
+    // With speakerLines, `Name: line` passages become dialogue (lines holding only [[links]] are skipped)
+    const dialogueOf = (text: string) => {
+      if (!options?.speakerLines) return {};
+      const parsed = parseSpeakerLines(text.split('\n').filter(line => !/^\s*(\[\[[^\]]*\]\]\s*)+$/.test(line)).join('\n'));
+      if (!parsed) return {};
+      speakers.push(parsed.characters);
+      return { dialogue: parsed.lines };
+    };
     const nodes = doc.passages.map((p) => ({
       id: makeId(p.name),
       text: p.text ?? '',
+      ...dialogueOf(p.text ?? ''),
       choices: (p.links ?? []).map((l) => ({
         text: l.name ?? l.link,
         nextNodeId: makeId(l.link),
@@ -62,7 +74,8 @@ export class TwisonAdapter implements StoryAdapter {
 
   // Tags are now captured in node.meta.tags; no warning needed.
 
-    return { initialNodeId, nodes } as StoryData;
+    const characters = mergeCharacters(...speakers);
+    return { initialNodeId, nodes, ...(characters.length ? { characters } : {}) } as StoryData;
   }
 
   validate(): ValidationResult {
@@ -0,0 +1,102 @@
+// gettext PO Translation Adapter
+// One entry per translatable string: msgctxt carries the stable text key, msgid the source text,
+// `#.` comments the context and `#, fuzzy` marks translations that need review. The locales
+// travel in the header (Language / X-Source-Language). Obsolete (`#~`) entries are ignored.
+
+import type { TranslationAdapter, TranslationDocument, TranslationUnit } from '../contracts';
+
+export class PoAdapter implements TranslationAdapter {
+  readonly format = 'po';
+  readonly extension = 'po';
+
+  serialize(document: TranslationDocument): string {
+    const lines = [
+      'msgid ""',
+      'msgstr ""',
+      quote('Content-Type: text/plain; charset=UTF-8\n'),
+      quote(`Language: ${document.targetLocale}\n`),
+      quote(`X-Source-Language: ${document.sourceLocale}\n`)
+    ];
+    for (const unit of document.units) {
+      lines.push('');
+      if (unit.context) lines.push(...unit.context.split('\n').map(line => `#. ${line}`));
+      if (unit.fuzzy) lines.push('#, fuzzy');
+      lines.push(...field('msgctxt', unit.id), ...field('msgid', unit.source), ...field('msgstr', unit.target ?? ''));
+    }
+    lines.push('');
+    return lines.join('\n');
+  }
+
+  parse(source: string): TranslationDocument {
+    const units: TranslationUnit[] = [];
+    let header: Record<string, string> | undefined;
+
+    for (const block of source.replace(/\r\n/g, '\n').split(/\n\s*\n/)) {
+      const fields: Record<string, string> = {};
+      const comments: string[] = [];
+      let fuzzy = false;
+      let current: string | undefined;
+      for (const raw of block.split('\n')) {
+        const line = raw.trim();
+        if (!line || line.startsWith('#~')) continue;
+        if (line.startsWith('#.')) comments.push(line.slice(2).trim());
+        else if (line.startsWith('#,')) fuzzy = fuzzy || line.slice(2).split(',').some(flag => flag.trim() === 'fuzzy');
+        else if (line.startsWith('#')) continue;
+        else if (line.startsWith('"')) {
+          if (!current) throw new Error(`Invalid PO file: continuation line without a keyword: ${line}`);
+          fields[current] += unquote(line);
+        } else {
+          const match = /^(msgctxt|msgid|msgid_plural|msgstr(?:\[\d+\])?)\s+(".*")$/.exec(line);
+          if (!match) throw new Error(`Invalid PO file: unexpected line: ${line}`);
+          current = match[1];
+          fields[current] = unquote(match[2]);
+        }
+      }
+      if (fields.msgid === undefined) continue;
+      if (fields.msgid === '' && fields.msgctxt === undefined) {
+        header = parseHeader(fields.msgstr ?? '');
+        continue;
+      }
+      const target = fields.msgstr ?? fields['msgstr[0]'] ?? '';
+      const unit: TranslationUnit = { id: fields.msgctxt ?? fields.msgid, source: fields.msgid };
+      if (target) unit.target = target;
+      if (comments.length) unit.context = comments.join('\n');
+      if (fuzzy && target) unit.fuzzy = true;
+      units.push(unit);
+    }
+
+    const targetLocale = header?.['Language'];
+    if (!targetLocale) throw new Error('Invalid PO file: header has no Language');
+    return { sourceLocale: header?.['X-Source-Language'] ?? '', targetLocale, units };
+  }
+
+  detect(source: string): boolean {
+    return /^msgid\s+"/m.test(source);
+  }
+}
+
+function quote(text: string): string {
+  return `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n').replace(/\t/g, '\\t')}"`;
+}
+
+function unquote(literal: string): string {
+  return literal.slice(1, -1).replace(/\\(.)/g, (_, escaped: string) =>
+    ({ n: '\n', t: '\t', r: '\r' } as Record<string, string>)[escaped] ?? escaped
+  );
+}
+
+/** Keyword lines for a value; multi-line values are split after each newline as gettext does */
+function field(keyword: string, value: string): string[] {
+  if (!value.includes('\n') || value.indexOf('\n') === value.length - 1) return [`${keyword} ${quote(value)}`];
+  const parts = value.split(/(?<=\n)/);
+  return [`${keyword} ""`, ...parts.map(quote)];
+}
+
+function parseHeader(text: string): Record<string, string> {
+  const header: Record<string, string> = {};
+  for (const line of text.split('\n')) {
+    const separator = line.indexOf(':');
+    if (separator > 0) header[line.slice(0, separator).trim()] = line.slice(separator + 1).trim();
+  }
+  return header;
+}
@@ -0,0 +1,99 @@
+// XLIFF 2.0 Translation Adapter
+// Writes one <unit> per translatable string (id = text key, translator note = context) and
+// reads back the subset translation tools round-trip: units with segments, source, target and
+// segment state. A target in state "initial" is treated as needing review (fuzzy).
+
+import type { TranslationAdapter, TranslationDocument, TranslationUnit } from '../contracts';
+
+const XLIFF_NAMESPACE = 'urn:oasis:names:tc:xliff:document:2.0';
+
+export class XliffAdapter implements TranslationAdapter {
+  readonly format = 'xliff';
+  readonly extension = 'xlf';
+
+  serialize(document: TranslationDocument): string {
+    const lines = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<xliff xmlns="${XLIFF_NAMESPACE}" version="2.0" srcLang="${escapeXml(document.sourceLocale)}" trgLang="${escapeXml(document.targetLocale)}">`,
+      '  <file id="story">'
+    ];
+    for (const unit of document.units) {
+      lines.push(`    <unit id="${escapeXml(unit.id)}">`);
+      if (unit.context) {
+        lines.push(`      <notes><note category="context">${escapeXml(unit.context)}</note></notes>`);
+      }
+      const state = unit.target === undefined || unit.fuzzy ? 'initial' : 'translated';
+      lines.push(`      <segment state="${state}">`);
+      lines.push(`        <source>${escapeXml(unit.source)}</source>`);
+      if (unit.target !== undefined) lines.push(`        <target>${escapeXml(unit.target)}</target>`);
+      lines.push('      </segment>', '    </unit>');
+    }
+    lines.push('  </file>', '</xliff>', '');
+    return lines.join('\n');
+  }
+
+  parse(source: string): TranslationDocument {
+    const root = /<xliff\b([^>]*)>/.exec(source);
+    if (!root) throw new Error('Invalid XLIFF document: missing <xliff> element');
+    const rootAttributes = readAttributes(root[1]);
+    if (rootAttributes.version && !rootAttributes.version.startsWith('2.')) {
+      throw new Error(`Unsupported XLIFF version: ${rootAttributes.version} (expected 2.x)`);
+    }
+    if (!rootAttributes.trgLang) throw new Error('Invalid XLIFF document: missing trgLang');
+
+    const units: TranslationUnit[] = [];
+    for (const match of source.matchAll(/<unit\b([^>]*)>([\s\S]*?)<\/unit>/g)) {
+      const id = readAttributes(match[1]).id;
+      if (!id) throw new Error('Invalid XLIFF document: <unit> without id');
+      const body = match[2];
+      const segments = Array.from(body.matchAll(/<segment\b([^>]*)>([\s\S]*?)<\/segment>/g));
+      const texts = (tag: string) => segments.map(segment => readElement(segment[2], tag));
+      const targets = texts('target');
+      const note = readElement(body, 'note');
+      const unit: TranslationUnit = { id, source: texts('source').map(text => text ?? '').join('') };
+      if (targets.some(target => target !== undefined)) unit.target = targets.map(target => target ?? '').join('');
+      if (note) unit.context = note;
+      if (unit.target !== undefined && segments.some(segment => readAttributes(segment[1]).state === 'initial')) unit.fuzzy = true;
+      units.push(unit);
+    }
+    return { sourceLocale: rootAttributes.srcLang ?? '', targetLocale: rootAttributes.trgLang, units };
+  }
+
+  detect(source: string): boolean {
+    return /<xliff\b/.test(source);
+  }
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function unescapeXml(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|lt|gt|quot|apos|amp);/g, (_, entity: string) => {
+    if (entity[0] === '#') {
+      return String.fromCodePoint(entity[1] === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10));
+    }
+    return ({ lt: '<', gt: '>', quot: '"', apos: "'", amp: '&' } as Record<string, string>)[entity];
+  });
+}
+
+function readAttributes(raw: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of raw.matchAll(/([\w:-]+)\s*=\s*("([^"]*)"|'([^']*)')/g)) {
+    attributes[match[1]] = unescapeXml(match[3] ?? match[4]);
+  }
+  return attributes;
+}
+
+/** Text content of the first `<tag>` (undefined when absent); CDATA sections are kept verbatim */
+function readElement(body: string, tag: string): string | undefined {
+  const match = new RegExp(`<${tag}\\b[^>]*?(?:/>|>([\\s\\S]*?)</${tag}>)`).exec(body);
+  if (!match) return undefined;
+  return (match[1] ?? '').split(/(<!\[CDATA\[[\s\S]*?\]\]>)/).map(part =>
+    part.startsWith('<![CDATA[') ? part.slice(9, -3) : unescapeXml(part)
+  ).join('');
+}
@@ -0,0 +1,178 @@
+// QNCE Translation Strings
+// Extracts the translatable strings of a story (node text, content blocks, dialogue lines, choice
+// text and locked messages, character names, item names and descriptions, quest titles, journal
+// text and objectives, ending and achievement titles and descriptions) under stable keys, and
+// merges translated documents back into StoryData.locales.
+// Each merged translation records a hash of the source text it was made from
+// (StoryData.translationHashes) so later source edits can be flagged as stale.
+
+import type { StoryData } from '../../engine/core';
+import { choiceTextKey, lockedMessageKey } from '../../engine/locale';
+import { collectUnlocks } from '../../engine/meta-progress';
+import type { TranslationDocument, TranslationUnit } from '../contracts';
+
+/**
+ * Outcome of merging one translated document into a story
+ * @public
+ */
+export interface TranslationMergeResult {
+  /** Copy of the story with the translations, text keys and source hashes applied */
+  story: StoryData;
+  locale: string;
+  /** Keys whose translation was written */
+  merged: string[];
+  /** Keys skipped because the story's source text changed since the document was extracted */
+  stale: string[];
+  /** Keys skipped because the translation is marked for review */
+  fuzzy: string[];
+  /** Keys with no translation in the document */
+  untranslated: string[];
+  /** Keys in the document that the story no longer has */
+  unknown: string[];
+}
+
+/**
+ * Hash of a source string, stored per translation to detect later source edits
+ * @public
+ */
+export function translationSourceHash(text: string): string {
+  // FNV-1a over UTF-16 code units
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Translatable strings of a story in document order, keyed by their stable ids.
+ * Nodes, content blocks, dialogue lines and choices use their `textKey`, or `<nodeId>.text` /
+ * `<nodeId>.block.<index>` / `<nodeId>.line.<index>` / `choice.<choiceId>` / `<nodeId>.choice.<index>`
+ * when they have none, and a choice's lockedMessage its text key plus `.locked`. Characters use
+ * `character.<id>.name`, items `item.<id>.name` / `item.<id>.description`, quests `quest.<id>.title` /
+ * `quest.<id>.journal.<status>` / `quest.<id>.objective.<objectiveId>`, and endings and achievements
+ * `ending.<id>.title` / `ending.<id>.description` (`achievement.<id>...` likewise).
+ * @public
+ */
+export function collectTranslatableStrings(story: StoryData): TranslationUnit[] {
+  const units = new Map<string, TranslationUnit>();
+  const add = (id: string, source: string, context: string): void => {
+    if (!source) return;
+    const existing = units.get(id);
+    if (existing) {
+      existing.context = `${existing.context}; ${context}`;
+      return;
+    }
+    units.set(id, { id, source, context });
+  };
+  for (const node of story.nodes) {
+    add(node.textKey ?? `${node.id}.text`, node.text, `Node ${node.id}`);
+    node.blocks?.forEach((block, index) => {
+      add(block.textKey ?? `${node.id}.block.${index}`, block.text, `Block ${index + 1} of node ${node.id}${block.condition ? ` (when ${block.condition})` : ''}`);
+    });
+    node.dialogue?.forEach((line, index) => {
+      add(line.textKey ?? `${node.id}.line.${index}`, line.text, `Dialogue line ${index + 1} of node ${node.id}${line.speaker ? ` (${line.speaker})` : ''}`);
+    });
+    node.choices.forEach((choice, index) => {
+      add(choiceTextKey(node.id, choice, index), choice.text, `Choice ${index + 1} of node ${node.id} (to ${choice.nextNodeId})`);
+      if (choice.lockedMessage) add(lockedMessageKey(node.id, choice, index), choice.lockedMessage, `Locked message of choice ${index + 1} of node ${node.id}`);
+    });
+  }
+  for (const character of story.characters ?? []) {
+    if (character.name) add(`character.${character.id}.name`, character.name, `Name of character ${character.id}`);
+  }
+  for (const item of story.items ?? []) {
+    if (item.name) add(`item.${item.id}.name`, item.name, `Name of item ${item.id}`);
+    if (item.description) add(`item.${item.id}.description`, item.description, `Description of item ${item.id}`);
+  }
+  for (const quest of story.quests ?? []) {
+    if (quest.title) add(`quest.${quest.id}.title`, quest.title, `Title of quest ${quest.id}`);
+    for (const [status, text] of Object.entries(quest.journal ?? {})) {
+      if (text) add(`quest.${quest.id}.journal.${status}`, text, `Journal text of quest ${quest.id} while ${status}`);
+    }
+    quest.objectives?.forEach(objective => {
+      if (objective.description) add(`quest.${quest.id}.objective.${objective.id}`, objective.description, `Objective ${objective.id} of quest ${quest.id}`);
+    });
+  }
+  for (const unlock of collectUnlocks(story.nodes)) {
+    if (unlock.title) add(`${unlock.kind}.${unlock.id}.title`, unlock.title, `Title of ${unlock.kind} ${unlock.id} (node ${unlock.nodeId})`);
+    if (unlock.description) add(`${unlock.kind}.${unlock.id}.description`, unlock.description, `Description of ${unlock.kind} ${unlock.id} (node ${unlock.nodeId})`);
+  }
+  return Array.from(units.values());
+}
+
+/**
+ * Build a translation document for one locale, prefilled with the story's existing translations.
+ * Existing translations whose source text changed since they were merged are marked fuzzy.
+ * @public
+ */
+export function extractTranslations(story: StoryData, targetLocale: string): TranslationDocument {
+  const table = story.locales?.[targetLocale] ?? {};
+  const hashes = story.translationHashes?.[targetLocale] ?? {};
+  const units = collectTranslatableStrings(story).map(unit => {
+    const target = table[unit.id];
+    if (target === undefined) return unit;
+    const stale = hashes[unit.id] !== undefined && hashes[unit.id] !== translationSourceHash(unit.source);
+    return { ...unit, target, ...(stale ? { fuzzy: true } : {}) };
+  });
+  return { sourceLocale: story.defaultLocale ?? 'en', targetLocale, units };
+}
+
+/**
+ * Merge a translated document into a copy of the story. Nodes, content blocks, dialogue lines and
+ * choices without a `textKey` get their derived key so the translations apply at runtime. Units
+ * whose source no longer matches the story, or that are marked fuzzy, are reported and left out.
+ * @public
+ */
+export function mergeTranslations(story: StoryData, document: TranslationDocument): TranslationMergeResult {
+  const locale = document.targetLocale;
+  const sources = new Map(collectTranslatableStrings(story).map(unit => [unit.id, unit.source]));
+  const result: TranslationMergeResult = { story, locale, merged: [], stale: [], fuzzy: [], untranslated: [], unknown: [] };
+  const table: Record<string, string> = { ...(story.locales?.[locale] ?? {}) };
+  const hashes: Record<string, string> = { ...(story.translationHashes?.[locale] ?? {}) };
+
+  for (const unit of document.units) {
+    const source = sources.get(unit.id);
+    if (source === undefined) result.unknown.push(unit.id);
+    else if (!unit.target) result.untranslated.push(unit.id);
+    else if (unit.source !== source) result.stale.push(unit.id);
+    else if (unit.fuzzy) result.fuzzy.push(unit.id);
+    else {
+      table[unit.id] = unit.target;
+      hashes[unit.id] = translationSourceHash(source);
+      result.merged.push(unit.id);
+    }
+  }
+
+  result.story = {
+    ...story,
+    defaultLocale: story.defaultLocale ?? document.sourceLocale,
+    locales: { ...(story.locales ?? {}), [locale]: table },
+    translationHashes: { ...(story.translationHashes ?? {}), [locale]: hashes },
+    nodes: story.nodes.map(node => ({
+      ...node,
+      textKey: node.textKey ?? `${node.id}.text`,
+      ...(node.blocks ? { blocks: node.blocks.map((block, index) => ({ ...block, textKey: block.textKey ?? `${node.id}.block.${index}` })) } : {}),
+      ...(node.dialogue ? { dialogue: node.dialogue.map((line, index) => ({ ...line, textKey: line.textKey ?? `${node.id}.line.${index}` })) } : {}),
+      choices: node.choices.map((choice, index) => ({ ...choice, textKey: choiceTextKey(node.id, choice, index) }))
+    }))
+  };
+  return result;
+}
+
+/**
+ * Translations whose source text changed after they were merged, by locale
+ * (translations without a recorded hash are not checked)
+ * @public
+ */
+export function findStaleTranslations(story: StoryData): Record<string, string[]> {
+  const sources = new Map(collectTranslatableStrings(story).map(unit => [unit.id, unit.source]));
+  const stale: Record<string, string[]> = {};
+  for (const [locale, hashes] of Object.entries(story.translationHashes ?? {})) {
+    stale[locale] = Object.entries(hashes)
+      .filter(([key, hash]) => sources.has(key) && translationSourceHash(sources.get(key)!) !== hash)
+      .map(([key]) => key);
+  }
+  return stale;
+}
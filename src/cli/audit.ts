@@ -3,21 +3,38 @@
 /* eslint-disable no-console */
 
 import { readFileSync } from 'fs';
-import { loadStoryData } from '../engine/core.js';
+import { dirname } from 'path';
+import { loadStoryData, RETURN_TARGET, type NarrativeNode, type StoryData } from '../engine/core.js';
+import { validateFlagEffects } from '../engine/effects.js';
+import { validateFlagSchema } from '../engine/flag-schema.js';
+import { conditionEvaluator } from '../engine/condition.js';
+import { LocaleTable } from '../engine/locale.js';
+import { collectTranslatableStrings, findStaleTranslations } from '../adapters/translation/strings.js';
+import { collectUnlocks } from '../engine/meta-progress.js';
+import { compileTemplate, type TemplateSegment } from '../engine/text.js';
+import { isStoryManifest, resolveStoryManifest, findDanglingModuleLinks, resolveNodeReference } from '../engine/modules.js';
+import { createFileModuleResolver } from '../adapters/story/FileModuleResolver.js';
 
 /**
  * QNCE Audit CLI Tool
  * Validates narrative structure and checks for loops, dead ends, etc.
  */
 
-function auditStory(filePath: string): void {
+async function auditStory(filePath: string): Promise<void> {
   try {
     console.log(`🔍 Auditing QNCE story: ${filePath}`);
     
     const jsonData = JSON.parse(readFileSync(filePath, 'utf-8'));
-    const storyData = loadStoryData(jsonData);
+    // Manifests are audited with every module loaded, lazy ones included
+    const storyData = isStoryManifest(jsonData)
+      ? await resolveStoryManifest(jsonData, createFileModuleResolver(dirname(filePath)), { includeLazy: true })
+      : loadStoryData(jsonData);
     
     // Basic validation
+    if (isStoryManifest(jsonData)) {
+      const modules = Object.entries(jsonData.modules).map(([ns, ref]) => (typeof ref === 'object' && ref.lazy ? `${ns} (lazy)` : ns));
+      console.log(`📦 Modules: ${modules.length} (${modules.join(', ')})`);
+    }
     console.log(`📖 Story contains ${storyData.nodes.length} nodes`);
     console.log(`🚀 Initial node: ${storyData.initialNodeId}`);
     
@@ -27,12 +44,25 @@ function auditStory(filePath: string): void {
     
     storyData.nodes.forEach(node => {
       node.choices.forEach(choice => {
-        referencedIds.add(choice.nextNodeId);
+        if (choice.nextNodeId !== RETURN_TARGET) referencedIds.add(choice.nextNodeId);
+        if (choice.returnTo) referencedIds.add(choice.returnTo);
+      });
+      node.redirects?.forEach(redirect => {
+        if (redirect.nextNodeId !== RETURN_TARGET) referencedIds.add(redirect.nextNodeId);
       });
     });
     
-    // Find dead ends
-    const deadEnds = storyData.nodes.filter(node => node.choices.length === 0);
+    // Declared endings and achievements (meta progress)
+    const unlocks = collectUnlocks(storyData.nodes);
+    const endings = unlocks.filter(unlock => unlock.kind === 'ending');
+    const achievements = unlocks.filter(unlock => unlock.kind === 'achievement');
+    if (unlocks.length > 0) {
+      console.log(`🏁 Endings: ${endings.length}, achievements: ${achievements.length}`);
+      unlocks.forEach(unlock => console.log(`   - ${unlock.kind} ${unlock.id}${unlock.title ? ` "${unlock.title}"` : ''} (${unlock.nodeId})`));
+    }
+
+    // Find dead ends (redirect nodes move on by themselves; declared endings stop on purpose)
+    const deadEnds = storyData.nodes.filter(node => node.choices.length === 0 && !node.redirects?.length && !node.ending);
     console.log(`🔚 Dead ends found: ${deadEnds.length}`);
     deadEnds.forEach(node => console.log(`   - ${node.id}: "${node.text.slice(0, 50)}..."`));
     
@@ -44,25 +74,310 @@ function auditStory(filePath: string): void {
     } else {
       console.log(`✅ All node references are valid`);
     }
-    
-    // Find unreachable nodes
-    const reachableIds = new Set<string>();
-    const toVisit = [storyData.initialNodeId];
-    
-    while (toVisit.length > 0) {
-      const currentId = toVisit.pop()!;
-      if (reachableIds.has(currentId)) continue;
-      
-      reachableIds.add(currentId);
-      const node = storyData.nodes.find(n => n.id === currentId);
-      if (node) {
-        node.choices.forEach(choice => {
-          if (!reachableIds.has(choice.nextNodeId)) {
-            toVisit.push(choice.nextNodeId);
-          }
+
+    // Cross-module links into undeclared modules or to nodes a module does not have
+    const danglingLinks = findDanglingModuleLinks(storyData);
+    if (danglingLinks.length > 0) {
+      console.log(`❌ Dangling cross-module links:`);
+      danglingLinks.forEach(link => console.log(`   - ${link.fromNodeId} -> ${link.toNodeId} (${link.reason === 'unknown-module' ? 'unknown module' : 'no such node in module'})`));
+    }
+
+    // Visit references in expressions (visits.<id>, visited("<id>")) must name a node; module-local ids resolve within their module
+    const unresolvedVisits: string[] = [];
+    storyData.nodes.forEach(node => nodeExpressions(node, !!storyData.templating).forEach(expression => {
+      conditionEvaluator.getReferences(expression).forEach(ref => {
+        if (ref.kind !== 'visit' || nodeIds.has(resolveNodeReference(ref.name, node.id, id => nodeIds.has(id)))) return;
+        unresolvedVisits.push(`${node.id}: ${ref.name} (in "${expression}")`);
+      });
+    }));
+    if (unresolvedVisits.length > 0) {
+      console.log(`❌ Visit references to unknown nodes:`);
+      unresolvedVisits.forEach(problem => console.log(`   - ${problem}`));
+    }
+
+    // Expressions must compile (syntax, built-in call signatures, quest status literals)
+    const invalidExpressions: string[] = [];
+    storyData.nodes.forEach(node => nodeExpressions(node, !!storyData.templating).forEach(expression => {
+      try {
+        conditionEvaluator.compile(expression);
+      } catch (error) {
+        invalidExpressions.push(`${node.id}: ${(error as Error).message}`);
+      }
+    }));
+    if (invalidExpressions.length > 0) {
+      console.log(`❌ Invalid expressions:`);
+      invalidExpressions.forEach(problem => console.log(`   - ${problem}`));
+    }
+
+    // Check node entry/exit effects
+    const effectNodes = storyData.nodes.filter(node => node.onEnter || node.onExit);
+    console.log(`⚡ Nodes with entry/exit effects: ${effectNodes.length}`);
+    effectNodes.forEach(node => {
+      (['onEnter', 'onExit'] as const).forEach(phase => {
+        const effects = node[phase];
+        if (effects && typeof effects === 'object' && !Array.isArray(effects)) {
+          console.log(`   - ${node.id} ${phase}: ${Object.keys(effects.flagEffects || {}).join(', ') || '(no flags)'}`);
+        }
+      });
+    });
+
+    // Validate flag effect shapes (literal values and $operators)
+    const invalidEffects: string[] = [];
+    storyData.nodes.forEach(node => {
+      (['onEnter', 'onExit'] as const).forEach(phase => {
+        const effects = node[phase];
+        if (effects === undefined) return;
+        if (!effects || typeof effects !== 'object' || Array.isArray(effects)) {
+          invalidEffects.push(`${node.id}.${phase}: expected { flagEffects: { ... } }`);
+          return;
+        }
+        validateFlagEffects(effects.flagEffects).forEach(problem => invalidEffects.push(`${node.id}.${phase}: ${problem}`));
+      });
+      node.choices.forEach((choice, index) => {
+        validateFlagEffects(choice.flagEffects).forEach(problem => invalidEffects.push(`${node.id} choice ${index + 1}: ${problem}`));
+      });
+    });
+    if (invalidEffects.length > 0) {
+      console.log(`❌ Invalid flag effects:`);
+      invalidEffects.forEach(problem => console.log(`   - ${problem}`));
+    } else {
+      console.log(`✅ All flag effects are valid`);
+    }
+
+    // Check flags read by conditions are declared in flagSchema or written by some effect
+    const declaredFlags = new Set(Object.keys(storyData.flagSchema || {}));
+    const writtenFlags = new Set<string>();
+    const flagReaders = new Map<string, Set<string>>();
+    const addReads = (nodeId: string, flags: string[]) => flags.forEach(flag => {
+      flagReaders.set(flag, (flagReaders.get(flag) || new Set<string>()).add(nodeId));
+    });
+    const writeEffects = (effects: Record<string, unknown> | undefined) => Object.keys(effects || {}).forEach(flag => writtenFlags.add(flag));
+    // Reads come from the compiled expressions (conditions, redirects, blocks, $expr effects, templates, locked messages)
+    storyData.nodes.forEach(node => {
+      writeEffects(node.onEnter?.flagEffects);
+      writeEffects(node.onExit?.flagEffects);
+      nodeExpressions(node, !!storyData.templating).forEach(expression => addReads(node.id, flagReferences(expression)));
+      node.choices.forEach(choice => {
+        writeEffects(choice.flagEffects);
+        addReads(node.id, Object.keys(choice.flagRequirements || {}));
+      });
+    });
+    if (storyData.flagSchema) {
+      console.log(`🏷️  Declared flags: ${declaredFlags.size}`);
+      validateFlagSchema(storyData.flagSchema).forEach(problem => console.log(`   ❌ ${problem}`));
+      const undeclaredWrites = Array.from(writtenFlags).filter(flag => !declaredFlags.has(flag));
+      if (undeclaredWrites.length > 0) {
+        console.log(`❌ Undeclared flags written by effects:`);
+        undeclaredWrites.forEach(flag => console.log(`   - ${flag}`));
+      }
+    }
+    const unknownReads = Array.from(flagReaders).filter(([flag]) => !declaredFlags.has(flag) && !writtenFlags.has(flag));
+    if (unknownReads.length > 0) {
+      console.log(`❓ Flags read but never declared or written:`);
+      unknownReads.forEach(([flag, nodes]) => console.log(`   - ${flag} (read in ${Array.from(nodes).join(', ')})`));
+    } else if (flagReaders.size > 0) {
+      console.log(`✅ All flags read by conditions are declared or written`);
+    }
+
+    // Content blocks gated on flags nothing declares or writes never show (or always show when negated)
+    const undeclaredBlockFlags: string[] = [];
+    storyData.nodes.forEach(node => node.blocks?.forEach((block, index) => {
+      if (!block.condition) return;
+      flagReferences(block.condition)
+        .filter(flag => !declaredFlags.has(flag) && !writtenFlags.has(flag))
+        .forEach(flag => undeclaredBlockFlags.push(`${node.id} block ${index + 1}: ${flag}`));
+    }));
+    if (undeclaredBlockFlags.length > 0) {
+      console.log(`❌ Content block conditions reference undeclared flags:`);
+      undeclaredBlockFlags.forEach(problem => console.log(`   - ${problem}`));
+    }
+
+    // Check translations: every translatable string (the keys qnce-translate extracts) should exist in
+    // each locale's own table (the default locale's inline text already covers it)
+    const textKeys = new Set(collectTranslatableStrings(storyData).map(unit => unit.id));
+    const explicitKeys = storyData.nodes.filter(node =>
+      node.textKey || node.choices.some(choice => choice.textKey) ||
+      node.blocks?.some(block => block.textKey) || node.dialogue?.some(line => line.textKey)
+    ).length;
+    if (storyData.locales) {
+      const localeTable = new LocaleTable(storyData);
+      const locales = localeTable.getLocales();
+      console.log(`🌐 Locales: ${locales.length} (${locales.join(', ')}), translatable strings: ${textKeys.size}`);
+      let complete = true;
+      Object.entries(localeTable.findMissing(textKeys)).forEach(([locale, missing]) => {
+        if (locale === storyData.defaultLocale || missing.length === 0) return;
+        complete = false;
+        console.log(`   ❌ ${locale}: ${missing.length} missing translation${missing.length === 1 ? '' : 's'}`);
+        missing.forEach(key => {
+          const fallback = localeTable.fallbackChain(locale).slice(1).find(candidate => storyData.locales![candidate]?.[key] !== undefined);
+          console.log(`      - ${key} (${fallback ? `falls back to ${fallback}` : 'shows inline text'})`);
+        });
+      });
+      if (complete) console.log(`✅ All locales translate every translatable string`);
+      Object.entries(findStaleTranslations(storyData)).forEach(([locale, stale]) => {
+        if (stale.length === 0) return;
+        console.log(`   ⚠️  ${locale}: ${stale.length} stale translation${stale.length === 1 ? '' : 's'} (source text changed since merge)`);
+        stale.forEach(key => console.log(`      - ${key}`));
+      });
+    } else if (explicitKeys > 0) {
+      console.log(`⚠️  Text keys used in ${explicitKeys} node${explicitKeys === 1 ? '' : 's'} but no locales declared`);
+    }
+
+    // Check redirect nodes: cycles made only of redirects can never settle on a node
+    const redirectNodes = storyData.nodes.filter(node => node.redirects && node.redirects.length > 0);
+    if (redirectNodes.length > 0) {
+      console.log(`↪️  Redirect nodes: ${redirectNodes.length}`);
+      redirectNodes
+        .filter(node => node.choices.length === 0 && node.redirects!.every(redirect => redirect.condition))
+        .forEach(node => console.log(`   ⚠️  ${node.id} has no choices and no unconditional redirect fallback`));
+
+      const redirectCycles = findRedirectCycles(redirectNodes);
+      if (redirectCycles.length > 0) {
+        console.log(`🔁 Redirect cycles found: ${redirectCycles.length}`);
+        redirectCycles.forEach(cycle => console.log(`   - ${cycle.join(' -> ')}`));
+      } else {
+        console.log(`✅ No redirect cycles`);
+      }
+    }
+
+    // Check explicit choice ids (used by chosen.<id> counts) are unique
+    const choiceIdOwners = new Map<string, string[]>();
+    storyData.nodes.forEach(node => node.choices.forEach(choice => {
+      if (choice.id) choiceIdOwners.set(choice.id, [...(choiceIdOwners.get(choice.id) || []), node.id]);
+    }));
+    const duplicateChoiceIds = Array.from(choiceIdOwners).filter(([, owners]) => owners.length > 1);
+    if (duplicateChoiceIds.length > 0) {
+      console.log(`❌ Duplicate choice ids:`);
+      duplicateChoiceIds.forEach(([id, owners]) => console.log(`   - ${id} (in ${owners.join(', ')})`));
+    }
+
+    // Check timed nodes point at an existing default choice
+    const timedNodes = storyData.nodes.filter(node => node.timer);
+    if (timedNodes.length > 0) {
+      console.log(`⏱️  Timed nodes: ${timedNodes.length}`);
+      timedNodes.forEach(node => {
+        const { durationMs, defaultChoice } = node.timer!;
+        const found = typeof defaultChoice === 'number'
+          ? node.choices[defaultChoice] !== undefined
+          : node.choices.some((choice, index) => (choice.id ?? `${node.id}#${index}`) === defaultChoice);
+        if (!found) console.log(`   ❌ ${node.id}: default choice ${JSON.stringify(defaultChoice)} not found`);
+        if (!(durationMs > 0)) console.log(`   ❌ ${node.id}: durationMs must be positive`);
+      });
+    }
+
+    // Check item references against declared items
+    if (storyData.items && storyData.items.length > 0) {
+      const declaredItems = new Set(storyData.items.map(item => item.id));
+      const unknownItems = new Set<string>();
+      Object.keys(storyData.inventory?.initial || {}).forEach(id => { if (!declaredItems.has(id)) unknownItems.add(id); });
+      storyData.nodes.forEach(node => node.choices.forEach(choice => {
+        [choice.inventoryRequirements, choice.inventoryEffects].forEach(record => {
+          Object.keys(record || {}).forEach(id => { if (!declaredItems.has(id)) unknownItems.add(id); });
+        });
+      }));
+      if (unknownItems.size > 0) {
+        console.log(`❌ Undeclared items referenced:`);
+        unknownItems.forEach(id => console.log(`   - ${id}`));
+      } else {
+        console.log(`✅ All item references are declared (${declaredItems.size} items)`);
+      }
+    }
+
+    // Check dialogue speakers against declared characters
+    if (storyData.characters && storyData.characters.length > 0) {
+      const declaredCharacters = new Set(storyData.characters.map(character => character.id));
+      const unknownSpeakers = new Map<string, Set<string>>();
+      storyData.nodes.forEach(node => node.dialogue?.forEach(line => {
+        if (!line.speaker || declaredCharacters.has(line.speaker)) return;
+        if (!unknownSpeakers.has(line.speaker)) unknownSpeakers.set(line.speaker, new Set());
+        unknownSpeakers.get(line.speaker)!.add(node.id);
+      }));
+      if (unknownSpeakers.size > 0) {
+        console.log(`❌ Dialogue speakers not declared in characters:`);
+        unknownSpeakers.forEach((nodes, speaker) => console.log(`   - ${speaker} (in ${Array.from(nodes).join(', ')})`));
+      } else {
+        console.log(`✅ All dialogue speakers are declared (${declaredCharacters.size} characters)`);
+      }
+    }
+
+    // Check quests: effects must name declared quests and objectives, and each quest needs a way to complete
+    if (storyData.quests && storyData.quests.length > 0) {
+      const quests = new Map(storyData.quests.map(quest => [quest.id, quest]));
+      const unknownQuestRefs = new Set<string>();
+      const completedBy = new Set<string>();
+      const objectivesDone = new Set<string>();
+      storyData.nodes.forEach(node => node.choices.forEach(choice => {
+        Object.entries(choice.questEffects || {}).forEach(([questId, effect]) => {
+          const quest = quests.get(questId);
+          if (!quest) { unknownQuestRefs.add(questId); return; }
+          const { status, complete = [] } = typeof effect === 'string' ? { status: effect } : effect;
+          if (status === 'completed') completedBy.add(questId);
+          complete.forEach(objective => {
+            if (quest.objectives && !quest.objectives.some(o => o.id === objective)) unknownQuestRefs.add(`${questId}.${objective}`);
+            else objectivesDone.add(`${questId}.${objective}`);
+          });
+        });
+      }));
+      const neverCompletes = storyData.quests.filter(quest => {
+        if (completedBy.has(quest.id)) return false;
+        const required = (quest.objectives || []).filter(objective => !objective.optional);
+        if (quest.autoComplete === false || required.length === 0) return true;
+        return required.some(objective => !objectivesDone.has(`${quest.id}.${objective.id}`));
+      });
+      if (unknownQuestRefs.size > 0) {
+        console.log(`❌ Undeclared quests or objectives in quest effects:`);
+        unknownQuestRefs.forEach(ref => console.log(`   - ${ref}`));
+      }
+      if (neverCompletes.length > 0) {
+        console.log(`❌ Quests that can never complete:`);
+        neverCompletes.forEach(quest => {
+          const missing = (quest.objectives || []).filter(objective => !objective.optional && !objectivesDone.has(`${quest.id}.${objective.id}`));
+          console.log(`   - ${quest.id}: ${missing.length > 0 && quest.autoComplete !== false ? `objectives never completed: ${missing.map(o => o.id).join(', ')}` : 'no choice completes it'}`);
         });
       }
+      if (unknownQuestRefs.size === 0 && neverCompletes.length === 0) {
+        console.log(`✅ All quests can complete (${quests.size} quests)`);
+      }
+    }
+
+    // Check tunnels (choices with returnTo) against '@return' targets
+    const tunnelEntries = new Set<string>();
+    storyData.nodes.forEach(node => node.choices.forEach(choice => {
+      if (choice.returnTo && choice.nextNodeId !== RETURN_TARGET) tunnelEntries.add(choice.nextNodeId);
+    }));
+    const returnNodes = storyData.nodes.filter(node =>
+      node.choices.some(choice => choice.nextNodeId === RETURN_TARGET) ||
+      node.redirects?.some(redirect => redirect.nextNodeId === RETURN_TARGET)
+    );
+    if (tunnelEntries.size > 0 || returnNodes.length > 0) {
+      console.log(`🔀 Tunnels: ${tunnelEntries.size}, return points: ${returnNodes.length}`);
+      // Main flow steps over calls to their continuation, so a return reached here has no caller
+      const mainFlow = walkStory(storyData, [storyData.initialNodeId], false);
+      const unbalancedReturns = returnNodes.filter(node => mainFlow.has(node.id));
+      if (unbalancedReturns.length > 0) {
+        console.log(`❌ Unbalanced returns (reachable outside any tunnel):`);
+        unbalancedReturns.forEach(node => console.log(`   - ${node.id}`));
+      }
+      const tunnelBodies = new Set<string>();
+      tunnelEntries.forEach(entry => {
+        const body = walkStory(storyData, [entry], false);
+        body.forEach(id => tunnelBodies.add(id));
+        if (!returnNodes.some(node => body.has(node.id))) {
+          console.log(`   ⚠️  Tunnel ${entry} never reaches '${RETURN_TARGET}'`);
+        }
+      });
+      const unreachableReturns = returnNodes.filter(node => !tunnelBodies.has(node.id) && !mainFlow.has(node.id));
+      if (unreachableReturns.length > 0) {
+        console.log(`⚠️  Unreachable returns (not inside any tunnel):`);
+        unreachableReturns.forEach(node => console.log(`   - ${node.id}`));
+      }
+      if (unbalancedReturns.length === 0 && unreachableReturns.length === 0) {
+        console.log(`✅ All returns are inside tunnels`);
+      }
     }
+
+    // Find unreachable nodes
+    const reachableIds = walkStory(storyData, [storyData.initialNodeId], true);
     
     const unreachableNodes = storyData.nodes.filter(node => !reachableIds.has(node.id));
     if (unreachableNodes.length > 0) {
@@ -80,6 +395,101 @@ function auditStory(filePath: string): void {
   }
 }
 
+/**
+ * Node ids reachable from the start nodes via choices and redirects.
+ * Tunnel calls always reach their returnTo continuation; enterCalls also follows them into the tunnel.
+ * '@return' targets are not followed (they depend on the runtime call stack).
+ */
+function walkStory(storyData: StoryData, start: string[], enterCalls: boolean): Set<string> {
+  const reachableIds = new Set<string>();
+  const toVisit = [...start];
+
+  while (toVisit.length > 0) {
+    const currentId = toVisit.pop()!;
+    if (reachableIds.has(currentId)) continue;
+
+    reachableIds.add(currentId);
+    const node = storyData.nodes.find(n => n.id === currentId);
+    if (!node) continue;
+    node.choices.forEach(choice => {
+      if (choice.nextNodeId === RETURN_TARGET) return;
+      if (choice.returnTo) toVisit.push(choice.returnTo);
+      if (!choice.returnTo || enterCalls) toVisit.push(choice.nextNodeId);
+    });
+    node.redirects?.forEach(redirect => {
+      if (redirect.nextNodeId !== RETURN_TARGET) toVisit.push(redirect.nextNodeId);
+    });
+  }
+  return reachableIds;
+}
+
+/**
+ * Top-level flags an expression reads (none when it does not compile)
+ */
+function flagReferences(expression: string): string[] {
+  return Array.from(new Set(conditionEvaluator.getReferences(expression).filter(ref => ref.kind === 'flag').map(ref => ref.name)));
+}
+
+/**
+ * Condition-grammar expressions a node evaluates: choice, redirect and block conditions, `$expr`
+ * flag effects and, in templated stories, the template tags of its texts
+ */
+function nodeExpressions(node: NarrativeNode, templating: boolean): string[] {
+  const expressions: string[] = [];
+  const add = (expression: string | undefined) => { if (expression) expressions.push(expression); };
+  const addEffects = (effects: Record<string, unknown> | undefined) => Object.values(effects || {}).forEach(effect => {
+    const expr = effect && typeof effect === 'object' ? (effect as { $expr?: unknown }).$expr : undefined;
+    if (typeof expr === 'string') add(expr);
+  });
+  const addTemplate = (text: string | undefined) => {
+    if (!templating || !text) return;
+    const walk = (segments: TemplateSegment[]): void => segments.forEach(segment => {
+      if (segment.kind === 'expr') add(segment.expression);
+      if (segment.kind === 'if') segment.branches.forEach(branch => { add(branch.condition); walk(branch.body); });
+    });
+    try { walk(compileTemplate(text)); } catch { /* malformed templates are reported by the engine */ }
+  };
+
+  addEffects(node.onEnter?.flagEffects);
+  addEffects(node.onExit?.flagEffects);
+  addTemplate(node.text);
+  node.dialogue?.forEach(line => addTemplate(line.text));
+  node.blocks?.forEach(block => { add(block.condition); addTemplate(block.text); });
+  node.redirects?.forEach(redirect => add(redirect.condition));
+  node.choices.forEach(choice => {
+    add(choice.condition);
+    addEffects(choice.flagEffects);
+    addTemplate(choice.lockedMessage);
+  });
+  return expressions;
+}
+
+/**
+ * Find cycles in the redirect graph (each cycle reported once, starting at its first node found)
+ */
+function findRedirectCycles(redirectNodes: NarrativeNode[]): string[][] {
+  const edges = new Map(redirectNodes.map(node => [node.id, node.redirects!.map(redirect => redirect.nextNodeId)]));
+  const cycles: string[][] = [];
+  const done = new Set<string>();
+  const path: string[] = [];
+
+  const visit = (id: string): void => {
+    const onPath = path.indexOf(id);
+    if (onPath !== -1) {
+      cycles.push([...path.slice(onPath), id]);
+      return;
+    }
+    if (done.has(id) || !edges.has(id)) return;
+    path.push(id);
+    edges.get(id)!.forEach(visit);
+    path.pop();
+    done.add(id);
+  };
+
+  edges.forEach((_targets, id) => visit(id));
+  return cycles;
+}
+
 // CLI entry point
 const filePath = process.argv[2];
 if (!filePath) {
@@ -87,4 +497,4 @@ if (!filePath) {
   process.exit(1);
 }
 
-auditStory(filePath);
+void auditStory(filePath);
@@ -1,13 +1,15 @@
 #!/usr/bin/env node
 
 import { readFileSync, writeFileSync } from 'fs';
-import { basename, resolve } from 'path';
+import { basename, dirname, resolve } from 'path';
 import type { StoryData } from '../engine/core.js';
 import { createTelemetry, createTelemetryAdapter } from '../telemetry/core.js';
-import { loadStoryData } from '../engine/core.js';
+import { loadStoryData, RETURN_TARGET } from '../engine/core.js';
 import { CustomJSONAdapter } from '../adapters/story/CustomJSONAdapter.js';
 import { TwisonAdapter } from '../adapters/story/TwisonAdapter.js';
 import { InkAdapter } from '../adapters/story/InkAdapter.js';
+import { createFileModuleResolver } from '../adapters/story/FileModuleResolver.js';
+import { isStoryManifest, resolveStoryManifest, findDanglingModuleLinks } from '../engine/modules.js';
 import { validateStoryData } from '../schemas/validateStoryData.js';
 import { createLogger, deriveLogLevel, Logger } from '../utils/logger';
 import type { StoryAdapter } from '../adapters/contracts';
@@ -45,13 +47,15 @@ async function main(): Promise<void> {
   const logger: Logger = createLogger({ level: deriveLogLevel({ quiet, verbose }) });
 
   if (showHelp || args.includes('--help') || args.includes('-h')) {
-  logger.info(`\nQNCE Import CLI\nUsage: qnce-import <input-file>|(read from stdin) [--out <file>|stdout] [--id-prefix <prefix>] [--format json|twison|ink] [--strict] [--experimental-ink] [--telemetry <console|file|none>] [--telemetry-file <path>] [--telemetry-sample <0..1>] [--quiet|--verbose]\n`);
+  logger.info(`\nQNCE Import CLI\nUsage: qnce-import <input-file>|(read from stdin) [--out <file>|stdout] [--id-prefix <prefix>] [--format json|twison|ink] [--strict] [--speakers] [--experimental-ink] [--telemetry <console|file|none>] [--telemetry-file <path>] [--telemetry-sample <0..1>] [--quiet|--verbose]\n`);
     process.exit(0);
   }
 
   const formatIdx = args.indexOf('--format');
   const format = formatIdx >= 0 ? args[formatIdx + 1] : undefined;
   const strict = args.includes('--strict');
+  // Twison/Ink: map `Name: line` text to dialogue and characters
+  const speakerLines = args.includes('--speakers');
   // --experimental-ink flag retained for backward CLI compatibility (no-op). Ignored intentionally.
   if (args.includes('--experimental-ink')) {
     /* no-op legacy flag */
@@ -94,6 +98,15 @@ async function main(): Promise<void> {
     const json = JSON.parse(raw);
 
   let selected: { key: string; inst: StoryAdapter };
+  let normalized: StoryData;
+    if (isStoryManifest(json) && (!format || format === 'json')) {
+      // Story manifest: load every module (lazy ones included) relative to the manifest and flatten
+      const baseDir = inputName === 'stdin' ? process.cwd() : dirname(inputName);
+      selected = { key: 'manifest', inst: new CustomJSONAdapter() };
+      logger.info(`Detected story manifest with ${Object.keys(json.modules).length} module(s) (from ${inputName})`);
+      normalized = await resolveStoryManifest(json, createFileModuleResolver(baseDir, { strict, speakerLines }), { includeLazy: true });
+      if (idPrefix) normalized = await selected.inst.load(normalized, { idPrefix, strict });
+    } else {
     if (format) {
   const map: Record<string, StoryAdapter> = {
         json: new CustomJSONAdapter(),
@@ -107,7 +120,8 @@ async function main(): Promise<void> {
   logger.info(`Detected format: ${selected.key} (from ${inputName})`);
     }
 
-  const normalized: StoryData = await selected.inst.load(json as object, { idPrefix, strict });
+  normalized = await selected.inst.load(json as object, { idPrefix, strict, speakerLines });
+    }
 
     // Schema validation (strict enforces failure)
   const schema = validateStoryData(normalized);
@@ -130,9 +144,17 @@ async function main(): Promise<void> {
     const invalidLinks: Array<{ from: string; to: string }> = [];
     for (const n of normalized.nodes) {
       for (const c of n.choices) {
-        if (c.nextNodeId && !nodeIds.has(c.nextNodeId)) {
+        if (c.nextNodeId && c.nextNodeId !== RETURN_TARGET && !nodeIds.has(c.nextNodeId)) {
           invalidLinks.push({ from: n.id, to: c.nextNodeId });
         }
+        if (c.returnTo && !nodeIds.has(c.returnTo)) {
+          invalidLinks.push({ from: n.id, to: c.returnTo });
+        }
+      }
+      for (const r of n.redirects ?? []) {
+        if (r.nextNodeId && r.nextNodeId !== RETURN_TARGET && !nodeIds.has(r.nextNodeId)) {
+          invalidLinks.push({ from: n.id, to: r.nextNodeId });
+        }
       }
     }
     const initialExists = nodeIds.has(normalized.initialNodeId);
@@ -148,7 +170,11 @@ async function main(): Promise<void> {
     }
     if (invalidLinks.length > 0) {
       const msg = `Found ${invalidLinks.length} dangling link(s)`;
-      const lines = invalidLinks.slice(0, 10).map(l => ` - ${l.from} -> ${l.to} (missing)`);
+      const crossModule = new Map(findDanglingModuleLinks(normalized).map(l => [`${l.fromNodeId} -> ${l.toNodeId}`, l.reason]));
+      const lines = invalidLinks.slice(0, 10).map(l => {
+        const reason = crossModule.get(`${l.from} -> ${l.to}`);
+        return ` - ${l.from} -> ${l.to} (${reason === 'unknown-module' ? 'unknown module' : reason ? 'missing in module' : 'missing'})`;
+      });
       if (strict) {
         logger.error(msg);
         if (lines.length) logger.error(lines.join('\n'));
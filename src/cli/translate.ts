@@ -0,0 +1,153 @@
+#!/usr/bin/env node
+
+import { readFileSync, writeFileSync } from 'fs';
+import { basename, extname, resolve } from 'path';
+import { CustomJSONAdapter } from '../adapters/story/CustomJSONAdapter.js';
+import { XliffAdapter } from '../adapters/translation/XliffAdapter.js';
+import { PoAdapter } from '../adapters/translation/PoAdapter.js';
+import { extractTranslations, mergeTranslations, findStaleTranslations } from '../adapters/translation/strings.js';
+import { createLogger, deriveLogLevel, Logger } from '../utils/logger';
+import type { TranslationAdapter } from '../adapters/contracts';
+import type { StoryData } from '../engine/core.js';
+
+/**
+ * QNCE Translate CLI
+ * Extracts translatable story strings to XLIFF 2.0 / gettext PO and merges translations back
+ */
+
+const USAGE = `\nQNCE Translate CLI\nUsage:\n  qnce-translate extract <story.json> --locale <locale> [--format xliff|po] [--out <file>|stdout]\n  qnce-translate merge <story.json> <translation-file>... [--out <file>|stdout] [--strict]\n  qnce-translate status <story.json>\nOptions: [--quiet|--verbose]\n`;
+
+const adapters: TranslationAdapter[] = [new XliffAdapter(), new PoAdapter()];
+
+function optionValue(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+/** Positional arguments after the command (skipping option values) */
+function positionals(args: string[]): string[] {
+  const valued = new Set(['--locale', '--format', '--out']);
+  const result: string[] = [];
+  for (let i = 1; i < args.length; i++) {
+    if (valued.has(args[i])) i++;
+    else if (!args[i].startsWith('--')) result.push(args[i]);
+  }
+  return result;
+}
+
+function adapterFor(format: string | undefined, path: string | undefined, content?: string): TranslationAdapter {
+  if (format) {
+    const adapter = adapters.find(a => a.format === format);
+    if (!adapter) throw new Error(`Unknown format: ${format} (expected xliff or po)`);
+    return adapter;
+  }
+  const extension = path ? extname(path).slice(1).toLowerCase() : '';
+  const byExtension = adapters.find(a => a.extension === extension || (extension === 'xliff' && a.format === 'xliff'));
+  if (byExtension) return byExtension;
+  const detected = content !== undefined ? adapters.find(a => a.detect?.(content)) : undefined;
+  if (detected) return detected;
+  if (content !== undefined) throw new Error(`Cannot detect translation format of ${path}`);
+  return adapters[0];
+}
+
+async function loadStory(path: string): Promise<StoryData> {
+  return new CustomJSONAdapter().load(JSON.parse(readFileSync(resolve(path), 'utf-8')) as object);
+}
+
+function writeOutput(outArg: string | undefined, defaultPath: string, content: string, logger: Logger): void {
+  if (outArg === 'stdout') {
+    process.stdout.write(content);
+    return;
+  }
+  const outPath = resolve(outArg ?? defaultPath);
+  writeFileSync(outPath, content);
+  logger.success(`Wrote ${outPath}`);
+}
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  const quiet = args.includes('--quiet');
+  const verbose = args.includes('--verbose');
+  const logger: Logger = createLogger({ level: deriveLogLevel({ quiet, verbose }) });
+  const command = args[0];
+
+  if (!command || args.includes('--help') || args.includes('-h')) {
+    logger.info(USAGE);
+    process.exit(command ? 0 : 1);
+  }
+
+  const [storyPath, ...files] = positionals(args);
+  if (!storyPath) throw new Error(`Missing story file\n${USAGE}`);
+  const story = await loadStory(storyPath);
+  const storyBase = basename(storyPath).replace(/\.[^.]+$/, '');
+  const outArg = optionValue(args, '--out');
+
+  if (command === 'extract') {
+    const locale = optionValue(args, '--locale');
+    if (!locale) throw new Error('extract requires --locale <locale>');
+    const adapter = adapterFor(optionValue(args, '--format'), outArg === 'stdout' ? undefined : outArg);
+    const document = extractTranslations(story, locale);
+    const pending = document.units.filter(unit => unit.target === undefined || unit.fuzzy).length;
+    writeOutput(outArg, `${storyBase}.${locale}.${adapter.extension}`, adapter.serialize(document), logger);
+    logger.info(`${document.units.length} strings for ${locale} (${pending} to translate or review)`);
+    process.exit(0);
+  }
+
+  if (command === 'merge') {
+    if (files.length === 0) throw new Error('merge requires at least one translation file');
+    const strict = args.includes('--strict');
+    let merged = story;
+    let exitCode = 0;
+    for (const file of files) {
+      const content = readFileSync(resolve(file), 'utf-8');
+      const document = adapterFor(optionValue(args, '--format'), file, content).parse(content);
+      const result = mergeTranslations(merged, document);
+      merged = result.story;
+      logger.info(`${file}: merged ${result.merged.length} ${result.locale} translation(s), ${result.untranslated.length} untranslated`);
+      const problems: Array<[string, string[]]> = [
+        ['stale (source text changed since extraction)', result.stale],
+        ['marked fuzzy (needs review)', result.fuzzy],
+        ['unknown (no longer in the story)', result.unknown]
+      ];
+      for (const [label, keys] of problems) {
+        if (keys.length === 0) continue;
+        exitCode = 1;
+        logger.warn(`${keys.length} ${label}, skipped:\n${keys.map(key => ` - ${key}`).join('\n')}`);
+      }
+    }
+    if (strict && exitCode > 0) {
+      logger.error('Not writing merged story (--strict)');
+      process.exit(2);
+    }
+    writeOutput(outArg, `${storyBase}.qnce.json`, JSON.stringify(merged, null, 2), logger);
+    process.exit(exitCode);
+  }
+
+  if (command === 'status') {
+    const stale = findStaleTranslations(story);
+    let exitCode = 0;
+    for (const locale of Object.keys(story.locales ?? {})) {
+      const keys = stale[locale] ?? [];
+      if (keys.length === 0) {
+        logger.success(`${locale}: no stale translations`);
+        continue;
+      }
+      exitCode = 1;
+      logger.warn(`${locale}: ${keys.length} stale translation(s):\n${keys.map(key => ` - ${key}`).join('\n')}`);
+    }
+    process.exit(exitCode);
+  }
+
+  throw new Error(`Unknown command: ${command}\n${USAGE}`);
+}
+
+const isMainModule = require.main === module;
+if (isMainModule) {
+  main().catch((e: unknown) => {
+    const msg = e && typeof e === 'object' && 'message' in e ? String((e as { message?: unknown }).message) : String(e);
+    createLogger({ level: 'error' }).error(`Translate failed: ${msg}`);
+    process.exit(2);
+  });
+}
+
+export {};
@@ -0,0 +1,82 @@
+// QNCE Engine Clock
+// Time source and timer scheduling used for timed choices. The engine never calls
+// Date.now()/setTimeout directly for countdowns, so tests (and replays) can drive time
+// explicitly with a ManualClock.
+
+/**
+ * Time source and one-shot timer scheduler
+ * @public
+ */
+export interface EngineClock {
+  /** Current time in milliseconds */
+  now(): number;
+  /** Schedule a callback; returns a handle for clearTimeout */
+  setTimeout(callback: () => void, ms: number): unknown;
+  clearTimeout(handle: unknown): void;
+}
+
+/**
+ * Wall-clock implementation (timers do not keep a Node.js process alive)
+ * @public
+ */
+export const systemClock: EngineClock = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => {
+    const handle = setTimeout(callback, ms);
+    (handle as { unref?: () => void }).unref?.();
+    return handle;
+  },
+  clearTimeout: (handle) => clearTimeout(handle as ReturnType<typeof setTimeout>)
+};
+
+/**
+ * Deterministic clock whose time only moves when advance() is called
+ * @public
+ */
+export class ManualClock implements EngineClock {
+  private current: number;
+  private timers = new Map<number, { at: number; callback: () => void }>();
+  private nextHandle = 1;
+
+  constructor(start = 0) {
+    this.current = start;
+  }
+
+  now(): number {
+    return this.current;
+  }
+
+  setTimeout(callback: () => void, ms: number): number {
+    const handle = this.nextHandle++;
+    this.timers.set(handle, { at: this.current + Math.max(0, ms), callback });
+    return handle;
+  }
+
+  clearTimeout(handle: unknown): void {
+    this.timers.delete(handle as number);
+  }
+
+  /**
+   * Move time forward, firing due timers in deadline order
+   * (timers scheduled by a callback fire in the same call if they fall due)
+   */
+  advance(ms: number): void {
+    const target = this.current + ms;
+    for (;;) {
+      let due: [number, { at: number; callback: () => void }] | undefined;
+      for (const entry of this.timers) {
+        if (entry[1].at <= target && (!due || entry[1].at < due[1].at)) due = entry;
+      }
+      if (!due) break;
+      this.timers.delete(due[0]);
+      this.current = due[1].at;
+      due[1].callback();
+    }
+    this.current = target;
+  }
+
+  /** Number of timers waiting to fire */
+  pendingTimers(): number {
+    return this.timers.size;
+  }
+}
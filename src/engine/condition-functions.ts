@@ -0,0 +1,106 @@
+// QNCE Condition Functions
+// Functions callable from condition expressions and templates, e.g. `visited("cave")` or
+// `max(flags.a, flags.b) > 3`. A function may declare its parameters; calls are then checked for
+// arity and literal argument types while the expression is parsed, so a typo such as `abs("x")`
+// fails validation instead of quietly evaluating to NaN. Functions only ever receive plain values,
+// and member access on their results reads own data properties only, so they add no way out of the
+// expression sandbox.
+
+import type { ConditionFunction } from './condition';
+
+/**
+ * Argument type of a condition function parameter
+ * @public
+ */
+export type ConditionArgType = 'number' | 'string' | 'boolean' | 'any';
+
+/**
+ * Condition function with a declared signature
+ * @public
+ */
+export interface ConditionFunctionDefinition {
+  /** Parameter types in order */
+  params?: ConditionArgType[];
+  /** Number of required parameters (default: all of `params`) */
+  minArgs?: number;
+  /** Type of any further arguments; without it extra arguments are rejected */
+  rest?: ConditionArgType;
+  fn: ConditionFunction;
+}
+
+/**
+ * Entry of a condition function table: a bare function (unchecked) or a definition with a signature
+ * @public
+ */
+export type ConditionFunctionEntry = ConditionFunction | ConditionFunctionDefinition;
+
+// Identifiers the expression grammar claims for itself, plus the words the sanitizer rejects
+const RESERVED_NAMES = new Set([
+  'true', 'false', 'null', 'undefined', 'timestamp',
+  'flags', 'state', 'customData', 'visits', 'chosen', 'quest', 'time', 'in',
+  'eval', 'Function', 'constructor', 'prototype', '__proto__', 'import', 'require', 'process', 'global', 'window', 'document'
+]);
+
+const toNumbers = (args: unknown[]) => args.map(arg => Number(arg));
+const toText = (value: unknown) => (value === undefined || value === null ? '' : String(value));
+
+/**
+ * Pure functions available in every expression (math and string helpers). `random()` draws from the seeded source of the
+ * evaluation (ConditionContext.randomSeed), so its entry here only carries the signature.
+ * @public
+ */
+export const BUILTIN_CONDITION_FUNCTIONS: Readonly<Record<string, ConditionFunctionDefinition>> = Object.freeze({
+  min: { minArgs: 1, rest: 'number', fn: (...args: unknown[]) => Math.min(...toNumbers(args)) },
+  max: { minArgs: 1, rest: 'number', fn: (...args: unknown[]) => Math.max(...toNumbers(args)) },
+  abs: { params: ['number'], fn: (value: unknown) => Math.abs(Number(value)) },
+  lower: { params: ['string'], fn: (value: unknown) => toText(value).toLowerCase() },
+  upper: { params: ['string'], fn: (value: unknown) => toText(value).toUpperCase() },
+  trim: { params: ['string'], fn: (value: unknown) => toText(value).trim() },
+  startsWith: { params: ['string', 'string'], fn: (value: unknown, prefix: unknown) => toText(value).startsWith(toText(prefix)) },
+  endsWith: { params: ['string', 'string'], fn: (value: unknown, suffix: unknown) => toText(value).endsWith(toText(suffix)) },
+  // Length of a string or array, key count of an object, 0 otherwise
+  len: {
+    params: ['any'],
+    fn: (value: unknown) => typeof value === 'string' || Array.isArray(value) ? value.length
+      : value !== null && typeof value === 'object' ? Object.keys(value).length : 0
+  },
+  random: {
+    params: [],
+    fn: () => { throw new Error('random() needs a seeded source (ConditionContext.randomSeed)'); }
+  }
+});
+
+/** Normalize a table entry to a definition (bare functions accept any arguments) */
+export function toConditionFunctionDefinition(entry: ConditionFunctionEntry): ConditionFunctionDefinition {
+  return typeof entry === 'function' ? { minArgs: 0, rest: 'any', fn: entry } : entry;
+}
+
+/**
+ * Throw when `name` cannot be used as a condition function name
+ * @public
+ */
+export function assertConditionFunctionName(name: string): void {
+  if (!/^[a-zA-Z_$][a-zA-Z0-9_$]*$/.test(name)) throw new Error(`Invalid condition function name: '${name}'`);
+  if (RESERVED_NAMES.has(name)) throw new Error(`Reserved condition function name: '${name}'`);
+}
+
+/**
+ * Check a call against a function's signature
+ * @param argTypes - Static type of each argument, or undefined where only the runtime value knows it
+ * @throws Error describing the first arity or type mismatch
+ */
+export function checkConditionCall(name: string, definition: ConditionFunctionDefinition, argTypes: Array<ConditionArgType | undefined>): void {
+  const params = definition.params ?? [];
+  const min = definition.minArgs ?? params.length;
+  const max = definition.rest ? Infinity : params.length;
+  if (argTypes.length < min || argTypes.length > max) {
+    const expected = min === max ? `${min}` : max === Infinity ? `at least ${min}` : `${min}-${max}`;
+    const plural = (max === Infinity ? min : max) === 1 ? '' : 's';
+    throw new Error(`Function '${name}' expects ${expected} argument${plural}, got ${argTypes.length}`);
+  }
+  argTypes.forEach((actual, index) => {
+    const expected = index < params.length ? params[index] : definition.rest;
+    if (!actual || !expected || expected === 'any' || actual === expected) return;
+    throw new Error(`Argument ${index + 1} of '${name}' must be a ${expected}, got ${actual}`);
+  });
+}
@@ -1,21 +1,54 @@
 // QNCE Condition Evaluator - Sprint 3.4
 // Parses and evaluates conditional expressions for choice visibility
+// Expressions are compiled once into closures and cached; the engine compiles its story's conditions at load
 // Safe expression evaluator: no dynamic code execution (no eval / new Function)
 
 import { QNCEState } from './core';
+import { QUEST_STATUSES, type QuestProgress, type QuestStatus } from './quests';
+import type { GameTime } from './game-clock';
 import { internString } from '../utils/intern';
+import { hashSeed, nextRandom } from './random';
+import { resolveNodeReference } from './modules';
+import {
+  BUILTIN_CONDITION_FUNCTIONS,
+  checkConditionCall,
+  toConditionFunctionDefinition,
+  type ConditionArgType,
+  type ConditionFunctionDefinition,
+  type ConditionFunctionEntry
+} from './condition-functions';
 
 /**
  * Error thrown when condition evaluation fails
  * @public
  */
 export class ConditionEvaluationError extends Error {
-  constructor(message: string, public readonly expression?: string, public readonly cause?: Error) {
+  /**
+   * @param position - Character offset in `expression` of a syntax or call-signature error
+   */
+  constructor(
+    message: string,
+    public readonly expression?: string,
+    public readonly cause?: Error,
+    public readonly position?: number
+  ) {
     super(message);
     this.name = 'ConditionEvaluationError';
   }
 }
 
+/** Wrap a failure for `expression`; errors with a position get "<problem> at position N: <expression>" */
+function wrapConditionError(message: string, expression: string, error: unknown): ConditionEvaluationError {
+  const cause = error instanceof Error ? error : new Error(String(error));
+  if (cause instanceof ConditionEvaluationError && cause.position !== undefined) {
+    if (cause.expression !== undefined) return cause; // already wrapped
+    // Positions are found in the trimmed expression; report them against the original text
+    const position = cause.position + (expression.length - expression.trimStart().length);
+    return new ConditionEvaluationError(`${cause.message} at position ${position}: ${expression}`, expression, cause, position);
+  }
+  return new ConditionEvaluationError(`${message}: ${expression}`, expression, cause);
+}
+
 /**
  * Context object passed to condition evaluators
  * @public
@@ -27,8 +60,20 @@ export interface ConditionContext {
   timestamp: number;
   /** Additional custom context data */
   customData?: Record<string, unknown>;
+  /** Functions callable from expressions, e.g. `has("key")` (supplied by the engine; built-ins such as `min` need no entry) */
+  functions?: Record<string, ConditionFunctionEntry>;
+  /** Game clock breakdown read by `time.<field>` (supplied by the engine) */
+  gameTime?: GameTime;
+  /** Seed for `random()`; each expression draws its own repeatable sequence from it */
+  randomSeed?: number;
 }
 
+/**
+ * Function callable from a condition expression
+ * @public
+ */
+export type ConditionFunction = (...args: unknown[]) => unknown;
+
 /**
  * Custom evaluator function signature
  * @public
@@ -38,42 +83,70 @@ export type CustomEvaluatorFunction = (expression: string, context: ConditionCon
 // ─── Safe expression parser ───────────────────────────────────────────────────
 // Replaces `new Function` / `eval` with a whitelist-only recursive-descent
 // parser.  Only the constructs listed in the grammar below are accepted;
-// anything else throws, preventing arbitrary code execution.
+// anything else throws, preventing arbitrary code execution. Member access only
+// reads own data properties (and `length`), so prototypes and functions are never
+// reachable; parse errors carry the position of the offending token.
 //
 // Grammar (EBNF):
-//   expr         := or_expr
+//   expr         := ternary
+//   ternary      := or_expr ('?' expr ':' expr)?
 //   or_expr      := and_expr ('||' and_expr)*
 //   and_expr     := not_expr ('&&' not_expr)*
 //   not_expr     := '!' not_expr | compare_expr
 //   compare_expr := add_expr (cmp_op add_expr)?
 //     cmp_op     := '===' | '==' | '!==' | '!=' | '>=' | '<=' | '>' | '<'
+//                 | 'in'                    (array element, substring or own object key)
 //   add_expr     := mul_expr (('+' | '-') mul_expr)*
 //   mul_expr     := unary (('*' | '/' | '%') unary)*
-//   unary        := '-' unary | primary
-//   primary      := '(' expr ')' | literal | member_access
+//   unary        := '-' unary | postfix
+//   postfix      := primary ('.' IDENT | '[' expr ']')*   (undefined when missing, never throws)
+//   primary      := '(' expr ')' | literal | array | object | call | member_access
+//   array        := '[' (expr (',' expr)*)? ']'
+//   object       := '{' ((IDENT | STRING) ':' expr (',' (IDENT | STRING) ':' expr)*)? '}'
+//   call         := IDENT '(' (expr (',' expr)*)? ')'   (context-supplied or built-in functions;
+//                                                        arity and literal argument types checked)
 //   literal      := 'true' | 'false' | 'null' | 'undefined' | NUMBER | STRING
-//   member_access:= 'flags' '.' IDENT
-//                 | 'state' '.' IDENT
-//                 | 'customData' '.' IDENT
+//   member_access:= 'flags' ('.' | '[') ...    (continues as postfix)
+//                 | 'state' ('.' | '[') ...
+//                 | 'customData' ('.' | '[') ...
+//                 | 'visits' '.' IDENT      (node visit count, 0 if never visited; module-local ids
+//                                            resolve within the current node's module)
+//                 | 'chosen' '.' IDENT      (choice selection count by choice id)
+//                 | 'quest' '.' IDENT       (quest status, 'inactive' if never started; equality tests
+//                                            accept "done" for "completed" and reject other non-status literals)
+//                 | 'quest' '.' IDENT '.' IDENT  (whether a quest objective is completed)
+//                 | 'time' '.' IDENT        (game clock field: total, day, hour, minute, clock, weekday, period)
 //                 | 'timestamp'
-
-type TokenKind = 'number' | 'string' | 'ident' | 'op' | 'lparen' | 'rparen' | 'dot';
-interface Token { readonly kind: TokenKind; readonly value: string; }
+//
+// Expressions compile once into closures (ConditionEvaluator.compile); `&&`, `||` and `?:`
+// short-circuit, so skipped operands never run.
+
+type TokenKind =
+  | 'number' | 'string' | 'ident' | 'op' | 'lparen' | 'rparen' | 'dot' | 'comma'
+  | 'lbracket' | 'rbracket' | 'lbrace' | 'rbrace' | 'colon' | 'question';
+/** Token with its [pos, end) character range in the expression */
+interface Token { readonly kind: TokenKind; readonly value: string; readonly pos: number; readonly end: number; }
 type SafeValue = string | number | boolean | null | undefined | object;
 
+const PUNCTUATION: Record<string, TokenKind> = {
+  '(': 'lparen', ')': 'rparen', '.': 'dot', ',': 'comma',
+  '[': 'lbracket', ']': 'rbracket', '{': 'lbrace', '}': 'rbrace', ':': 'colon', '?': 'question'
+};
+
 /** Tokenize a condition expression string into an array of Tokens. */
 function tokenizeExpression(expr: string): Token[] {
   const tokens: Token[] = [];
   let i = 0;
   while (i < expr.length) {
     const ch = expr[i];
+    const start = i;
     if (/\s/.test(ch)) { i++; continue; }
 
     // Number literal
     if (/[0-9]/.test(ch)) {
       let num = '';
       while (i < expr.length && /[0-9.]/.test(expr[i])) num += expr[i++];
-      tokens.push({ kind: 'number', value: num });
+      tokens.push({ kind: 'number', value: num, pos: start, end: i });
       continue;
     }
 
@@ -85,8 +158,9 @@ function tokenizeExpression(expr: string): Token[] {
         if (expr[i] === '\\' && i + 1 < expr.length) i++;  // skip escape prefix (bounds-safe)
         str += expr[i++];
       }
-      if (expr[i] === quote) i++;
-      tokens.push({ kind: 'string', value: str });
+      if (expr[i] !== quote) throw new ConditionEvaluationError('Unterminated string', undefined, undefined, start);
+      i++;
+      tokens.push({ kind: 'string', value: str, pos: start, end: i });
       continue;
     }
 
@@ -94,203 +168,495 @@ function tokenizeExpression(expr: string): Token[] {
     if (/[a-zA-Z_$]/.test(ch)) {
       let id = '';
       while (i < expr.length && /[a-zA-Z0-9_$]/.test(expr[i])) id += expr[i++];
-      tokens.push({ kind: 'ident', value: id });
+      tokens.push({ kind: 'ident', value: id, pos: start, end: i });
       continue;
     }
 
     // 3-char operators (must be checked before 2-char)
     const c3 = expr.slice(i, i + 3);
     if (c3 === '===' || c3 === '!==') {
-      tokens.push({ kind: 'op', value: c3 }); i += 3; continue;
+      tokens.push({ kind: 'op', value: c3, pos: start, end: i + 3 }); i += 3; continue;
     }
 
     // 2-char operators
     const c2 = expr.slice(i, i + 2);
     if (['==', '!=', '<=', '>=', '&&', '||'].includes(c2)) {
-      tokens.push({ kind: 'op', value: c2 }); i += 2; continue;
+      tokens.push({ kind: 'op', value: c2, pos: start, end: i + 2 }); i += 2; continue;
     }
 
-    // 1-char operators
+    // 1-char operators and punctuation
     if ('!<>+-*/%'.includes(ch)) {
-      tokens.push({ kind: 'op', value: ch }); i++; continue;
+      tokens.push({ kind: 'op', value: ch, pos: start, end: i + 1 }); i++; continue;
+    }
+    if (Object.prototype.hasOwnProperty.call(PUNCTUATION, ch)) {
+      tokens.push({ kind: PUNCTUATION[ch], value: ch, pos: start, end: i + 1 }); i++; continue;
     }
-    if (ch === '(') { tokens.push({ kind: 'lparen', value: ch }); i++; continue; }
-    if (ch === ')') { tokens.push({ kind: 'rparen', value: ch }); i++; continue; }
-    if (ch === '.') { tokens.push({ kind: 'dot', value: ch }); i++; continue; }
 
-    throw new Error(`Unexpected character '${ch}' in expression`);
+    throw new ConditionEvaluationError(`Unexpected character '${ch}'`, undefined, undefined, start);
   }
   return tokens;
 }
 
-/** Recursive-descent evaluator operating on a pre-tokenized expression. */
-class SafeParser {
-  pos = 0;
-  private readonly toks: Token[];
-  private readonly flags: Record<string, unknown>;
-  private readonly state: { currentNodeId: string; flags: Record<string, unknown>; history: string[] };
-  private readonly timestamp: number;
-  private readonly customData: Record<string, unknown> | undefined;
+/** Own data property of an object or array, or `length` of a string or array; never a function */
+function readMember(target: unknown, key: unknown): SafeValue {
+  if (typeof key !== 'string' && typeof key !== 'number') return undefined;
+  if ((typeof target === 'string' || Array.isArray(target)) && key === 'length') return target.length;
+  if (target === null || (typeof target !== 'object' && typeof target !== 'string')) return undefined;
+  if (!Object.prototype.hasOwnProperty.call(target, key)) return undefined;
+  const value = (target as Record<string, unknown>)[key];
+  return typeof value === 'function' ? undefined : value as SafeValue;
+}
 
-  constructor(
-    tokens: Token[],
-    ctx: {
-      flags: Record<string, unknown>;
-      state: { currentNodeId: string; flags: Record<string, unknown>; history: string[] };
-      timestamp: number;
-      customData: Record<string, unknown> | undefined;
-    }
-  ) {
-    this.toks = tokens;
-    this.flags = ctx.flags;
-    this.state = ctx.state;
-    this.timestamp = ctx.timestamp;
-    this.customData = ctx.customData;
+/** `needle in haystack`: array element, substring or own object key */
+function containsValue(haystack: SafeValue, needle: SafeValue): boolean {
+  if (Array.isArray(haystack)) return haystack.includes(needle);
+  if (typeof haystack === 'string') return haystack.includes(String(needle));
+  if (haystack !== null && typeof haystack === 'object') return Object.prototype.hasOwnProperty.call(haystack, String(needle));
+  return false;
+}
+
+/**
+ * Values an expression runs against (built from a ConditionContext for each evaluation)
+ * @internal
+ */
+export interface ConditionScope {
+  flags: Record<string, unknown>;
+  state: { currentNodeId: string; flags: Record<string, unknown>; history: string[] };
+  timestamp: number;
+  customData: Record<string, unknown> | undefined;
+  functions?: Record<string, ConditionFunctionEntry>;
+  randomSeed?: number;
+  visits?: Record<string, number>;
+  chosen?: Record<string, number>;
+  quests?: Record<string, QuestProgress>;
+  time?: GameTime;
+  /** Position of `random()` within the current evaluation */
+  rngState?: number;
+}
+
+/**
+ * Function call found while compiling, kept for signature checks against a function table
+ * @internal
+ */
+export interface ConditionCallSite {
+  name: string;
+  argTypes: Array<ConditionArgType | undefined>;
+  position: number;
+}
+
+/**
+ * Story data an expression reads by name, noted while compiling (for audits):
+ * `visit` for `visits.<id>` and `visited("<id>")` with a literal id; `flag` for the top-level flag
+ * of `flags.<name>`, `flags["<name>"]` and `state.flags.<name>` (nested paths name their root flag)
+ * @public
+ */
+export interface ConditionReference {
+  kind: 'visit' | 'flag';
+  name: string;
+  /** Character offset of the reference in the expression */
+  position: number;
+}
+
+/**
+ * Expression parsed once into a tree of closures (see ConditionEvaluator.compile); evaluate()
+ * and evaluateValue() accept it in place of the expression string
+ * @public
+ */
+export interface CompiledCondition {
+  readonly expression: string;
+  /** @internal */
+  readonly program: (scope: ConditionScope) => unknown;
+  /** @internal */
+  readonly calls: readonly ConditionCallSite[];
+  readonly references: readonly ConditionReference[];
+}
+
+type Program = (scope: ConditionScope) => SafeValue;
+
+// Status words conditions accept in place of a quest status (`quest.rescue == "done"`)
+const QUEST_STATUS_ALIASES: Record<string, QuestStatus> = { done: 'completed' };
+
+const hasOwn = (target: object, key: string) => Object.prototype.hasOwnProperty.call(target, key);
+
+/** Recursive-descent compiler turning a pre-tokenized expression into closures. */
+class ConditionCompiler {
+  private pos = 0;
+  readonly calls: ConditionCallSite[] = [];
+  readonly references: ConditionReference[] = [];
+  // random() sequences are seeded per expression, so unrelated conditions do not shift each other
+  private readonly randomKey: string;
+
+  constructor(private readonly toks: Token[]) {
+    this.randomKey = toks.map(t => t.value).join(' ');
   }
 
-  evaluate(): SafeValue {
-    const result = this.parseOr();
-    if (this.pos < this.toks.length) {
-      throw new Error(`Unexpected token '${this.toks[this.pos].value}'`);
-    }
-    return result;
+  compile(): Program {
+    const program = this.parseTernary();
+    const rest = this.peek();
+    if (rest) throw this.error(`Unexpected token '${rest.value}'`, rest);
+    return program;
   }
 
   private peek(): Token | undefined { return this.toks[this.pos]; }
 
   private advance(): Token {
-    const t = this.toks[this.pos++];
-    if (!t) throw new Error('Unexpected end of expression');
+    const t = this.toks[this.pos];
+    if (!t) throw this.error('Unexpected end of expression');
+    this.pos++;
     return t;
   }
 
-  private parseOr(): SafeValue {
+  private isOp(value: string): boolean {
+    const t = this.peek();
+    return t?.kind === 'op' && t.value === value;
+  }
+
+  /** Consume a token of the given kind or fail with "Expected <what>" at the current position */
+  private expect(kind: TokenKind, what: string): Token {
+    if (this.peek()?.kind !== kind) throw this.error(`Expected ${what}`);
+    return this.advance();
+  }
+
+  /** Parse error located at a token (default: the current one, or the end of the expression) */
+  private error(message: string, tok = this.peek()): ConditionEvaluationError {
+    const last = this.toks[this.toks.length - 1];
+    return new ConditionEvaluationError(message, undefined, undefined, tok ? tok.pos : (last?.end ?? 0));
+  }
+
+  private parseTernary(): Program {
+    const test = this.parseOr();
+    if (this.peek()?.kind !== 'question') return test;
+    this.pos++;
+    const whenTrue = this.parseTernary();
+    this.expect('colon', "':' in conditional expression");
+    const whenFalse = this.parseTernary();
+    return s => test(s) ? whenTrue(s) : whenFalse(s);
+  }
+
+  private parseOr(): Program {
     let left = this.parseAnd();
-    while (this.peek()?.value === '||') {
+    while (this.isOp('||')) {
       this.pos++;
+      const prev = left;
       const right = this.parseAnd();
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      left = ((left as any) || (right as any)) as SafeValue;
+      left = s => prev(s) || right(s);
     }
     return left;
   }
 
-  private parseAnd(): SafeValue {
+  private parseAnd(): Program {
     let left = this.parseNot();
-    while (this.peek()?.value === '&&') {
+    while (this.isOp('&&')) {
       this.pos++;
+      const prev = left;
       const right = this.parseNot();
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      left = ((left as any) && (right as any)) as SafeValue;
+      left = s => prev(s) && right(s);
     }
     return left;
   }
 
-  private parseNot(): SafeValue {
-    if (this.peek()?.value === '!') { this.pos++; return !this.parseNot(); }
+  private parseNot(): Program {
+    if (this.isOp('!')) {
+      this.pos++;
+      const operand = this.parseNot();
+      return s => !operand(s);
+    }
     return this.parseComparison();
   }
 
-  private parseComparison(): SafeValue {
-    const left = this.parseAdd();
+  private parseComparison(): Program {
+    const leftStart = this.pos;
+    let left = this.parseAdd();
+    const leftEnd = this.pos;
     const op = this.peek();
+    if (op?.kind === 'ident' && op.value === 'in') {
+      this.pos++;
+      const haystack = this.parseAdd();
+      return s => containsValue(haystack(s), left(s));
+    }
     if (op?.kind === 'op' && ['===', '!==', '==', '!=', '>=', '<=', '>', '<'].includes(op.value)) {
       this.pos++;
-      const right = this.parseAdd();
+      let right = this.parseAdd();
+      if (['===', '!==', '==', '!='].includes(op.value)) {
+        right = this.questStatusLiteral(leftStart, leftEnd, leftEnd + 1, this.pos) ?? right;
+        left = this.questStatusLiteral(leftEnd + 1, this.pos, leftStart, leftEnd) ?? left;
+      }
       switch (op.value) {
-        case '===': return left === right;
-        case '!==': return left !== right;
+        case '===': return s => left(s) === right(s);
+        case '!==': return s => left(s) !== right(s);
         // eslint-disable-next-line eqeqeq
-        case '==':  return (left as unknown) == (right as unknown);
+        case '==':  return s => (left(s) as unknown) == (right(s) as unknown);
         // eslint-disable-next-line eqeqeq
-        case '!=':  return (left as unknown) != (right as unknown);
-        case '>=':  return (left as string | number) >= (right as string | number);
-        case '<=':  return (left as string | number) <= (right as string | number);
-        case '>':   return (left as string | number) >  (right as string | number);
-        case '<':   return (left as string | number) <  (right as string | number);
+        case '!=':  return s => (left(s) as unknown) != (right(s) as unknown);
+        case '>=':  return s => (left(s) as string | number) >= (right(s) as string | number);
+        case '<=':  return s => (left(s) as string | number) <= (right(s) as string | number);
+        case '>':   return s => (left(s) as string | number) >  (right(s) as string | number);
+        case '<':   return s => (left(s) as string | number) <  (right(s) as string | number);
       }
     }
     return left;
   }
 
-  private parseAdd(): SafeValue {
+  private parseAdd(): Program {
     let left = this.parseMul();
-    while (this.peek()?.value === '+' || this.peek()?.value === '-') {
+    while (this.isOp('+') || this.isOp('-')) {
       const op = this.advance().value;
+      const prev = left;
       const right = this.parseMul();
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      left = op === '+' ? ((left as any) + (right as any)) as SafeValue : (left as number) - (right as number);
+      left = op === '+' ? s => ((prev(s) as any) + (right(s) as any)) as SafeValue : s => (prev(s) as number) - (right(s) as number);
     }
     return left;
   }
 
-  private parseMul(): SafeValue {
+  private parseMul(): Program {
     let left = this.parseUnary();
-    while (['*', '/', '%'].includes(this.peek()?.value ?? '')) {
+    while (this.isOp('*') || this.isOp('/') || this.isOp('%')) {
       const op = this.advance().value;
+      const prev = left;
       const right = this.parseUnary();
-      if (op === '*') left = (left as number) * (right as number);
-      else if (op === '/') left = (left as number) / (right as number);
-      else left = (left as number) % (right as number);
+      if (op === '*') left = s => (prev(s) as number) * (right(s) as number);
+      else if (op === '/') left = s => (prev(s) as number) / (right(s) as number);
+      else left = s => (prev(s) as number) % (right(s) as number);
     }
     return left;
   }
 
-  private parseUnary(): SafeValue {
-    if (this.peek()?.value === '-') { this.pos++; return -(this.parseUnary() as number); }
-    return this.parsePrimary();
+  private parseUnary(): Program {
+    if (this.isOp('-')) {
+      this.pos++;
+      const operand = this.parseUnary();
+      return s => -(operand(s) as number);
+    }
+    return this.parsePostfix(this.parsePrimary());
   }
 
-  private parsePrimary(): SafeValue {
+  /** `.name` and `[expr]` access chained onto a value */
+  private parsePostfix(target: Program): Program {
+    for (;;) {
+      const tok = this.peek();
+      const prev = target;
+      if (tok?.kind === 'dot') {
+        this.pos++;
+        const name = this.advance();
+        if (name.kind !== 'ident') throw this.error("Expected property name after '.'", name);
+        target = s => readMember(prev(s), name.value);
+      } else if (tok?.kind === 'lbracket') {
+        this.pos++;
+        const key = this.parseTernary();
+        this.expect('rbracket', "']'");
+        target = s => readMember(prev(s), key(s));
+      } else {
+        return target;
+      }
+    }
+  }
+
+  private parsePrimary(): Program {
     const tok = this.peek();
-    if (!tok) throw new Error('Unexpected end of expression');
+    if (!tok) throw this.error('Unexpected end of expression');
 
     if (tok.kind === 'lparen') {
       this.pos++;
-      const val = this.parseOr();
-      if (this.peek()?.kind !== 'rparen') throw new Error("Expected ')'");
-      this.pos++;
-      return val;
+      const inner = this.parseTernary();
+      this.expect('rparen', "')'");
+      return inner;
     }
 
-    if (tok.kind === 'number') { this.pos++; return parseFloat(tok.value); }
-    if (tok.kind === 'string') { this.pos++; return tok.value; }
+    if (tok.kind === 'number') { this.pos++; const n = parseFloat(tok.value); return () => n; }
+    if (tok.kind === 'string') { this.pos++; return () => tok.value; }
+    if (tok.kind === 'lbracket') return this.parseArray();
+    if (tok.kind === 'lbrace') return this.parseObject();
 
     if (tok.kind === 'ident') {
       this.pos++;
       switch (tok.value) {
-        case 'true':      return true;
-        case 'false':     return false;
-        case 'null':      return null;
-        case 'undefined': return undefined;
-        case 'timestamp': return this.timestamp;
-        case 'flags': {
-          if (this.peek()?.kind !== 'dot') throw new Error("Expected '.' after 'flags'");
-          this.pos++;
-          const name = this.advance();
-          if (name.kind !== 'ident') throw new Error("Expected identifier after 'flags.'");
-          return this.flags[name.value] as SafeValue;
+        case 'true':      return () => true;
+        case 'false':     return () => false;
+        case 'null':      return () => null;
+        case 'undefined': return () => undefined;
+        case 'timestamp': return s => s.timestamp;
+        case 'flags':
+        case 'state':
+        case 'customData': {
+          // The root object itself is only reachable through member access (continued by parsePostfix)
+          const next = this.peek();
+          if (next?.kind !== 'dot' && next?.kind !== 'lbracket') throw this.error(`Expected '.' after '${tok.value}'`);
+          const flagAt = tok.value === 'flags' ? this.pos : tok.value === 'state' && this.literalMemberAt(this.pos) === 'flags' ? this.pos + 2 : -1;
+          const flag = flagAt >= 0 ? this.literalMemberAt(flagAt) : undefined;
+          if (flag !== undefined) this.references.push({ kind: 'flag', name: flag, position: tok.pos });
+          if (tok.value === 'flags') return s => s.flags;
+          if (tok.value === 'state') return s => s.state;
+          return s => s.customData ?? {};
         }
-        case 'state': {
-          if (this.peek()?.kind !== 'dot') throw new Error("Expected '.' after 'state'");
-          this.pos++;
-          const name = this.advance();
-          if (name.kind !== 'ident') throw new Error("Expected identifier after 'state.'");
-          return (this.state as Record<string, unknown>)[name.value] as SafeValue;
+        case 'visits': {
+          const name = this.parseMemberName('visits');
+          this.references.push({ kind: 'visit', name, position: tok.pos });
+          return s => {
+            const counts = s.visits;
+            if (!counts) return 0;
+            const key = resolveNodeReference(name, s.state.currentNodeId, id => hasOwn(counts, id));
+            return hasOwn(counts, key) ? counts[key] : 0;
+          };
         }
-        case 'customData': {
-          if (this.peek()?.kind !== 'dot') throw new Error("Expected '.' after 'customData'");
+        case 'chosen': {
+          const name = this.parseMemberName('chosen');
+          return s => s.chosen && hasOwn(s.chosen, name) ? s.chosen[name] : 0;
+        }
+        case 'quest': {
+          const name = this.parseMemberName('quest');
+          const progress = (s: ConditionScope) => s.quests && hasOwn(s.quests, name) ? s.quests[name] : undefined;
+          if (this.peek()?.kind !== 'dot') return s => progress(s)?.status ?? 'inactive';
           this.pos++;
-          const name = this.advance();
-          if (name.kind !== 'ident') throw new Error("Expected identifier after 'customData.'");
-          return (this.customData ? this.customData[name.value] : undefined) as SafeValue;
+          const objective = this.advance();
+          if (objective.kind !== 'ident') throw this.error(`Expected objective after 'quest.${name}.'`, objective);
+          return s => progress(s)?.objectives?.includes(objective.value) ?? false;
+        }
+        case 'time': {
+          const name = this.parseMemberName('time');
+          return s => s.time && hasOwn(s.time, name) ? (s.time as unknown as Record<string, SafeValue>)[name] : undefined;
         }
         default:
-          throw new Error(`Unknown identifier '${tok.value}'`);
+          if (this.peek()?.kind === 'lparen') return this.parseCall(tok);
+          throw this.error(`Unknown identifier '${tok.value}'`, tok);
       }
     }
 
-    throw new Error(`Unexpected token '${tok.value}'`);
+    throw this.error(`Unexpected token '${tok.value}'`, tok);
+  }
+
+  /**
+   * String literal compared with `quest.<id>`: aliases such as "done" become the status they stand
+   * for (returned as the literal's replacement); literals that are no status could never match and are rejected
+   */
+  private questStatusLiteral(readStart: number, readEnd: number, literalStart: number, literalEnd: number): Program | undefined {
+    const [keyword, dot, name] = this.toks.slice(readStart, readEnd);
+    const isStatusRead = readEnd - readStart === 3 && keyword.kind === 'ident' && keyword.value === 'quest' && dot.kind === 'dot' && name.kind === 'ident';
+    const literal = this.toks[literalStart];
+    if (!isStatusRead || literalEnd - literalStart !== 1 || literal.kind !== 'string') return undefined;
+    if (hasOwn(QUEST_STATUS_ALIASES, literal.value)) {
+      const status = QUEST_STATUS_ALIASES[literal.value];
+      return () => status;
+    }
+    if (!(QUEST_STATUSES as readonly string[]).includes(literal.value)) {
+      throw this.error(`Unknown quest status '${literal.value}' for 'quest.${name.value}' (expected ${QUEST_STATUSES.join(', ')} or 'done')`, literal);
+    }
+    return undefined;
+  }
+
+  /** Name of a `.IDENT` or `["STRING"]` member access starting at token `at` (undefined when computed) */
+  private literalMemberAt(at: number): string | undefined {
+    const [open, name, close] = this.toks.slice(at, at + 3);
+    if (open?.kind === 'dot' && name?.kind === 'ident') return name.value;
+    if (open?.kind === 'lbracket' && name?.kind === 'string' && close?.kind === 'rbracket') return name.value;
+    return undefined;
+  }
+
+  /** `.IDENT` after a namespace keyword such as `visits` */
+  private parseMemberName(namespace: string): string {
+    if (this.peek()?.kind !== 'dot') throw this.error(`Expected '.' after '${namespace}'`);
+    this.pos++;
+    const name = this.advance();
+    if (name.kind !== 'ident') throw this.error(`Expected identifier after '${namespace}.'`, name);
+    return name.value;
+  }
+
+  private parseArray(): Program {
+    this.pos++; // consume '['
+    const items: Program[] = [];
+    if (this.peek()?.kind !== 'rbracket') {
+      items.push(this.parseTernary());
+      while (this.peek()?.kind === 'comma') {
+        this.pos++;
+        items.push(this.parseTernary());
+      }
+    }
+    this.expect('rbracket', "']' after array items");
+    return s => items.map(item => item(s));
+  }
+
+  private parseObject(): Program {
+    this.pos++; // consume '{'
+    const entries: Array<[string, Program]> = [];
+    if (this.peek()?.kind !== 'rbrace') {
+      do {
+        if (this.peek()?.kind === 'comma') this.pos++;
+        const key = this.advance();
+        if (key.kind !== 'ident' && key.kind !== 'string') throw this.error('Expected property name', key);
+        this.expect('colon', `':' after '${key.value}'`);
+        entries.push([key.value, this.parseTernary()]);
+      } while (this.peek()?.kind === 'comma');
+    }
+    this.expect('rbrace', "'}' after object properties");
+    return s => {
+      const result: Record<string, unknown> = {};
+      // defineProperty keeps every key (even "__proto__") an own data property
+      for (const [key, value] of entries) {
+        Object.defineProperty(result, key, { value: value(s), enumerable: true, writable: true, configurable: true });
+      }
+      return result;
+    };
+  }
+
+  /**
+   * Calls resolve at evaluation time (context functions first, then built-ins), so functions
+   * registered after compiling still work. Built-in signatures are checked here; others when first called.
+   */
+  private parseCall(nameTok: Token): Program {
+    const name = nameTok.value;
+    this.pos++; // consume '('
+    const firstArg = this.peek();
+    const args: Program[] = [];
+    const argTypes: Array<ConditionArgType | undefined> = [];
+    if (this.peek()?.kind !== 'rparen') {
+      this.parseArgument(args, argTypes);
+      while (this.peek()?.kind === 'comma') {
+        this.pos++;
+        this.parseArgument(args, argTypes);
+      }
+    }
+    this.expect('rparen', `')' after arguments to '${name}'`);
+    this.calls.push({ name, argTypes, position: nameTok.pos });
+    if (name === 'visited' && argTypes[0] === 'string' && firstArg) this.references.push({ kind: 'visit', name: firstArg.value, position: firstArg.pos });
+
+    const fail = (error: unknown) => new ConditionEvaluationError(error instanceof Error ? error.message : String(error), undefined, undefined, nameTok.pos);
+    const builtin = hasOwn(BUILTIN_CONDITION_FUNCTIONS, name) ? BUILTIN_CONDITION_FUNCTIONS[name] : undefined;
+    if (builtin) {
+      try { checkConditionCall(name, builtin, argTypes); } catch (error) { throw fail(error); }
+    }
+    const randomKey = this.randomKey;
+    let verified: ConditionFunctionDefinition | undefined;
+    return s => {
+      const entry = s.functions && hasOwn(s.functions, name) ? s.functions[name] : undefined;
+      if (entry === undefined) {
+        if (!builtin) throw fail(`Unknown function '${name}'`);
+        if (builtin === BUILTIN_CONDITION_FUNCTIONS.random && s.randomSeed !== undefined) {
+          const step = nextRandom(s.rngState ?? hashSeed(`${s.randomSeed}:${randomKey}`));
+          s.rngState = step.state;
+          return step.value;
+        }
+        return builtin.fn(...args.map(arg => arg(s))) as SafeValue;
+      }
+      if (typeof entry === 'function') return entry(...args.map(arg => arg(s))) as SafeValue;
+      if (entry !== verified) {
+        try { checkConditionCall(name, entry, argTypes); } catch (error) { throw fail(error); }
+        verified = entry;
+      }
+      return entry.fn(...args.map(arg => arg(s))) as SafeValue;
+    };
+  }
+
+  /** Parse one call argument, noting its type when it is a literal */
+  private parseArgument(args: Program[], argTypes: Array<ConditionArgType | undefined>): void {
+    const start = this.pos;
+    args.push(this.parseTernary());
+    const first = this.toks[start];
+    const span = this.pos - start;
+    if (span === 1 && first.kind === 'number') argTypes.push('number');
+    else if (span === 1 && first.kind === 'string') argTypes.push('string');
+    else if (span === 1 && (first.value === 'true' || first.value === 'false')) argTypes.push('boolean');
+    else if (span === 2 && first.kind === 'op' && first.value === '-' && this.toks[start + 1].kind === 'number') argTypes.push('number');
+    else argTypes.push(undefined);
   }
 }
 
@@ -303,21 +669,16 @@ class SafeParser {
 export class ConditionEvaluator {
   private customEvaluator?: CustomEvaluatorFunction;
 
-  // Cache tokenized expressions for better performance
-  private tokenCache: Map<string, Token[]> = new Map();
-  private maxCacheSize = 100;
+  // Compiled expressions by source text (FIFO-bounded; engines keep their story's conditions themselves)
+  private compiledCache: Map<string, CompiledCondition> = new Map();
+  private maxCacheSize = 256;
 
   // Expression canonicalization (sanitized+interned) LRU cache
   private expressionCache: Map<string, string> = new Map();
   private maxExpressionCacheSize = 256;
 
   // Lightweight evaluation context pool (optional)
-  private contextPool: Array<{
-    flags: Record<string, unknown>;
-    state: { currentNodeId: string; flags: Record<string, unknown>; history: string[] };
-    timestamp: number;
-    customData: Record<string, unknown> | undefined;
-  }> = [];
+  private contextPool: ConditionScope[] = [];
   private maxContextPoolSize = 64;
   private poolingEnabled = false;
 
@@ -340,86 +701,114 @@ export class ConditionEvaluator {
     this.customEvaluator = undefined;
   }
 
+  /** Whether a custom evaluator currently decides conditions */
+  hasCustomEvaluator(): boolean {
+    return this.customEvaluator !== undefined;
+  }
+
+  /**
+   * Parse an expression once for repeated evaluation
+   * @param functions - Function table to check calls against (calls to functions not in it are left
+   *   to evaluation time, so functions registered later still work)
+   * @throws ConditionEvaluationError for syntax errors (with `position`) and unsafe expressions
+   */
+  compile(expression: string, functions?: Record<string, ConditionFunctionEntry>): CompiledCondition {
+    let compiled = this.compiledCache.get(expression);
+    if (!compiled) {
+      if (!expression || expression.trim() === '') {
+        throw new ConditionEvaluationError('Empty or whitespace-only condition expression', expression);
+      }
+      const canonical = this.internAndNormalize(expression);
+      try {
+        const compiler = new ConditionCompiler(tokenizeExpression(canonical));
+        compiled = { expression, program: compiler.compile(), calls: compiler.calls, references: compiler.references };
+      } catch (error) {
+        throw wrapConditionError('Invalid expression syntax', expression, error);
+      }
+      if (this.compiledCache.size >= this.maxCacheSize) {
+        const firstKey = this.compiledCache.keys().next().value;
+        if (firstKey !== undefined) this.compiledCache.delete(firstKey);
+      }
+      this.compiledCache.set(expression, compiled);
+    }
+    if (functions) this.checkCalls(compiled, functions, false);
+    return compiled;
+  }
+
   /**
    * Evaluate a condition expression against the provided context
    */
-  evaluate(expression: string, context: ConditionContext): boolean {
+  evaluate(expression: string | CompiledCondition, context: ConditionContext): boolean {
+    const source = typeof expression === 'string' ? expression : expression.expression;
     try {
       // If custom evaluator is set, use it first
       if (this.customEvaluator) {
-        return this.customEvaluator(expression, context);
+        return this.customEvaluator(source, context);
       }
 
       // Use built-in evaluator
-      return this.evaluateBuiltIn(expression, context);
+      return !!this.run(expression, context);
     } catch (error) {
+      // Positioned errors already name the problem and the expression
+      if (error instanceof ConditionEvaluationError && error.position !== undefined) throw error;
       throw new ConditionEvaluationError(
-        `Failed to evaluate condition: ${expression}`,
-        expression,
+        `Failed to evaluate condition: ${source}`,
+        source,
         error instanceof Error ? error : new Error(String(error))
       );
     }
   }
 
   /**
-   * Built-in expression evaluator – uses the safe recursive-descent parser;
-   * no dynamic code generation (no eval / new Function).
+   * Evaluate an expression and return its raw value instead of a boolean.
+   * Used by text templating for `{flags.name}` substitutions; always uses the
+   * built-in parser (custom evaluators only decide truthiness).
    */
-  private evaluateBuiltIn(expression: string, context: ConditionContext): boolean {
-    // Handle empty expressions
-    if (!expression || expression.trim() === '') {
+  evaluateValue(expression: string | CompiledCondition, context: ConditionContext): unknown {
+    try {
+      return this.run(expression, context);
+    } catch (error) {
+      if (error instanceof ConditionEvaluationError) throw error;
+      const source = typeof expression === 'string' ? expression : expression.expression;
       throw new ConditionEvaluationError(
-        'Empty or whitespace-only condition expression',
-        expression
+        `Failed to evaluate expression: ${source}`,
+        source,
+        error instanceof Error ? error : new Error(String(error))
       );
     }
+  }
 
-    // Sanitize and prepare expression
-    const sanitizedExpression = this.internAndNormalize(expression);
-
-    // Handle simple literal cases without parsing overhead
-    if (sanitizedExpression === 'true') return true;
-    if (sanitizedExpression === 'false') return false;
-
+  /**
+   * Built-in expression evaluation – runs the compiled closures of the safe
+   * recursive-descent parser; no dynamic code generation (no eval / new Function).
+   */
+  private run(expression: string | CompiledCondition, context: ConditionContext): unknown {
+    const compiled = typeof expression === 'string' ? this.compile(expression) : expression;
     // Create evaluation context (uses pool when pooling is enabled)
-    const evalContext = this.createEvaluationContext(context);
-
+    const scope = this.createEvaluationContext(context);
     try {
-      const tokens = this.getTokens(sanitizedExpression, expression);
-      const parser = new SafeParser(tokens, evalContext);
-      const result = !!parser.evaluate();
-      this.releaseEvaluationContext(evalContext);
-      return result;
+      return compiled.program(scope);
     } catch (error) {
-      this.releaseEvaluationContext(evalContext);
-      throw new ConditionEvaluationError(
-        `Runtime error evaluating: ${expression}`,
-        expression,
-        error instanceof Error ? error : new Error(String(error))
-      );
+      throw wrapConditionError('Runtime error evaluating', compiled.expression, error);
+    } finally {
+      this.releaseEvaluationContext(scope);
     }
   }
 
-  /** Return cached token array for expression, tokenizing and caching if needed. */
-  private getTokens(sanitizedExpression: string, originalExpression: string): Token[] {
-    let tokens = this.tokenCache.get(sanitizedExpression);
-    if (!tokens) {
+  /** Check the calls of a compiled expression against a function table (and built-ins) */
+  private checkCalls(compiled: CompiledCondition, functions: Record<string, ConditionFunctionEntry>, strict: boolean): void {
+    for (const call of compiled.calls) {
+      let definition: ConditionFunctionDefinition | undefined;
+      if (hasOwn(functions, call.name)) definition = toConditionFunctionDefinition(functions[call.name]);
+      else if (hasOwn(BUILTIN_CONDITION_FUNCTIONS, call.name)) definition = BUILTIN_CONDITION_FUNCTIONS[call.name];
       try {
-        tokens = tokenizeExpression(sanitizedExpression);
+        if (definition) checkConditionCall(call.name, definition, call.argTypes);
+        else if (strict) throw new Error(`Unknown function '${call.name}'`);
       } catch (error) {
-        throw new ConditionEvaluationError(
-          `Invalid expression syntax: ${originalExpression}`,
-          originalExpression,
-          error instanceof Error ? error : new Error(String(error))
-        );
-      }
-      if (this.tokenCache.size >= this.maxCacheSize) {
-        const firstKey = this.tokenCache.keys().next().value;
-        if (firstKey) this.tokenCache.delete(firstKey);
+        const cause = new ConditionEvaluationError(error instanceof Error ? error.message : String(error), undefined, undefined, call.position);
+        throw wrapConditionError('Invalid function call', compiled.expression, cause);
       }
-      this.tokenCache.set(sanitizedExpression, tokens);
     }
-    return tokens;
   }
 
   /**
@@ -473,57 +862,68 @@ export class ConditionEvaluator {
   }
 
   /**
-   * Create a safe evaluation context from the condition context
+   * Create a safe evaluation context from the condition context. Expressions cannot
+   * assign, so state is read in place rather than copied.
    */
-  private createEvaluationContext(context: ConditionContext) {
+  private createEvaluationContext(context: ConditionContext): ConditionScope {
     if (!this.poolingEnabled || this.contextPool.length === 0) {
       return {
-        flags: { ...context.state.flags },
-        state: {
-          currentNodeId: context.state.currentNodeId,
-          flags: { ...context.state.flags },
-          history: [...context.state.history],
-        },
+        flags: context.state.flags,
+        state: context.state,
         timestamp: context.timestamp,
-        customData: context.customData ? { ...context.customData } : {},
+        customData: context.customData,
+        functions: context.functions,
+        randomSeed: context.randomSeed,
+        visits: context.state.visitCounts,
+        chosen: context.state.choiceCounts,
+        quests: context.state.quests,
+        time: context.gameTime,
       };
     }
     const ctx = this.contextPool.pop()!;
-    ctx.flags = { ...context.state.flags };
-    ctx.state.currentNodeId = context.state.currentNodeId;
-    ctx.state.flags = { ...context.state.flags };
-    ctx.state.history = [...context.state.history];
+    ctx.flags = context.state.flags;
+    ctx.state = context.state;
     ctx.timestamp = context.timestamp;
-    ctx.customData = context.customData ? { ...context.customData } : {};
+    ctx.customData = context.customData;
+    ctx.functions = context.functions;
+    ctx.randomSeed = context.randomSeed;
+    ctx.rngState = undefined;
+    ctx.visits = context.state.visitCounts;
+    ctx.chosen = context.state.choiceCounts;
+    ctx.quests = context.state.quests;
+    ctx.time = context.gameTime;
     return ctx;
   }
 
-  private releaseEvaluationContext(ctx: { flags: Record<string, unknown>; state: { currentNodeId: string; flags: Record<string, unknown>; history: string[] }; timestamp: number; customData: Record<string, unknown> | undefined; }) {
+  private releaseEvaluationContext(ctx: ConditionScope) {
     if (!this.poolingEnabled) return;
     if (this.contextPool.length < this.maxContextPoolSize) {
       ctx.customData = undefined; // drop potentially large data refs
+      ctx.functions = undefined;
+      ctx.randomSeed = undefined;
+      ctx.visits = undefined;
+      ctx.chosen = undefined;
+      ctx.quests = undefined;
+      ctx.time = undefined;
       this.contextPool.push(ctx);
     }
   }
 
   /**
    * Validate that an expression is syntactically correct without evaluating it
+   * @param functions - Functions the expression may call; when given, calls to any other
+   *   (non built-in) function are errors. Known functions are checked against their signatures.
+   * @returns `position` is the character offset of a syntax or call-signature error
    */
-  validateExpression(expression: string): { valid: boolean; error?: string } {
+  validateExpression(expression: string, functions?: Record<string, ConditionFunctionEntry>): { valid: boolean; error?: string; position?: number } {
     try {
-      const sanitized = this.sanitizeExpression(expression);
-      // Attempt to tokenize and parse with a dummy context to detect syntax errors
-      const tokens = tokenizeExpression(sanitized);
-      const dummyCtx = {
-        flags: {} as Record<string, unknown>,
-        state: { currentNodeId: '', flags: {} as Record<string, unknown>, history: [] as string[] },
-        timestamp: 0,
-        customData: undefined,
-      };
-      const parser = new SafeParser(tokens, dummyCtx);
-      parser.evaluate();
+      const compiled = this.compile(expression);
+      if (functions) this.checkCalls(compiled, functions, true);
       return { valid: true };
     } catch (error) {
+      if (error instanceof ConditionEvaluationError && error.position !== undefined) {
+        return { valid: false, error: `${error.cause?.message ?? error.message} at position ${error.position}`, position: error.position };
+      }
       return {
         valid: false,
         error: error instanceof Error ? error.message : String(error),
@@ -531,6 +931,18 @@ export class ConditionEvaluator {
     }
   }
 
+  /**
+   * Story data an expression reads by name (see ConditionReference)
+   * @returns An empty list when the expression does not compile
+   */
+  getReferences(expression: string): ConditionReference[] {
+    try {
+      return [...this.compile(expression).references];
+    } catch {
+      return [];
+    }
+  }
+
   /**
    * Get list of flag names referenced in an expression
    */
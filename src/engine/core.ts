@@ -14,15 +14,20 @@ import {
   ChoiceValidator, 
   createChoiceValidator, 
   createValidationContext,
-  ValidationResult
+  findFailedRules,
+  ValidationResult,
+  type ValidationContext,
+  type ChoiceState
 } from './validation';
 import { 
   QNCENavigationError, 
-  ChoiceValidationError
+  ChoiceValidationError,
+  StateError,
+  StoryDataError
 } from './errors';
 
 // Re-export error classes for backward compatibility
-export { QNCENavigationError, ChoiceValidationError } from './errors';
+export { QNCENavigationError, ChoiceValidationError, InventoryError, QuestError, PluginError, FlagValidationError, StateError } from './errors';
 
 // State persistence imports - Sprint 3.3
 import { 
@@ -44,20 +49,47 @@ import {
   conditionEvaluator, 
   ConditionEvaluationError, 
   ConditionContext, 
+  CompiledCondition,
   CustomEvaluatorFunction 
 } from './condition';
-import { ErrorFactory, serializeStructuredError } from './error-factory';
+import { ErrorFactory, serializeStructuredError, type StructuredQNCEError } from './error-factory';
 import { globalDebugLogger } from '../utils/debug-logger';
 import { globalHotProfiler } from '../utils/hot-profiler';
 import { internShallowRecord, internString } from '../utils/intern';
+import { TextTemplateRenderer } from './text';
+import { applyFlagEffects } from './effects';
+import { InventoryModel, type ItemDefinition, type InventoryConfig } from './inventory';
+import { GameCalendar, isHourBetween, toGameMinutes, type GameClockConfig, type GameDuration, type GameTime } from './game-clock';
+import { PluginRegistry, type QNCEPlugin } from './plugins';
+import { BUILTIN_CONDITION_FUNCTIONS, assertConditionFunctionName, type ConditionFunctionEntry } from './condition-functions';
+import { QuestModel, type QuestDefinition, type QuestEffect, type QuestProgress, type QuestStatus, type QuestChange, type QuestJournalEntry } from './quests';
+import { FlagSchemaModel, type FlagDefinition, type FlagStrictness } from './flag-schema';
+import { LocaleTable, lockedMessageKey } from './locale';
+import { MetaProgressStore, collectUnlocks, type UnlockDefinition, type UnlockKind, type UnlockStatus } from './meta-progress';
+import { CharacterRegistry, type CharacterDefinition, type DialogueLine, type PresentedDialogueLine } from './dialogue';
+import { composeStoryModules, getModuleNamespace, isStoryManifest, resolveNodeReference, type StoryModuleRef, type StoryModuleResolver } from './modules';
+import { hashSeed, nextRandom, type RandomSource } from './random';
+import { systemClock, type EngineClock } from './clock';
+import { TypedEventEmitter, type QNCEEngineEvents, type EngineEventListener } from './events';
 
 /** Engine hook context */
 /** @public */
 export interface EngineHookContext { engine: QNCEEngine; node: NarrativeNode; choice?: Choice }
 /** @public */
-export type PreChoiceHook = (ctx: EngineHookContext) => void | boolean; // return false -> cancel
+export type PreChoiceHook = (ctx: EngineHookContext) => void | boolean | Promise<void | boolean>; // return false -> cancel (promises are awaited by selectChoiceAsync only)
 /** @public */
 export type PostChoiceHook = (ctx: EngineHookContext) => void;
+/** Runs when a node timer lapses, with the default choice about to be taken */
+/** @public */
+export type TimeoutHook = (ctx: EngineHookContext) => void | boolean; // return false -> don't auto-select
+
+/** Outcome of selectChoiceAsync (failed commits reject instead, after rolling back) */
+/** @public */
+export interface ChoiceTransactionResult {
+  committed: boolean;
+  /** Why the choice did not commit: a hook returned false, timed out or threw, or the node changed while hooks ran */
+  reason?: 'cancelled' | 'timeout' | 'error' | 'stale';
+}
 
 // Sprint 3.5: Autosave and Undo/Redo imports
 import {
@@ -71,8 +103,16 @@ import {
 /** Narrative choice presented to user */
 /** @public */
 export interface Choice {
+  /** Stable id used for selection counts (`chosen.<id>`); defaults to `<nodeId>#<index>` */
+  id?: string;
   text: string;
+  /** Key into StoryData.locales; `text` is shown when no locale in the fallback chain has it */
+  textKey?: string;
+  /** Destination node, or RETURN_TARGET (`'@return'`) to resume at the innermost caller's continuation */
   nextNodeId: string;
+  /** Call into nextNodeId as a tunnel; a later `'@return'` resumes at this node */
+  returnTo?: string;
+  /** Literal values or operator objects, e.g. `{ gold: { $inc: -10, $min: 0 } }` (see FlagOperation) */
   flagEffects?: Record<string, unknown>;
   
   // Sprint 3.2: Validation properties
@@ -84,10 +124,62 @@ export interface Choice {
     availableBefore?: Date;
   };
   inventoryRequirements?: Record<string, number>;
+  /** Remove the items listed in inventoryRequirements when this choice is selected */
+  consumeInventory?: boolean;
+  /** Signed item quantity changes applied on selection (positive adds, negative removes) */
+  inventoryEffects?: Record<string, number>;
+  /** Quest updates applied on selection, by quest id (a status or objectives to complete) */
+  questEffects?: Record<string, QuestEffect>;
+  /** Game time that passes when this choice is selected (minutes, or days/hours/minutes) */
+  advanceTime?: GameDuration;
   enabled?: boolean;
+  /** Hide this choice once it has been selected */
+  once?: boolean;
+  /** Keep offering this choice after selection, overriding `StoryData.defaultChoiceMode: 'once'` */
+  sticky?: boolean;
   
   // Sprint 3.4: Conditional choice display
   condition?: string; // Expression string for choice visibility (e.g., "flags.curiosity >= 3 && !flags.seenEnding")
+  /** Explanation shown by getChoiceStates() while the choice is locked (e.g. "Requires 3 gold") */
+  lockedMessage?: string;
+}
+
+/** Effects applied when a node is entered or exited */
+/** @public */
+export interface NodeEffects {
+  flagEffects?: Record<string, unknown>;
+}
+
+/** Guarded automatic transition out of a redirect (router) node */
+/** @public */
+export interface NodeRedirect {
+  /** Condition expression (see condition.ts); omitted = always taken */
+  condition?: string;
+  /** Destination node, or RETURN_TARGET to leave the current tunnel */
+  nextNodeId: string;
+}
+
+/** Paragraph of a node's body, shown only while its condition passes */
+/** @public */
+export interface ContentBlock {
+  text: string;
+  /** Key into StoryData.locales (see NarrativeNode.textKey) */
+  textKey?: string;
+  /** Condition expression (see condition.ts); omitted = always shown */
+  condition?: string;
+}
+
+/** Countdown after which a node's default choice is taken automatically */
+/** @public */
+export interface NodeTimer {
+  /** Time allowed to choose, in milliseconds (measured with the engine clock) */
+  durationMs: number;
+  /**
+   * Choice taken on timeout: index into the node's choices or a choice id.
+   * If that choice is not available when the timer fires (failed condition or validation, spent once-only choice),
+   * a navigation error is reported and the player stays on the node.
+   */
+  defaultChoice: number | string;
 }
 
 /** Story node containing narrative text and available choices */
@@ -95,7 +187,33 @@ export interface Choice {
 export interface NarrativeNode {
   id: string;
   text: string;
+  /** Key into StoryData.locales; `text` is shown when no locale in the fallback chain has it */
+  textKey?: string;
   choices: Choice[];
+  /** Applied after arriving at this node (after the choice's own flagEffects) */
+  onEnter?: NodeEffects;
+  /** Applied when leaving this node (before the choice's own flagEffects) */
+  onExit?: NodeEffects;
+  /**
+   * Ordered redirects followed automatically on arrival; the first passing entry wins.
+   * When none pass the node is presented normally.
+   */
+  redirects?: NodeRedirect[];
+  /** Start a countdown on arrival; when it lapses the default choice is selected */
+  timer?: NodeTimer;
+  /** Structured dialogue (speaker, emotion, line); `text` remains the plain-text rendering */
+  dialogue?: DialogueLine[];
+  /**
+   * Conditional body paragraphs. When present the node is presented with the passing blocks
+   * only, and `text` is replaced by their texts joined with blank lines.
+   */
+  blocks?: ContentBlock[];
+  /** Arriving here unlocks this ending in the meta progress (kept across playthroughs) */
+  ending?: UnlockDefinition;
+  /** Arriving here unlocks this achievement in the meta progress */
+  achievement?: UnlockDefinition;
+  /** Game time that passes on arrival here (minutes, or days/hours/minutes) */
+  duration?: GameDuration;
   // Optional metadata bag for adapters/importers
   meta?: {
     tags?: string[];
@@ -110,6 +228,20 @@ export interface QNCEState {
   currentNodeId: string;
   flags: Record<string, unknown>;
   history: string[];
+  /** Item quantities by id (present once the story or player uses the inventory) */
+  inventory?: Record<string, number>;
+  /** Quest progress by quest id (`quest.<id>` in conditions; present once a quest is updated) */
+  quests?: Record<string, QuestProgress>;
+  /** Game clock minutes (`time.<field>` in conditions; present with StoryData.gameClock or once time passes) */
+  gameTime?: number;
+  /** Seeded RNG position (present after the first engine.random() draw) */
+  rngState?: number;
+  /** Times each node has been entered, by node id (`visits.<nodeId>` in conditions) */
+  visitCounts?: Record<string, number>;
+  /** Times each choice has been selected, by choice id (`chosen.<choiceId>` in conditions) */
+  choiceCounts?: Record<string, number>;
+  /** Continuation node ids of open tunnel calls, innermost last (present while inside a tunnel) */
+  callStack?: string[];
 }
 
 /** Flow event captured during narrative traversal */
@@ -127,10 +259,54 @@ export interface FlowEvent {
 export interface StoryData {
   nodes: NarrativeNode[];
   initialNodeId: string;
+  /** Opt in to `{flags.name}` substitutions and `{if ...}` spans in node text */
+  templating?: boolean;
+  /** Item definitions; when present only declared items may enter the inventory */
+  items?: ItemDefinition[];
+  /** Inventory capacity and starting items */
+  inventory?: InventoryConfig;
+  /** Quests with their objectives and journal text; when present only declared quests may be updated */
+  quests?: QuestDefinition[];
+  /** In-fiction clock: start time, weekdays, day periods, and whether timeRequirements read it */
+  gameClock?: GameClockConfig;
+  /** Whether choices disappear after selection unless marked otherwise (default: 'sticky') */
+  defaultChoiceMode?: 'once' | 'sticky';
+  /** Declared flags by name; when present writes are checked and defaults seed fresh playthroughs */
+  flagSchema?: Record<string, FlagDefinition>;
+  /** String tables by locale (key -> translated text) for node and choice `textKey`s */
+  locales?: Record<string, Record<string, string>>;
+  /** Locale the inline `text` is written in; the engine's starting locale and last fallback */
+  defaultLocale?: string;
+  /** Extra fallback locales by locale, tried after the locale's base language (e.g. `{ 'pt-BR': ['es'] }`) */
+  localeFallbacks?: Record<string, string[]>;
+  /** Hashes of the source text each translation in `locales` was made from, by locale (written by qnce-translate) */
+  translationHashes?: Record<string, Record<string, string>>;
+  /** Characters that dialogue lines name as speakers */
+  characters?: CharacterDefinition[];
+  /** Modules of a composed manifest that are not loaded yet, by namespace (see engine.loadModule) */
+  modules?: Record<string, StoryModuleRef>;
 }
 
 // Demo narrative data moved to demo-story.ts
 
+/** Redirects followed in a single transition before it is treated as a loop */
+const MAX_REDIRECT_HOPS = 32;
+
+/** Nested tunnel calls allowed before a call is treated as runaway recursion */
+const MAX_CALL_DEPTH = 64;
+
+/** How long selectChoiceAsync waits for each pre-choice hook before cancelling the choice */
+const DEFAULT_HOOK_TIMEOUT_MS = 10000;
+
+/** Marks a pre-choice hook that did not settle before its timeout */
+const HOOK_TIMED_OUT = Symbol('hookTimedOut');
+
+/**
+ * Special nextNodeId that returns from a tunnel to the caller's `returnTo` node
+ * @public
+ */
+export const RETURN_TARGET = '@return';
+
 function findNode(nodes: NarrativeNode[], id: string): NarrativeNode {
   const node = nodes.find(n => n.id === id);
   if (!node) throw new Error(`Node not found: ${id}`);
@@ -195,7 +371,7 @@ export class QNCEEngine {
     maxRedoEntries: 20,
     trackFlagChanges: true,
     trackChoiceText: true,
-    trackActions: ['choice', 'flag-change', 'state-load']
+    trackActions: ['choice', 'flag-change', 'state-load', 'inventory-change', 'quest-change', 'time-change']
   };
   private lastAutosaveTime = 0;
   private isUndoRedoOperation = false;
@@ -215,10 +391,78 @@ export class QNCEEngine {
   // Hooks
   private preChoiceHooks: { h: PreChoiceHook; p: number; o: number }[] = [];
   private postChoiceHooks: { h: PostChoiceHook; p: number; o: number }[] = [];
+  private timeoutHooks: { h: TimeoutHook; p: number; o: number }[] = [];
+  // Plugins registered with use(), in callback order; a throwing callback is logged, never rethrown
+  private readonly plugins = new PluginRegistry(this, (error, plugin, callback) => {
+    this.reportError(ErrorFactory.hook('plugin error', {
+      operation: `plugin:${plugin}.${callback}`,
+      nodeId: this.state.currentNodeId,
+      cause: error
+    }));
+  });
+  // Engine events (on/off/once); a throwing listener is logged, never rethrown
+  private readonly events = new TypedEventEmitter<QNCEEngineEvents>((error, event) => {
+    const struct = ErrorFactory.hook('event listener error', {
+      operation: `event:${String(event)}`,
+      nodeId: this.state.currentNodeId,
+      cause: error
+    });
+    this.logger.warn('[QNCE] ' + serializeStructuredError(struct));
+  });
+  // Time source for node timers (options.clock; wall clock by default)
+  private clock: EngineClock = systemClock;
+  // Countdown for the current node visit (key = node id + history position)
+  private activeTimer?: { key: string; deadline: number; handle?: unknown };
+  // Side effects held back until the selectChoiceAsync transaction in progress commits
+  private choiceTransaction?: { deferred: Array<() => void> };
   private hookCounter = 0;
   private logger: Logger = createLogger({ level: 'warn' });
   private engineOptions?: { telemetry?: import('../telemetry/types').Telemetry; env?: 'dev' | 'test' | 'prod'; appVersion?: string; sessionId?: string; logger?: Logger; suppressTelemetryWarnings?: boolean; };
   private minimalTelemetry = false;
+  // Text templating (opt-in via StoryData.templating)
+  private textRenderer = new TextTemplateRenderer();
+  // Inventory rules (StoryData.items / StoryData.inventory)
+  private inventoryModel: InventoryModel;
+  // Quest rules (StoryData.quests)
+  private questModel: QuestModel;
+  // Game clock calendar (StoryData.gameClock)
+  private gameCalendar: GameCalendar;
+  // Declared flag rules (StoryData.flagSchema) and how violations are handled (options.flagStrictness)
+  private flagSchema: FlagSchemaModel;
+  private flagStrictness: FlagStrictness = 'warn';
+  // Locale string tables (StoryData.locales) and the active locale (presentation only, not state)
+  private localeTable: LocaleTable;
+  private locale?: string;
+  // Dialogue speakers (StoryData.characters)
+  private characters: CharacterRegistry;
+  // Endings and achievements unlocked across playthroughs (not part of QNCEState)
+  private metaProgress: MetaProgressStore;
+  // Loads lazy story modules (StoryData.modules) on demand
+  private moduleResolver?: StoryModuleResolver;
+  private moduleLoads = new Map<string, Promise<void>>();
+  // Lazy module namespaces (loaded or not); their nodes are left out of the story hash
+  private lazyModules: Set<string>;
+  // Seed the RNG starts from when state has no rngState yet (fresh playthrough, reset)
+  private rngSeed: number;
+  private readonly randomSource: RandomSource = () => this.random();
+  // Choice, redirect and content block conditions compiled at story load (by expression text)
+  private compiledConditions = new Map<string, CompiledCondition>();
+  private conditionErrors: Array<{ nodeId: string; expression: string; error: ConditionEvaluationError }> = [];
+  // Expressions whose compile failure was already logged at load; evaluating them again only emits the error event
+  private reportedConditionFailures = new Set<string>();
+  // Engine-backed functions available to condition expressions and templates
+  private readonly conditionFunctions: Record<string, ConditionFunctionEntry> = {
+    visited: { params: ['string'], fn: nodeId => {
+      const visits = this.state.visitCounts;
+      if (!visits) return false;
+      const has = (id: string) => Object.prototype.hasOwnProperty.call(visits, id);
+      const key = resolveNodeReference(String(nodeId), this.state.currentNodeId, has);
+      return has(key) && visits[key] > 0;
+    } },
+    has: { params: ['string', 'number'], minArgs: 1, fn: (itemId, quantity = 1) => this.hasItem(String(itemId), Number(quantity)) },
+    count: { params: ['string'], fn: itemId => this.getItemCount(String(itemId)) },
+    hourBetween: { params: ['number', 'number'], fn: (from, to) => isHourBetween(this.getGameTime().hour, Number(from), Number(to)) }
+  };
 
   public get flags(): Record<string, unknown> {
     return this.state.flags;
@@ -244,7 +488,7 @@ export class QNCEEngine {
     initialState?: Partial<QNCEState>, 
   performanceMode = false,
     threadPoolConfig?: Partial<ThreadPoolConfig>,
-  options?: { telemetry?: import('../telemetry/types').Telemetry; env?: 'dev' | 'test' | 'prod'; appVersion?: string; sessionId?: string; logger?: Logger; suppressTelemetryWarnings?: boolean; minimalTelemetry?: boolean }
+  options?: { telemetry?: import('../telemetry/types').Telemetry; env?: 'dev' | 'test' | 'prod'; appVersion?: string; sessionId?: string; logger?: Logger; suppressTelemetryWarnings?: boolean; minimalTelemetry?: boolean; seed?: number | string; clock?: EngineClock; flagStrictness?: FlagStrictness; locale?: string; moduleResolver?: StoryModuleResolver; metaProgress?: MetaProgressStore }
   ) {
     this.storyData = storyData;
     this.performanceMode = performanceMode;
@@ -262,37 +506,110 @@ export class QNCEEngine {
       getThreadPool(threadPoolConfig);
     }
     
+    this.flagSchema = new FlagSchemaModel(storyData.flagSchema);
+    this.localeTable = new LocaleTable(storyData);
+    this.characters = new CharacterRegistry(storyData.characters);
+    this.metaProgress = options?.metaProgress ?? new MetaProgressStore();
+    this.locale = options?.locale ?? storyData.defaultLocale;
+    this.moduleResolver = options?.moduleResolver;
+    this.lazyModules = new Set(Object.keys(storyData.modules || {}));
+    if (options?.flagStrictness) this.flagStrictness = options.flagStrictness;
     this.state = {
       currentNodeId: initialState?.currentNodeId || storyData.initialNodeId,
-      flags: initialState?.flags || {},
+      flags: this.withFlagDefaults(initialState?.flags || {}),
       history: initialState?.history || [storyData.initialNodeId],
     };
+    this.inventoryModel = new InventoryModel(storyData.items, storyData.inventory);
+    this.questModel = new QuestModel(storyData.quests);
+    this.gameCalendar = new GameCalendar(storyData.gameClock, !!storyData.gameClock);
+    if (options?.clock) this.clock = options.clock;
+    this.rngSeed = options?.seed !== undefined ? hashSeed(options.seed) : (Math.random() * 4294967296) >>> 0;
+    if (initialState?.rngState !== undefined) this.state.rngState = initialState.rngState;
+    const initialInventory = initialState?.inventory ?? storyData.inventory?.initial;
+    if (initialInventory) this.state.inventory = { ...initialInventory };
+    if (initialState?.quests) this.state.quests = this.deepCopy(initialState.quests);
+    const initialGameTime = initialState?.gameTime ?? (storyData.gameClock ? this.gameCalendar.start : undefined);
+    if (initialGameTime !== undefined) this.state.gameTime = initialGameTime;
+    if (initialState?.visitCounts) this.state.visitCounts = { ...initialState.visitCounts };
+    if (initialState?.choiceCounts) this.state.choiceCounts = { ...initialState.choiceCounts };
+    if (initialState?.callStack?.length) this.state.callStack = [...initialState.callStack];
 
     // Telemetry wiring
-  this.telemetry = options?.telemetry;
   if (options?.logger) this.logger = options.logger;
   this.engineOptions = options;
     this.minimalTelemetry = options?.minimalTelemetry ?? false;
-    if (this.telemetry) {
-      const sessionId = options?.sessionId || `${Date.now().toString(36)}-${Math.random().toString(36).slice(2,8)}`;
-      this.defaultTelemetryCtx = {
-        sessionId,
-        storyId: undefined,
-        appVersion: options?.appVersion,
-        engineVersion: PERSISTENCE_VERSION,
-        env: options?.env
-      };
-      try {
-        this.telemetry.emit({ type: 'session.start', payload: { initialNodeId: this.state.currentNodeId }, ts: Date.now(), ctx: this.defaultTelemetryCtx });
-      } catch {}
+    if (options?.telemetry) this.attachTelemetry(options.telemetry, options);
+    this.compileConditions();
+
+    // Fresh playthroughs run the opening node's entry effects (restored states already include them)
+    if (!initialState?.history) {
+      this.recordVisit(this.state.currentNodeId);
+      this.applyNodeEffects(this.state.currentNodeId, 'onEnter');
+      this.followRedirects();
+      // Endings and achievements on the opening node (or reached by its redirects) count as arrived at
+      this.state.history.forEach(nodeId => this.recordUnlocks(nodeId));
     }
+    this.syncNodeTimer();
+  }
+
+  /**
+   * Send engine telemetry to a sink, starting a session (replaces any attached sink)
+   * @param options.sessionId - Session id (generated when omitted)
+   */
+  attachTelemetry(telemetry: import('../telemetry/types').Telemetry, options?: { sessionId?: string; appVersion?: string; env?: 'dev' | 'test' | 'prod' }): void {
+    this.telemetry = telemetry;
+    const sessionId = options?.sessionId || `${Date.now().toString(36)}-${Math.random().toString(36).slice(2,8)}`;
+    this.defaultTelemetryCtx = {
+      sessionId,
+      storyId: undefined,
+      appVersion: options?.appVersion,
+      engineVersion: PERSISTENCE_VERSION,
+      env: options?.env
+    };
+    try {
+      this.telemetry.emit({ type: 'session.start', payload: { initialNodeId: this.state.currentNodeId }, ts: Date.now(), ctx: this.defaultTelemetryCtx });
+    } catch {}
+  }
+
+  /** Stop sending telemetry (the sink itself is left open) */
+  detachTelemetry(): void {
+    this.telemetry = undefined;
   }
 
   /**
-   * Dispose engine resources (telemetry, performance reporter, background thread pool in perf mode)
+   * Register a plugin: runs its install() and onStoryLoad(), then its lifecycle callbacks
+   * in priority order alongside the other plugins
+   * @throws PluginError when a plugin with the same name is registered
+   * @returns The engine, for chaining
+   */
+  use(plugin: QNCEPlugin): this {
+    this.plugins.add(plugin, this.storyData);
+    return this;
+  }
+
+  /** Dispose and unregister a plugin; resolves false when none has the name */
+  removePlugin(name: string): Promise<boolean> {
+    return this.plugins.remove(name);
+  }
+
+  /** Registered plugin by name */
+  getPlugin(name: string): QNCEPlugin | undefined {
+    return this.plugins.get(name);
+  }
+
+  /** Registered plugins in callback order */
+  getPlugins(): QNCEPlugin[] {
+    return this.plugins.list();
+  }
+
+  /**
+   * Dispose engine resources (plugins, telemetry, performance reporter, background thread pool in perf mode)
    * @public
    */
   public async dispose(): Promise<void> {
+    await this.plugins.disposeAll();
+    this.clearNodeTimer();
+    this.events.removeAllListeners();
     try { if (this.telemetry) await this.telemetry.dispose(); } catch {}
     try { getPerfReporter().dispose?.(); } catch {}
     if (this.performanceMode) {
@@ -415,6 +732,7 @@ export class QNCEEngine {
     // Validate node exists
     const targetNode = this.storyData.nodes.find(n => n.id === nodeId);
     if (!targetNode) {
+      this.assertModuleLoaded(nodeId);
       throw new QNCENavigationError(`Node not found: ${nodeId}`);
     }
 
@@ -428,23 +746,47 @@ export class QNCEEngine {
       : null;
 
     const fromNodeId = this.state.currentNodeId;
+    const preChangeState = this.deepCopy(this.state);
+    const previousFlags = { ...this.state.flags };
     
-    // Update state
+    // Update state (node exit/entry effects wrap the move)
+    const exitFlags = this.applyNodeEffects(fromNodeId, 'onExit');
     this.state.currentNodeId = nodeId;
     this.state.history.push(nodeId);
+    this.recordVisit(nodeId);
+    const enterFlags = this.applyNodeEffects(nodeId, 'onEnter');
     
     // Record navigation event for analytics
     if (this.performanceMode) {
-      const flowEvent = this.createFlowEvent(fromNodeId, nodeId, { navigationType: 'direct' });
+      const flowEvent = this.createFlowEvent(fromNodeId, nodeId, { navigationType: 'direct', ...this.nodeEffectsMetadata(exitFlags, enterFlags) });
       this.recordFlowEvent(flowEvent);
       poolManager.returnFlow(flowEvent);
     }
+
+    const redirect = this.followRedirectsOrRollback(preChangeState);
+    exitFlags.push(...redirect.exitFlags);
+    enterFlags.push(...redirect.enterFlags);
+
+    // Plain moves are undoable only with 'navigation' tracked; moves that ran node effects or redirects always are
+    const ranEffects = exitFlags.length > 0 || enterFlags.length > 0 || redirect.via.length > 0;
+    if (this.undoRedoConfig.enabled && !this.isUndoRedoOperation &&
+        (ranEffects || this.undoRedoConfig.trackActions.includes('navigation'))) {
+      const flagsChanged = Array.from(new Set([...exitFlags, ...enterFlags]));
+      this.pushToUndoStack(preChangeState, 'navigation', {
+        nodeId: fromNodeId,
+        flagsChanged: flagsChanged.length ? flagsChanged : undefined,
+        ...this.nodeEffectsMetadata(exitFlags, enterFlags),
+        ...(redirect.via.length ? { redirectedVia: redirect.via } : {})
+      });
+    }
+    this.syncNodeTimer();
+    this.emitTransitionEvents(fromNodeId, this.state.history.slice(preChangeState.history.length), previousFlags, preChangeState.gameTime ?? this.gameCalendar.start);
     
     // End profiling span
     if (navigationSpanId && this.enableProfiling) {
       getPerfReporter().endSpan(navigationSpanId, {
         success: true,
-        targetNodeId: nodeId
+        targetNodeId: this.state.currentNodeId
       });
     }
   }
@@ -460,13 +802,13 @@ export class QNCEEngine {
     if (this.enableProfiling) {
       const found = findNode(this.storyData.nodes, this.state.currentNodeId);
       perf.cacheHit(cacheKey, { nodeId: this.state.currentNodeId });
-      return found;
+      return this.presentNode(found);
     }
     
     if (this.performanceMode) {
       // Use pooled node for enhanced node data
       const pooledNode = poolManager.borrowNode();
-      const coreNode = findNode(this.storyData.nodes, this.state.currentNodeId);
+      const coreNode = this.presentNode(findNode(this.storyData.nodes, this.state.currentNodeId));
       pooledNode.initialize(coreNode.id, coreNode.text, coreNode.choices);
       
       // Return the pooled node (caller should return it when done)
@@ -479,7 +821,460 @@ export class QNCEEngine {
     
   const node = findNode(this.storyData.nodes, this.state.currentNodeId);
   try { this.telemetry?.emit({ type: 'node.enter', payload: this.minimalTelemetry ? node.id : { nodeId: node.id }, ts: Date.now(), ctx: this.defaultTelemetryCtx! }); } catch {}
-  return node;
+  return this.presentNode(node);
+  }
+
+  /**
+   * Produce the player-facing view of a story node.
+   * Returns the stored node untouched unless it is localized, has content blocks or the
+   * story opts into templating.
+   */
+  private presentNode(node: NarrativeNode): NarrativeNode {
+    const localized = this.localizeNode(node);
+    if (!this.storyData.templating && !localized.blocks) return localized;
+    const context = this.createConditionContext();
+    const onError = this.templateErrorHandler(node.id);
+    const render = (cacheKey: string, text: string) =>
+      this.storyData.templating ? this.textRenderer.renderNode(cacheKey, text, context, onError) : text;
+    const dialogue = localized.dialogue?.map((line, index) => {
+      const lineText = render(`${node.id}@line${index}`, line.text);
+      return lineText === line.text ? line : { ...line, text: lineText };
+    });
+    const dialogueChanged = !!dialogue && dialogue.some((line, index) => line !== localized.dialogue![index]);
+    if (localized.blocks) {
+      const blocks = localized.blocks.flatMap((block, index) => {
+        if (block.condition && !this.isBlockShown(node.id, block.condition, context)) return [];
+        const blockText = render(`${node.id}@block${index}`, block.text);
+        return [blockText === block.text ? block : { ...block, text: blockText }];
+      });
+      return { ...localized, text: blocks.map(block => block.text).join('\n\n'), blocks, ...(dialogueChanged ? { dialogue } : {}) };
+    }
+    const text = render(node.id, localized.text);
+    if (text === localized.text && !dialogueChanged) return localized;
+    return { ...localized, text, ...(dialogueChanged ? { dialogue } : {}) };
+  }
+
+  /** Evaluate a content block condition (failed conditions are logged and hide the block) */
+  private isBlockShown(nodeId: string, condition: string, context: ConditionContext): boolean {
+    try {
+      return conditionEvaluator.evaluate(this.compiledCondition(condition), context);
+    } catch (error) {
+      const struct = ErrorFactory.condition('Content block condition evaluation failed', {
+        conditionExpression: condition,
+        nodeId,
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        storyId: (this.storyData as any)?.id,
+        cause: error
+      });
+      this.reportError(struct, this.reportedConditionFailures.has(condition));
+      return false;
+    }
+  }
+
+  /** Node with its own and its choices' textKeys resolved for the active locale (the node itself when nothing changes) */
+  private localizeNode(node: NarrativeNode): NarrativeNode {
+    if (!this.storyData.locales) return node;
+    const text = this.localizeText(node.textKey, node.text);
+    let choicesChanged = false;
+    const choices = node.choices.map(choice => {
+      const choiceText = this.localizeText(choice.textKey, choice.text);
+      if (choiceText === choice.text) return choice;
+      choicesChanged = true;
+      return { ...choice, text: choiceText };
+    });
+    let dialogueChanged = false;
+    const dialogue = node.dialogue?.map(line => {
+      const lineText = this.localizeText(line.textKey, line.text);
+      if (lineText === line.text) return line;
+      dialogueChanged = true;
+      return { ...line, text: lineText };
+    });
+    let blocksChanged = false;
+    const blocks = node.blocks?.map(block => {
+      const blockText = this.localizeText(block.textKey, block.text);
+      if (blockText === block.text) return block;
+      blocksChanged = true;
+      return { ...block, text: blockText };
+    });
+    if (text === node.text && !choicesChanged && !dialogueChanged && !blocksChanged) return node;
+    return {
+      ...node,
+      text,
+      choices: choicesChanged ? choices : node.choices,
+      ...(dialogueChanged ? { dialogue } : {}),
+      ...(blocksChanged ? { blocks } : {})
+    };
+  }
+
+  private localizeText(textKey: string | undefined, text: string): string {
+    if (textKey === undefined) return text;
+    return this.localeTable.resolve(textKey, this.locale) ?? text;
+  }
+
+  /**
+   * Switch the locale node and choice text is presented in. Engine state is untouched;
+   * listeners of 'localeChanged' (e.g. useQNCE) re-render.
+   */
+  setLocale(locale: string): void {
+    const previousLocale = this.locale;
+    if (locale === previousLocale) return;
+    this.locale = locale;
+    this.events.emit('localeChanged', { locale, previousLocale });
+  }
+
+  /** Active locale (undefined when neither options.locale nor StoryData.defaultLocale is set) */
+  getLocale(): string | undefined {
+    return this.locale;
+  }
+
+  /** Locales with a string table in StoryData.locales */
+  getAvailableLocales(): string[] {
+    return this.localeTable.getLocales();
+  }
+
+  /**
+   * Content blocks of the current node whose conditions pass, localized and templated
+   * (empty when the node has no blocks; its body is then `getCurrentNode().text`)
+   */
+  getContentBlocks(): ContentBlock[] {
+    return this.getCurrentNode().blocks || [];
+  }
+
+  /**
+   * Dialogue of the current node with speakers resolved to their characters,
+   * localized display names and portraits (empty when the node has no dialogue)
+   */
+  getDialogue(): PresentedDialogueLine[] {
+    return (this.getCurrentNode().dialogue || []).map(line => {
+      if (line.speaker === undefined) return line;
+      const character = this.characters.getCharacter(line.speaker);
+      const speakerName = this.localeTable.resolve(`character.${line.speaker}.name`, this.locale) ?? character?.name ?? line.speaker;
+      const portrait = this.characters.getPortrait(line.speaker, line.emotion);
+      return { ...line, ...(character ? { character } : {}), speakerName, ...(portrait !== undefined ? { portrait } : {}) };
+    });
+  }
+
+  /** Character declared in StoryData.characters */
+  getCharacter(id: string): CharacterDefinition | undefined {
+    return this.characters.getCharacter(id);
+  }
+
+  /** All declared characters */
+  getCharacters(): CharacterDefinition[] {
+    return this.characters.getCharacters();
+  }
+
+  /** Endings declared by the story's nodes, with their unlock status across playthroughs */
+  getEndings(): UnlockStatus[] {
+    return this.getUnlockStatuses().filter(unlock => unlock.kind === 'ending');
+  }
+
+  /** Achievements declared by the story's nodes, with their unlock status across playthroughs */
+  getAchievements(): UnlockStatus[] {
+    return this.getUnlockStatuses().filter(unlock => unlock.kind === 'achievement');
+  }
+
+  /** Endings unlocked in this or any earlier playthrough */
+  getUnlockedEndings(): UnlockStatus[] {
+    return this.getEndings().filter(unlock => unlock.unlocked);
+  }
+
+  /** Achievements unlocked in this or any earlier playthrough */
+  getUnlockedAchievements(): UnlockStatus[] {
+    return this.getAchievements().filter(unlock => unlock.unlocked);
+  }
+
+  /** Share of the declared endings and achievements unlocked so far, 0-100 (0 when none are declared) */
+  getCompletionPercentage(): number {
+    const unlocks = this.getUnlockStatuses();
+    if (unlocks.length === 0) return 0;
+    return (unlocks.filter(unlock => unlock.unlocked).length / unlocks.length) * 100;
+  }
+
+  /** Store holding the unlocked endings and achievements (the `metaProgress` option, else in-memory) */
+  getMetaProgressStore(): MetaProgressStore {
+    return this.metaProgress;
+  }
+
+  private getUnlockStatuses(): UnlockStatus[] {
+    return collectUnlocks(this.storyData.nodes).map(unlock => {
+      const unlockedAt = this.metaProgress.getUnlockedAt(unlock.kind, unlock.id);
+      return { ...this.localizeUnlock(unlock), unlocked: unlockedAt !== undefined, ...(unlockedAt !== undefined ? { unlockedAt } : {}) };
+    });
+  }
+
+  /** Ending or achievement with its title and description resolved for the active locale */
+  private localizeUnlock<T extends { kind: UnlockKind; id: string; title?: string; description?: string }>(unlock: T): T {
+    const key = `${unlock.kind}.${unlock.id}`;
+    return {
+      ...unlock,
+      ...(unlock.title !== undefined ? { title: this.localizeText(`${key}.title`, unlock.title) } : {}),
+      ...(unlock.description !== undefined ? { description: this.localizeText(`${key}.description`, unlock.description) } : {})
+    };
+  }
+
+  /** Namespaces of lazy modules that have not been loaded yet */
+  getPendingModules(): string[] {
+    return Object.keys(this.storyData.modules || {});
+  }
+
+  /**
+   * Load a pending module through the `moduleResolver` option and add its nodes (and locale
+   * strings) to the story. Resolves immediately when the module is already loaded.
+   * @throws StoryDataError for an unknown namespace; StateError when no resolver is configured
+   */
+  loadModule(namespace: string): Promise<void> {
+    if (!this.storyData.modules?.[namespace]) {
+      if (this.storyData.nodes.some(n => getModuleNamespace(n.id) === namespace)) return Promise.resolve();
+      return Promise.reject(new StoryDataError(`Unknown module: ${namespace}`));
+    }
+    const inFlight = this.moduleLoads.get(namespace);
+    if (inFlight) return inFlight;
+    if (!this.moduleResolver) {
+      return Promise.reject(new StateError(`Cannot load module ${namespace}: no moduleResolver configured`, { module: namespace }));
+    }
+    const load = this.moduleResolver(this.storyData.modules[namespace], namespace).then(module => {
+      if (!this.storyData.modules?.[namespace]) return;
+      this.storyData = composeStoryModules(this.storyData, { [namespace]: module });
+      this.localeTable = new LocaleTable(this.storyData);
+      this.compileConditions(this.storyData.nodes.filter(n => getModuleNamespace(n.id) === namespace));
+      this.events.emit('moduleLoaded', { namespace, nodeCount: module.nodes.length });
+      this.plugins.storyLoaded(this.storyData);
+    }).finally(() => this.moduleLoads.delete(namespace));
+    this.moduleLoads.set(namespace, load);
+    return load;
+  }
+
+  /** Pending modules that the given node ids belong to */
+  private pendingModulesFor(nodeIds: Array<string | undefined>): string[] {
+    const namespaces = nodeIds.map(id => (id ? getModuleNamespace(id) : undefined));
+    return Array.from(new Set(namespaces.filter((ns): ns is string => !!ns && !!this.storyData.modules?.[ns])));
+  }
+
+  /** @throws QNCENavigationError when nodeId is in a module that has not been loaded */
+  private assertModuleLoaded(nodeId: string): void {
+    const [namespace] = this.pendingModulesFor([nodeId]);
+    if (namespace) {
+      throw new QNCENavigationError(`Node ${nodeId} is in module "${namespace}", which is not loaded; call loadModule("${namespace}") or use selectChoiceAsync()`, nodeId, { module: namespace });
+    }
+  }
+
+  /**
+   * Render template text (`{flags.name}`, `{if ...}` spans) against current state.
+   * Works regardless of StoryData.templating; useful for choice labels and UI strings.
+   * @throws \{StoryDataError\} When the template is malformed
+   */
+  renderText(text: string): string {
+    return this.textRenderer.render(text, this.createConditionContext(), this.templateErrorHandler(this.state.currentNodeId));
+  }
+
+  /** Condition context for the current state (shared by choice filtering and templating) */
+  private createConditionContext(): ConditionContext {
+    const gameTime = this.getGameTime();
+    return {
+      state: this.state,
+      timestamp: this.gameCalendar.drivesTimestamps ? gameTime.timestamp : this.clock.now(),
+      customData: {},
+      functions: this.conditionFunctions,
+      gameTime,
+      // random() rolls again each turn and whenever the engine RNG moves, but stays stable in between
+      randomSeed: hashSeed(`${this.state.rngState ?? this.rngSeed}:${this.state.history.length}`)
+    };
+  }
+
+  /** Validation context for the current state; timeRequirements read the game clock, or the engine clock with `timeSource: 'real'` */
+  private createChoiceValidationContext(node: NarrativeNode, choices: Choice[]): ValidationContext {
+    const context = createValidationContext(node, this.state, choices);
+    context.timestamp = this.gameCalendar.drivesTimestamps ? this.getGameTime().timestamp : this.clock.now();
+    return context;
+  }
+
+  /** Log a structured error (unless `logged`), forward it to telemetry and emit it as an 'error' event */
+  private reportError(struct: StructuredQNCEError, logged = false): void {
+    if (!logged) this.logger.warn('[QNCE] ' + serializeStructuredError(struct));
+    try { this.telemetry?.emit({ type: 'engine.structuredError', payload: serializeStructuredError(struct), ts: Date.now(), ctx: this.defaultTelemetryCtx! }); } catch {}
+    this.events.emit('error', { error: struct });
+  }
+
+  /**
+   * Emit nodeExit/nodeEnter for each node a transition entered (redirect hops included),
+   * flagChanged for the flags it wrote, and storyComplete when it ends on a node without choices.
+   * @param fromNodeId - Node the transition left (undefined when a playthrough restarts)
+   */
+  private emitTransitionEvents(fromNodeId: string | undefined, entered: string[], previousFlags: Record<string, unknown>, previousTime?: number): void {
+    let previous = fromNodeId;
+    for (const nodeId of entered) {
+      if (previous !== undefined) this.events.emit('nodeExit', { nodeId: previous, toNodeId: nodeId });
+      this.events.emit('nodeEnter', { nodeId, fromNodeId: previous });
+      this.plugins.nodeEntered({ nodeId, fromNodeId: previous });
+      this.recordUnlocks(nodeId);
+      previous = nodeId;
+    }
+    this.emitFlagChanges(previousFlags);
+    if (previousTime !== undefined) this.emitTimeAdvanced(previousTime);
+    if (this.events.listenerCount('storyComplete') && this.isComplete) {
+      this.events.emit('storyComplete', { nodeId: this.state.currentNodeId });
+    }
+  }
+
+  /** Unlock the ending / achievement declared on an entered node; new unlocks are announced and saved */
+  private recordUnlocks(nodeId: string): void {
+    const node = this.storyData.nodes.find(n => n.id === nodeId);
+    if (!node?.ending && !node?.achievement) return;
+    const unlocked = collectUnlocks([node])
+      .filter(unlock => this.metaProgress.unlock(unlock.kind, unlock.id, this.clock.now()))
+      .map(unlock => this.localizeUnlock(unlock));
+    if (unlocked.length === 0) return;
+    unlocked.forEach(({ kind, id, title }) => this.events.emit('unlocked', { kind, id, nodeId, ...(title !== undefined ? { title } : {}) }));
+    const onFailure = (cause: unknown) => this.reportError(ErrorFactory.persistence('Meta progress save failed', { operation: 'saveMetaProgress', nodeId, cause }));
+    this.metaProgress.save().then(result => { if (!result.success) onFailure(result.error); }, onFailure);
+  }
+
+  private emitFlagChanges(previousFlags: Record<string, unknown>): void {
+    if (!this.events.listenerCount('flagChanged')) return;
+    const flags = this.state.flags;
+    for (const key of new Set([...Object.keys(previousFlags), ...Object.keys(flags)])) {
+      if (!Object.is(previousFlags[key], flags[key])) {
+        this.events.emit('flagChanged', { key, oldValue: previousFlags[key], newValue: flags[key] });
+      }
+    }
+  }
+
+  private templateErrorHandler(nodeId: string): (error: unknown, expression: string) => void {
+    return (error, expression) => {
+      const struct = ErrorFactory.condition('Text template expression failed', {
+        conditionExpression: expression,
+        nodeId,
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        storyId: (this.storyData as any)?.id,
+        cause: error
+      });
+      this.reportError(struct);
+    };
+  }
+
+  private flagEffectErrorHandler(nodeId: string): (error: unknown, flag: string) => void {
+    return (error, flag) => {
+      const struct = ErrorFactory.state('Flag effect could not be applied', {
+        nodeId,
+        flagKey: flag,
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        storyId: (this.storyData as any)?.id,
+        cause: error
+      });
+      this.reportError(struct);
+    };
+  }
+
+  /**
+   * Apply flagEffects to the live state, checking each written flag against the flag schema.
+   * In 'error' strictness an invalid write keeps the flag's previous value (the rest still apply).
+   */
+  private writeFlagEffects(effects: Record<string, unknown>, nodeId: string): void {
+    const previous = this.state.flags;
+    const next = applyFlagEffects(previous, effects, this.createConditionContext(), this.flagEffectErrorHandler(nodeId));
+    if (this.flagSchema.declared && this.flagStrictness !== 'off') {
+      for (const flag of Object.keys(effects)) {
+        const problem = this.flagSchema.check(flag, next[flag]);
+        if (!problem) continue;
+        this.reportFlagViolation(problem, flag, next[flag], nodeId);
+        if (this.flagStrictness !== 'error') continue;
+        if (flag in previous) next[flag] = previous[flag];
+        else delete next[flag];
+      }
+    }
+    this.state.flags = next;
+  }
+
+  private reportFlagViolation(problem: string, flag: string, value: unknown, nodeId: string): void {
+    const struct = ErrorFactory.state(this.flagStrictness === 'error' ? `Flag write rejected: ${problem}` : `Flag write does not match schema: ${problem}`, {
+      nodeId,
+      flagKey: flag,
+      flagValue: value,
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      storyId: (this.storyData as any)?.id
+    });
+    this.reportError(struct);
+  }
+
+  /**
+   * Snapshot state for undo/redo: flags shallow-copied, history copied, any other
+   * state fields (inventory, ...) deep-copied so later mutations cannot leak in.
+   */
+  private captureLightState(state: QNCEState): QNCEState {
+    const { currentNodeId, flags, history, ...rest } = state;
+    return { ...this.deepCopy(rest), currentNodeId, flags: { ...flags }, history: [...history] };
+  }
+
+  /**
+   * Restore a snapshot taken by captureLightState in place (the state object is shared
+   * with the branching engine); fields absent from the snapshot are cleared.
+   */
+  private restoreLightState(light: QNCEState): void {
+    const { currentNodeId, flags, history, ...rest } = light;
+    const target = this.state as unknown as Record<string, unknown>;
+    for (const key of Object.keys(target)) {
+      if (!(key in light)) delete target[key];
+    }
+    Object.assign(this.state, this.deepCopy(rest), {
+      currentNodeId,
+      flags: { ...flags },
+      history: Array.isArray(history) ? [...history] : this.state.history
+    });
+  }
+
+  /**
+   * Compile the choice, redirect and content block conditions of the given nodes (default: the
+   * whole story) so evaluation skips parsing. Runs at construction, in loadModule() and after
+   * hot-reload patches; expressions that fail to compile are reported once as 'error' events
+   * (unless a custom condition evaluator is set) and listed by getConditionErrors().
+   */
+  compileConditions(nodes: NarrativeNode[] = this.storyData.nodes): void {
+    const nodeIds = new Set(nodes.map(n => n.id));
+    // Recompiled nodes report afresh; errors of nodes no longer in the story (removed by a patch) go too
+    const storyNodeIds = new Set(this.storyData.nodes.map(n => n.id));
+    this.conditionErrors = this.conditionErrors.filter(e => !nodeIds.has(e.nodeId) && storyNodeIds.has(e.nodeId));
+    for (const node of nodes) {
+      const expressions = [
+        ...(node.choices || []).map(c => c.condition),
+        ...(node.redirects || []).map(r => r.condition),
+        ...(node.blocks || []).map(b => b.condition)
+      ];
+      for (const expression of expressions) {
+        if (!expression) continue;
+        try {
+          this.compiledConditions.set(expression, conditionEvaluator.compile(expression, this.conditionFunctions));
+        } catch (error) {
+          if (!(error instanceof ConditionEvaluationError)) throw error;
+          this.compiledConditions.delete(expression);
+          this.conditionErrors.push({ nodeId: node.id, expression, error });
+          if (conditionEvaluator.hasCustomEvaluator()) continue;
+          this.reportedConditionFailures.add(expression);
+          this.reportError(ErrorFactory.condition('Condition failed to compile', {
+            conditionExpression: expression,
+            nodeId: node.id,
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+            storyId: (this.storyData as any)?.id,
+            cause: error
+          }));
+        }
+      }
+    }
+  }
+
+  /** Run plugins' onStoryLoad with the current story after it was changed in place (hot-reload patches) */
+  notifyStoryChanged(): void {
+    this.plugins.storyLoaded(this.storyData);
+  }
+
+  /** Conditions of the story that failed to compile, by node */
+  getConditionErrors(): Array<{ nodeId: string; expression: string; error: ConditionEvaluationError }> {
+    return [...this.conditionErrors];
+  }
+
+  /** Compiled form of a story condition, or the text itself for expressions compiled on demand */
+  private compiledCondition(expression: string): string | CompiledCondition {
+    return this.compiledConditions.get(expression) ?? expression;
   }
 
   /**
@@ -488,11 +1283,7 @@ export class QNCEEngine {
    */
   getAvailableChoices(): Choice[] {
     const currentNode = this.getCurrentNode();
-    const context: ConditionContext = {
-      state: this.state,
-      timestamp: Date.now(),
-      customData: {}
-    };
+    const context = this.createConditionContext();
 
     // Performance-mode choice array pooling: reuse a scratch array to avoid per-call allocations
     let scratch: Choice[] | undefined;
@@ -512,69 +1303,220 @@ export class QNCEEngine {
     }
 
     // First apply conditional filtering (Sprint 3.4)
-    const conditionallyAvailable = currentNode.choices.filter((choice) => {
-      // If no condition is specified, choice is always available
-      if (!choice.condition) {
-        return true;
-      }
-
-      try {
-        // Evaluate the condition using the condition evaluator
-        const t0 = Date.now();
-    const res = globalHotProfiler.wrap('condition.evaluate', () => conditionEvaluator.evaluate(choice.condition!, context));
-  try { this.telemetry?.emit({ type: 'expression.evaluate', payload: this.minimalTelemetry ? 1 : { ok: true, ms: Date.now() - t0 }, ts: Date.now(), ctx: this.defaultTelemetryCtx! }); } catch {}
-    if (this.debugMode) globalDebugLogger.log('condition.ok', { nodeId: this.state.currentNodeId, choiceText: choice.text, expr: choice.condition });
-        return res;
-      } catch (error) {
-        // Log condition evaluation errors but don't block other choices
-        if (error instanceof ConditionEvaluationError) {
-          const struct = ErrorFactory.condition('Choice condition evaluation failed', {
-            choiceText: choice.text,
-            conditionExpression: choice.condition,
-            nodeId: this.state.currentNodeId,
-            // eslint-disable-next-line @typescript-eslint/no-explicit-any
-            storyId: (this.storyData as any)?.id,
-            cause: error
-          });
-          // eslint-disable-next-line no-console
-          this.logger.warn('[QNCE] ' + serializeStructuredError(struct));
-          try { this.telemetry?.emit({ type: 'engine.structuredError', payload: serializeStructuredError(struct), ts: Date.now(), ctx: this.defaultTelemetryCtx! }); } catch {}
-          try { this.telemetry?.emit({ type: 'expression.evaluate', payload: this.minimalTelemetry ? 0 : { ok: false, error: 'ConditionEvaluationError' }, ts: Date.now(), ctx: this.defaultTelemetryCtx! }); } catch {}
-        } else {
-          const struct = ErrorFactory.condition('Unexpected error evaluating choice condition', {
-            choiceText: choice.text,
-            conditionExpression: choice.condition,
-            nodeId: this.state.currentNodeId,
-            // eslint-disable-next-line @typescript-eslint/no-explicit-any
-            storyId: (this.storyData as any)?.id,
-            cause: error
-          });
-          // eslint-disable-next-line no-console
-          this.logger.warn('[QNCE] ' + serializeStructuredError(struct));
-          try { this.telemetry?.emit({ type: 'engine.structuredError', payload: serializeStructuredError(struct), ts: Date.now(), ctx: this.defaultTelemetryCtx! }); } catch {}
-          // eslint-disable-next-line @typescript-eslint/no-explicit-any
-          try { this.telemetry?.emit({ type: 'engine.error', payload: { where: 'getAvailableChoices', error: (error as any)?.message || String(error) }, ts: Date.now(), ctx: this.defaultTelemetryCtx! }); } catch {}
-        }
-        
-        // Return false for invalid conditions (choice won't be shown)
+    const conditionallyAvailable = currentNode.choices.filter((choice, index) => {
+      // Once-only choices disappear after their first selection
+      if (this.isChoiceSpent(currentNode.id, choice, index)) {
         return false;
       }
+
+      return this.passesChoiceCondition(choice, context);
     });
 
     // Then apply choice validation (Sprint 3.2)
-    const validationContext = createValidationContext(
+    const validationContext = this.createChoiceValidationContext(
       currentNode,
-      this.state,
       conditionallyAvailable  // Pass the conditionally filtered choices
     );
 
     const validated = this.choiceValidator.getAvailableChoices(validationContext);
     if (!this.performanceMode || !scratch) return validated;
 
-    // Copy into scratch to present a stable pooled array (avoid leaking validator's array if it allocates)
-    for (let i = 0; i < validated.length; i++) scratch[i] = validated[i];
-    scratch.length = validated.length;
-    return scratch;
+    // Copy into scratch to present a stable pooled array (avoid leaking validator's array if it allocates)
+    for (let i = 0; i < validated.length; i++) scratch[i] = validated[i];
+    scratch.length = validated.length;
+    return scratch;
+  }
+
+  /** Evaluate Choice.condition (failed evaluations are reported and hide the choice) */
+  private passesChoiceCondition(choice: Choice, context: ConditionContext): boolean {
+    // If no condition is specified, choice is always available
+    if (!choice.condition) {
+      return true;
+    }
+
+    try {
+      // Evaluate the condition using the condition evaluator
+      const t0 = Date.now();
+      const res = globalHotProfiler.wrap('condition.evaluate', () => conditionEvaluator.evaluate(this.compiledCondition(choice.condition!), context));
+      try { this.telemetry?.emit({ type: 'expression.evaluate', payload: this.minimalTelemetry ? 1 : { ok: true, ms: Date.now() - t0 }, ts: Date.now(), ctx: this.defaultTelemetryCtx! }); } catch {}
+      if (this.debugMode) globalDebugLogger.log('condition.ok', { nodeId: this.state.currentNodeId, choiceText: choice.text, expr: choice.condition });
+      return res;
+    } catch (error) {
+      // Log condition evaluation errors but don't block other choices
+      if (error instanceof ConditionEvaluationError) {
+        const struct = ErrorFactory.condition('Choice condition evaluation failed', {
+          choiceText: choice.text,
+          conditionExpression: choice.condition,
+          nodeId: this.state.currentNodeId,
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          storyId: (this.storyData as any)?.id,
+          cause: error
+        });
+        this.reportError(struct, this.reportedConditionFailures.has(choice.condition!));
+        try { this.telemetry?.emit({ type: 'expression.evaluate', payload: this.minimalTelemetry ? 0 : { ok: false, error: 'ConditionEvaluationError' }, ts: Date.now(), ctx: this.defaultTelemetryCtx! }); } catch {}
+      } else {
+        const struct = ErrorFactory.condition('Unexpected error evaluating choice condition', {
+          choiceText: choice.text,
+          conditionExpression: choice.condition,
+          nodeId: this.state.currentNodeId,
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          storyId: (this.storyData as any)?.id,
+          cause: error
+        });
+        this.reportError(struct);
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        try { this.telemetry?.emit({ type: 'engine.error', payload: { where: 'getAvailableChoices', error: (error as any)?.message || String(error) }, ts: Date.now(), ctx: this.defaultTelemetryCtx! }); } catch {}
+      }
+      
+      // Return false for invalid conditions (choice won't be shown)
+      return false;
+    }
+  }
+
+  /**
+   * Resolve a transition's destination and the call stack after taking it: `returnTo` calls
+   * into nextNodeId as a tunnel, RETURN_TARGET resumes at the innermost caller's continuation.
+   * @throws QNCENavigationError on a return outside any tunnel or when MAX_CALL_DEPTH is exceeded
+   */
+  private resolveTransition(fromNodeId: string, nextNodeId: string, returnTo?: string): { toNodeId: string; callStack?: string[] } {
+    const stack = this.state.callStack || [];
+    if (nextNodeId === RETURN_TARGET) {
+      if (!stack.length) throw new QNCENavigationError(`Cannot return from ${fromNodeId}: call stack is empty`, fromNodeId);
+      return { toNodeId: stack[stack.length - 1], callStack: stack.slice(0, -1) };
+    }
+    if (returnTo) {
+      if (stack.length >= MAX_CALL_DEPTH) {
+        throw new QNCENavigationError(`Call depth limit (${MAX_CALL_DEPTH}) exceeded calling ${nextNodeId} from ${fromNodeId}`, fromNodeId, { callStack: stack });
+      }
+      return { toNodeId: nextNodeId, callStack: [...stack, returnTo] };
+    }
+    return { toNodeId: nextNodeId, callStack: stack.length ? stack : undefined };
+  }
+
+  private setCallStack(callStack: string[] | undefined): void {
+    if (callStack?.length) this.state.callStack = callStack;
+    else delete this.state.callStack;
+  }
+
+  /**
+   * Stable id of a choice in a node: `choice.id`, else `<nodeId>#<index>`.
+   * Returns undefined for choices that are not part of the node (ad-hoc choices are not counted).
+   */
+  private getChoiceId(nodeId: string, choice: Choice, index?: number): string | undefined {
+    if (choice.id) return choice.id;
+    const choices = this.storyData.nodes.find(n => n.id === nodeId)?.choices || [];
+    let position = index ?? choices.indexOf(choice);
+    // Presented choices are copies (localized text), so fall back to matching their content
+    if (position === -1) position = choices.findIndex(c => c.nextNodeId === choice.nextNodeId && (c.text === choice.text || (c.textKey !== undefined && c.textKey === choice.textKey)));
+    return position === -1 ? undefined : `${nodeId}#${position}`;
+  }
+
+  /** Whether a once-only choice (`once`, or `defaultChoiceMode: 'once'` without `sticky`) was already selected */
+  private isChoiceSpent(nodeId: string, choice: Choice, index: number): boolean {
+    const once = choice.once ?? (choice.sticky ? false : this.storyData.defaultChoiceMode === 'once');
+    if (!once) return false;
+    const choiceId = this.getChoiceId(nodeId, choice, index);
+    return !!choiceId && (this.state.choiceCounts?.[choiceId] || 0) > 0;
+  }
+
+  /** Count an entry into a node (copy-on-write so getState() snapshots stay stable) */
+  private recordVisit(nodeId: string): void {
+    this.state.visitCounts = { ...this.state.visitCounts, [nodeId]: (this.state.visitCounts?.[nodeId] || 0) + 1 };
+    const duration = this.storyData.nodes.find(n => n.id === nodeId)?.duration;
+    if (duration !== undefined) this.passTime(toGameMinutes(duration));
+  }
+
+  /**
+   * Apply a node's onEnter/onExit flag effects to the live state.
+   * @returns Flag keys written by the effects (empty when the node has none)
+   */
+  private applyNodeEffects(nodeId: string, phase: 'onEnter' | 'onExit'): string[] {
+    const effects = this.storyData.nodes.find(n => n.id === nodeId)?.[phase]?.flagEffects;
+    if (!effects) return [];
+    this.writeFlagEffects(effects, nodeId);
+    if (this.debugMode) globalDebugLogger.log('node.effects', { nodeId, phase, flags: Object.keys(effects) });
+    return Object.keys(effects);
+  }
+
+  /** Flow/undo metadata describing node effects applied during a transition */
+  private nodeEffectsMetadata(exitFlags: string[], enterFlags: string[]): { nodeEffects?: { onExit?: string[]; onEnter?: string[] } } {
+    if (!exitFlags.length && !enterFlags.length) return {};
+    return {
+      nodeEffects: {
+        ...(exitFlags.length ? { onExit: exitFlags } : {}),
+        ...(enterFlags.length ? { onEnter: enterFlags } : {})
+      }
+    };
+  }
+
+  /**
+   * Follow redirects from the current node until a node without a passing redirect is reached.
+   * Each hop runs onExit/onEnter effects and appends to history.
+   * @throws QNCENavigationError on a missing target or after MAX_REDIRECT_HOPS hops (loop)
+   */
+  private followRedirects(): { via: string[]; exitFlags: string[]; enterFlags: string[] } {
+    const result = { via: [] as string[], exitFlags: [] as string[], enterFlags: [] as string[] };
+    let node = this.storyData.nodes.find(n => n.id === this.state.currentNodeId);
+    while (node?.redirects?.length) {
+      const redirectTarget = this.resolveRedirect(node);
+      if (redirectTarget === undefined) break;
+      if (result.via.length >= MAX_REDIRECT_HOPS) {
+        throw new QNCENavigationError(`Redirect loop detected after ${MAX_REDIRECT_HOPS} hops: ${[...result.via.slice(-5), node.id].join(' -> ')}`, node.id, { via: result.via });
+      }
+      const transition = this.resolveTransition(node.id, redirectTarget);
+      const target = transition.toNodeId;
+      const next = this.storyData.nodes.find(n => n.id === target);
+      if (!next) throw new QNCENavigationError(`Redirect target not found: ${target} (from ${node.id})`, target);
+
+      result.via.push(node.id);
+      result.exitFlags.push(...this.applyNodeEffects(node.id, 'onExit'));
+      this.state.currentNodeId = target;
+      this.state.history.push(target);
+      this.setCallStack(transition.callStack);
+      this.recordVisit(target);
+      result.enterFlags.push(...this.applyNodeEffects(target, 'onEnter'));
+      if (this.debugMode) globalDebugLogger.log('node.redirect', { from: node.id, to: target });
+
+      if (this.performanceMode) {
+        const flowEvent = this.createFlowEvent(node.id, target, { navigationType: 'redirect' });
+        this.recordFlowEvent(flowEvent);
+        poolManager.returnFlow(flowEvent);
+      }
+      node = next;
+    }
+    return result;
+  }
+
+  /** followRedirects, restoring the pre-transition state if it throws */
+  private followRedirectsOrRollback(preChangeState: QNCEState): ReturnType<QNCEEngine['followRedirects']> {
+    try {
+      return this.followRedirects();
+    } catch (error) {
+      this.restoreLightState(preChangeState);
+      throw error;
+    }
+  }
+
+  /** Target of the first redirect whose condition passes (failed conditions are logged and skipped) */
+  private resolveRedirect(node: NarrativeNode): string | undefined {
+    const context = this.createConditionContext();
+    for (const redirect of node.redirects || []) {
+      if (!redirect.condition) return redirect.nextNodeId;
+      try {
+        if (conditionEvaluator.evaluate(this.compiledCondition(redirect.condition), context)) return redirect.nextNodeId;
+      } catch (error) {
+        const struct = ErrorFactory.condition('Redirect condition evaluation failed', {
+          conditionExpression: redirect.condition,
+          nodeId: node.id,
+          toNodeId: redirect.nextNodeId,
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          storyId: (this.storyData as any)?.id,
+          cause: error
+        });
+        this.reportError(struct, this.reportedConditionFailures.has(redirect.condition));
+      }
+    }
+    return undefined;
   }
 
   makeChoice(choiceIndex: number): void {
@@ -587,9 +1529,8 @@ export class QNCEEngine {
     
     // Sprint 3.2: Validate choice before execution
     const currentNode = this.getCurrentNode();
-    const context = createValidationContext(
+    const context = this.createChoiceValidationContext(
       currentNode,
-      this.state,
       choices
     );
     
@@ -610,12 +1551,216 @@ export class QNCEEngine {
     return { ...this.state.flags };
   }
 
+  /**
+   * Draw the next value in [0, 1) from the engine's seeded RNG.
+   * The generator position lives in state, so saves, checkpoints and undo() capture it.
+   * @public
+   */
+  random(): number {
+    const step = nextRandom(this.state.rngState ?? this.rngSeed);
+    this.state.rngState = step.state;
+    return step.value;
+  }
+
+  /** RandomSource bound to this engine, for injecting into measurements and branching */
+  getRandomSource(): RandomSource {
+    return this.randomSource;
+  }
+
+  /** Restart the random sequence from a new seed */
+  setRandomSeed(seed: number | string): void {
+    this.rngSeed = hashSeed(seed);
+    delete this.state.rngState;
+  }
+
+  /**
+   * Current inventory (item id → quantity)
+   * @public
+   */
+  getInventory(): Record<string, number> {
+    return { ...(this.state.inventory || {}) };
+  }
+
+  /** Quantity held of an item (0 when absent) */
+  getItemCount(itemId: string): number {
+    return this.state.inventory?.[itemId] || 0;
+  }
+
+  /** Whether at least `quantity` of an item is held */
+  hasItem(itemId: string, quantity = 1): boolean {
+    return this.getItemCount(itemId) >= quantity;
+  }
+
+  /** Item definitions declared in StoryData.items */
+  getItemDefinitions(): ItemDefinition[] {
+    return this.inventoryModel.getDefinitions();
+  }
+
+  /** Flag definitions declared in StoryData.flagSchema */
+  getFlagSchema(): Record<string, FlagDefinition> {
+    return { ...this.storyData.flagSchema };
+  }
+
+  /**
+   * Add items to the inventory
+   * @throws InventoryError for undeclared items or when maxStack/capacity would be exceeded
+   */
+  addItem(itemId: string, quantity = 1): void {
+    this.updateInventory(this.inventoryModel.add(this.state.inventory || {}, itemId, quantity), itemId, quantity);
+  }
+
+  /**
+   * Remove items from the inventory
+   * @throws InventoryError when fewer items are held than requested
+   */
+  removeItem(itemId: string, quantity = 1): void {
+    this.updateInventory(this.inventoryModel.remove(this.state.inventory || {}, itemId, quantity), itemId, -quantity);
+  }
+
+  private updateInventory(next: Record<string, number>, itemId: string, delta: number): void {
+    if (this.debugMode) globalDebugLogger.log('inventory.change', { itemId, delta });
+    const preChangeState = this.deepCopy(this.state);
+    this.state.inventory = next;
+    if (this.undoRedoConfig.enabled && !this.isUndoRedoOperation &&
+        this.undoRedoConfig.trackActions.includes('inventory-change')) {
+      this.pushToUndoStack(preChangeState, 'inventory-change', {
+        itemId,
+        quantityChange: delta
+      });
+    }
+  }
+
+  /**
+   * Status of a quest ('inactive' until it is started)
+   * @public
+   */
+  getQuestStatus(questId: string): QuestStatus {
+    return this.questModel.status(this.state.quests || {}, questId);
+  }
+
+  /** Progress of every started quest, by quest id */
+  getQuests(): Record<string, QuestProgress> {
+    return this.deepCopy(this.state.quests || {});
+  }
+
+  /** Quest definitions declared in StoryData.quests */
+  getQuestDefinitions(): QuestDefinition[] {
+    return this.questModel.getDefinitions();
+  }
+
+  /** Started quests with their current journal text and objectives (declared quests first), localized */
+  getJournal(): QuestJournalEntry[] {
+    return this.questModel.journal(this.state.quests || {}).map(entry => {
+      const resolve = (key: string, text: string | undefined) => (text === undefined ? undefined : this.localizeText(key, text));
+      const title = resolve(`quest.${entry.id}.title`, entry.title);
+      const text = resolve(`quest.${entry.id}.journal.${entry.status}`, entry.text);
+      return {
+        ...entry,
+        ...(title !== undefined ? { title } : {}),
+        ...(text !== undefined ? { text } : {}),
+        objectives: entry.objectives.map(objective => {
+          const description = resolve(`quest.${entry.id}.objective.${objective.id}`, objective.description);
+          return description !== undefined ? { ...objective, description } : objective;
+        })
+      };
+    });
+  }
+
+  /**
+   * Set a quest's status or complete some of its objectives
+   * @throws QuestError for undeclared quests or objectives
+   */
+  updateQuest(questId: string, effect: QuestEffect): void {
+    const { quests, change } = this.questModel.apply(this.state.quests || {}, questId, effect);
+    if (!change) return;
+    if (this.debugMode) globalDebugLogger.log('quest.update', { ...change });
+    const preChangeState = this.deepCopy(this.state);
+    this.state.quests = quests;
+    if (this.undoRedoConfig.enabled && !this.isUndoRedoOperation &&
+        this.undoRedoConfig.trackActions.includes('quest-change')) {
+      this.pushToUndoStack(preChangeState, 'quest-change', {
+        questId,
+        status: change.status
+      });
+    }
+    this.emitQuestChanges([change]);
+  }
+
+  private emitQuestChanges(changes: QuestChange[]): void {
+    for (const change of changes) {
+      try { this.telemetry?.emit({ type: 'quest.update', payload: { ...change }, ts: Date.now(), ctx: this.defaultTelemetryCtx! }); } catch {}
+      this.events.emit('questUpdated', change);
+    }
+  }
+
+  /**
+   * Current game time broken down into day, time of day, weekday and period
+   * @public
+   */
+  getGameTime(): GameTime {
+    return this.gameCalendar.at(this.state.gameTime ?? this.gameCalendar.start);
+  }
+
+  /**
+   * Move the game clock forward
+   * @throws StoryDataError for negative or non-numeric durations
+   */
+  advanceTime(duration: GameDuration): void {
+    const minutes = toGameMinutes(duration);
+    if (minutes === 0) return;
+    const preChangeState = this.deepCopy(this.state);
+    const previousTime = this.state.gameTime ?? this.gameCalendar.start;
+    this.passTime(minutes);
+    if (this.undoRedoConfig.enabled && !this.isUndoRedoOperation &&
+        this.undoRedoConfig.trackActions.includes('time-change')) {
+      this.pushToUndoStack(preChangeState, 'time-change', { minutes });
+    }
+    this.emitTimeAdvanced(previousTime);
+  }
+
+  private passTime(minutes: number): void {
+    this.state.gameTime = (this.state.gameTime ?? this.gameCalendar.start) + minutes;
+  }
+
+  private emitTimeAdvanced(previousTime: number): void {
+    const current = this.state.gameTime ?? this.gameCalendar.start;
+    if (current <= previousTime) return;
+    try { this.telemetry?.emit({ type: 'time.advance', payload: { minutes: current - previousTime, total: current }, ts: Date.now(), ctx: this.defaultTelemetryCtx! }); } catch {}
+    this.events.emit('timeAdvanced', { minutes: current - previousTime, time: this.gameCalendar.at(current) });
+  }
+
+  /**
+   * Inventory after a choice's consumed requirements and inventoryEffects, or undefined if it has none
+   * @throws InventoryError when the changes cannot be applied
+   */
+  private resolveChoiceInventory(choice: Choice): Record<string, number> | undefined {
+    if (!choice.inventoryEffects && !(choice.consumeInventory && choice.inventoryRequirements)) return undefined;
+    let inventory = this.state.inventory || {};
+    if (choice.consumeInventory && choice.inventoryRequirements) {
+      for (const [itemId, quantity] of Object.entries(choice.inventoryRequirements)) {
+        if (quantity > 0) inventory = this.inventoryModel.remove(inventory, itemId, quantity);
+      }
+    }
+    if (choice.inventoryEffects) inventory = this.inventoryModel.applyChanges(inventory, choice.inventoryEffects);
+    return inventory;
+  }
+
+  /**
+   * Set a flag value
+   * @throws FlagValidationError when the story declares a flagSchema, strictness is 'error' and the write breaks it
+   */
   setFlag(key: string, value: unknown): void {
   if (this.debugMode) globalDebugLogger.log('flag.set', { key, value });
+    if (this.flagSchema.declared && this.flagStrictness !== 'off') {
+      if (this.flagStrictness === 'error') this.flagSchema.assertValid(key, value);
+      const problem = this.flagSchema.check(key, value);
+      if (problem) this.reportFlagViolation(problem, key, value, this.state.currentNodeId);
+    }
     // Sprint 3.5: Save state for undo before making changes
     const preChangeState = this.deepCopy(this.state);
   const pooledKey = this.internFlagKey(key);
   const pooledValue = this.internFlagValue(value);
+    const oldValue = this.state.flags[pooledKey];
   this.state.flags[pooledKey] = pooledValue;
     
     // Sprint 3.5: Track state change for undo/redo
@@ -626,6 +1771,7 @@ export class QNCEEngine {
         flagValue: value
       });
     }
+    if (!Object.is(oldValue, pooledValue)) this.events.emit('flagChanged', { key: pooledKey, oldValue, newValue: pooledValue });
     
     // Sprint 3.5: Trigger autosave if enabled
     if (this.autosaveConfig.enabled && this.autosaveConfig.triggers.includes('flag-change')) {
@@ -641,9 +1787,7 @@ export class QNCEEngine {
           storyId: (this.storyData as any)?.id,
           cause: error
         });
-  // eslint-disable-next-line no-console
-  this.logger.warn('[QNCE] ' + serializeStructuredError(struct));
-  try { this.telemetry?.emit({ type: 'engine.structuredError', payload: serializeStructuredError(struct), ts: Date.now(), ctx: this.defaultTelemetryCtx! }); } catch {}
+  this.reportError(struct);
       });
     }
   }
@@ -652,8 +1796,34 @@ export class QNCEEngine {
     return [...this.state.history];
   }
 
+  /**
+   * Times a node has been entered in this playthrough
+   */
+  getVisitCount(nodeId: string): number {
+    return this.state.visitCounts?.[nodeId] || 0;
+  }
+
+  /**
+   * Times a choice has been selected, by choice id (`choice.id` or `<nodeId>#<index>`)
+   */
+  getChoiceCount(choiceId: string): number {
+    return this.state.choiceCounts?.[choiceId] || 0;
+  }
+
+  /**
+   * Continuation node ids of open tunnel calls, innermost last
+   */
+  getCallStack(): string[] {
+    return [...(this.state.callStack || [])];
+  }
+
+  /**
+   * Select a choice: runs pre-choice hooks synchronously (use selectChoiceAsync for async hooks)
+   * @throws StateError while a selectChoiceAsync transaction is committing
+   */
   selectChoice(choice: Choice): void {
   if (this.debugMode) globalDebugLogger.log('choice.select.start', { from: this.state.currentNodeId, to: choice.nextNodeId, choiceText: choice.text });
+    this.assertNoChoiceTransaction();
     // Pre-choice hooks (ordered by priority desc then registration order)
     if (this.preChoiceHooks.length) {
       const currentNodeForHooks = this.getCurrentNode();
@@ -661,6 +1831,14 @@ export class QNCEEngine {
         try {
           const res = hook.h({ engine: this, node: currentNodeForHooks, choice });
           if (res === false) return; // cancellation
+          if (res instanceof Promise) {
+            res.catch(() => {});
+            this.reportError(ErrorFactory.hook('Async pre-choice hook result ignored (use selectChoiceAsync to await it)', {
+              hookStage: 'pre-choice',
+              nodeId: currentNodeForHooks.id,
+              choiceText: choice.text
+            }));
+          }
         } catch (e) {
           const struct = ErrorFactory.hook('pre-choice hook error', {
             hookStage: 'pre-choice',
@@ -670,29 +1848,190 @@ export class QNCEEngine {
             storyId: (this.storyData as any)?.id,
             cause: e
           });
-          // eslint-disable-next-line no-console
-          this.logger.warn('[QNCE] ' + serializeStructuredError(struct));
-          try { this.telemetry?.emit({ type: 'engine.structuredError', payload: serializeStructuredError(struct), ts: Date.now(), ctx: this.defaultTelemetryCtx! }); } catch {}
+          this.reportError(struct);
+        }
+      }
+    }
+    this.applyChoice(choice);
+  }
+
+  /**
+   * Select a choice as a transaction. Pre-choice hooks are awaited in priority order, each bounded by
+   * hookTimeoutMs; a hook returning false, throwing or timing out cancels the choice. The transition,
+   * flag effects, history, undo entry and autosave then apply together: if any of them fails, state,
+   * undo/redo history and flow events are rolled back and the error is rethrown. Telemetry, engine
+   * events and post-choice hooks run only once the choice has committed.
+   * @throws StateError when another transaction is committing or the autosave fails (after rollback)
+   */
+  async selectChoiceAsync(choice: Choice, options: { hookTimeoutMs?: number } = {}): Promise<ChoiceTransactionResult> {
+    this.assertNoChoiceTransaction();
+    const startNodeId = this.state.currentNodeId;
+    const startHistoryLength = this.state.history.length;
+    if (this.preChoiceHooks.length) {
+      const node = this.getCurrentNode();
+      for (const hook of [...this.preChoiceHooks]) {
+        const outcome = await this.runAsyncPreChoiceHook(hook.h, node, choice, options.hookTimeoutMs ?? DEFAULT_HOOK_TIMEOUT_MS);
+        if (outcome !== 'continue') return { committed: false, reason: outcome };
+      }
+    }
+    const modules = this.pendingModulesFor([choice.nextNodeId, choice.returnTo]);
+    for (const namespace of modules) await this.loadModule(namespace);
+    if (this.preChoiceHooks.length || modules.length) {
+      if (this.state.currentNodeId !== startNodeId || this.state.history.length !== startHistoryLength) {
+        return { committed: false, reason: 'stale' };
+      }
+      this.assertNoChoiceTransaction();
+    }
+
+    const snapshot = {
+      state: this.captureLightState(this.state),
+      undoStack: [...this.undoStack],
+      redoStack: [...this.redoStack],
+      flowEvents: [...this.activeFlowEvents]
+    };
+    const transaction = { deferred: [] as Array<() => void> };
+    this.choiceTransaction = transaction;
+    try {
+      this.applyChoice(choice);
+      if (this.autosaveConfig.enabled && this.autosaveConfig.triggers.includes('choice')) {
+        const autosave = await this.triggerAutosave('choice', { fromNodeId: startNodeId, toNodeId: this.state.currentNodeId, choiceText: choice.text });
+        if (!autosave.success && autosave.error !== 'Autosave throttled') {
+          throw new StateError(autosave.error || 'Autosave failed', { nodeId: this.state.currentNodeId });
         }
       }
+    } catch (error) {
+      this.restoreLightState(snapshot.state);
+      this.undoStack = snapshot.undoStack;
+      this.redoStack = snapshot.redoStack;
+      this.activeFlowEvents = snapshot.flowEvents;
+      this.syncNodeTimer();
+      throw error;
+    } finally {
+      this.choiceTransaction = undefined;
+    }
+    transaction.deferred.forEach(run => run());
+    return { committed: true };
+  }
+
+  /** Await one pre-choice hook for selectChoiceAsync (errors and timeouts are logged) */
+  private async runAsyncPreChoiceHook(hook: PreChoiceHook, node: NarrativeNode, choice: Choice, timeoutMs: number): Promise<'continue' | 'cancelled' | 'timeout' | 'error'> {
+    let handle: unknown;
+    const timeout = new Promise<typeof HOOK_TIMED_OUT>(resolve => {
+      handle = this.clock.setTimeout(() => resolve(HOOK_TIMED_OUT), timeoutMs);
+    });
+    try {
+      const result = await Promise.race([Promise.resolve().then(() => hook({ engine: this, node, choice })), timeout]);
+      if (result !== HOOK_TIMED_OUT) return result === false ? 'cancelled' : 'continue';
+      this.reportError(ErrorFactory.hook(`pre-choice hook timed out after ${timeoutMs}ms`, {
+        hookStage: 'pre-choice',
+        nodeId: node.id,
+        choiceText: choice.text
+      }));
+      return 'timeout';
+    } catch (e) {
+      this.reportError(ErrorFactory.hook('pre-choice hook error', {
+        hookStage: 'pre-choice',
+        nodeId: node.id,
+        choiceText: choice.text,
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        storyId: (this.storyData as any)?.id,
+        cause: e
+      }));
+      return 'error';
+    } finally {
+      this.clock.clearTimeout(handle);
+    }
+  }
+
+  private runPostChoiceHooks(choice: Choice): void {
+    const nodeAfter = this.getCurrentNode();
+    for (const hook of this.postChoiceHooks) {
+      try { hook.h({ engine: this, node: nodeAfter, choice }); } catch (e) {
+        const struct = ErrorFactory.hook('post-choice hook error', {
+          hookStage: 'post-choice',
+          nodeId: nodeAfter.id,
+          choiceText: choice.text,
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          storyId: (this.storyData as any)?.id,
+          cause: e
+        });
+        this.reportError(struct);
+      }
     }
+  }
+
+  private assertNoChoiceTransaction(): void {
+    if (this.choiceTransaction) throw new StateError('A choice transaction is still committing', { nodeId: this.state.currentNodeId });
+  }
+
+  /** Run now, or once the selectChoiceAsync transaction in progress commits */
+  private afterCommit(run: () => void): void {
+    if (this.choiceTransaction) this.choiceTransaction.deferred.push(run);
+    else run();
+  }
+
+  /**
+   * Apply a choice its pre-choice hooks allowed: transition, effects, undo entry, autosave,
+   * telemetry, events and post-choice hooks (see selectChoiceAsync for the transactional variant)
+   */
+  private applyChoice(choice: Choice): void {
+    // Resolve the destination, inventory and quest changes up front so a failing choice leaves state untouched
+    const transition = this.resolveTransition(this.state.currentNodeId, choice.nextNodeId, choice.returnTo);
+    this.assertModuleLoaded(transition.toNodeId);
+    const nextInventory = this.resolveChoiceInventory(choice);
+    const questUpdate = choice.questEffects ? this.questModel.applyEffects(this.state.quests || {}, choice.questEffects) : undefined;
+    const choiceMinutes = choice.advanceTime !== undefined ? toGameMinutes(choice.advanceTime) : 0;
+
     // Sprint 3.5: Save state for undo before making changes
     const preChangeState = this.deepCopy(this.state);
+    const previousFlags = { ...this.state.flags };
     
     // S2-T4: Add state transition profiling
     const transitionSpanId = this.enableProfiling 
       ? getPerfReporter().startSpan('state-transition', { 
           fromNodeId: this.state.currentNodeId, 
-          toNodeId: choice.nextNodeId,
+          toNodeId: transition.toNodeId,
           hasEffects: !!choice.flagEffects 
         })
       : null;
 
   const fromNodeId = this.state.currentNodeId;
-    const toNodeId = choice.nextNodeId;
+    const toNodeId = transition.toNodeId;
+    const choiceId = this.getChoiceId(fromNodeId, choice);
 
   // Telemetry: choice.select
-  try { this.telemetry?.emit({ type: 'choice.select', payload: { fromNodeId, toNodeId, choiceText: choice.text }, ts: Date.now(), ctx: this.defaultTelemetryCtx! }); } catch {}
+  this.afterCommit(() => { try { this.telemetry?.emit({ type: 'choice.select', payload: { fromNodeId, toNodeId, choiceText: choice.text }, ts: Date.now(), ctx: this.defaultTelemetryCtx! }); } catch {} });
+    
+    const exitFlags = this.applyNodeEffects(fromNodeId, 'onExit');
+
+    this.state.currentNodeId = toNodeId;
+    this.state.history.push(toNodeId);
+    this.setCallStack(transition.callStack);
+    if (choiceId) this.state.choiceCounts = { ...this.state.choiceCounts, [choiceId]: (this.state.choiceCounts?.[choiceId] || 0) + 1 };
+    if (choiceMinutes > 0) this.passTime(choiceMinutes);
+    this.recordVisit(toNodeId);
+    
+    if (choice.flagEffects) {
+      this.writeFlagEffects(choice.flagEffects, fromNodeId);
+      
+      // S2-T4: Track flag updates
+      if (this.enableProfiling) {
+        perf.record('custom', { 
+          flagCount: Object.keys(choice.flagEffects).length,
+          nodeId: toNodeId,
+          eventType: 'flag-update'
+        });
+      }
+    }
+
+    if (nextInventory) this.state.inventory = nextInventory;
+    if (questUpdate?.changes.length) {
+      this.state.quests = questUpdate.quests;
+      const changes = questUpdate.changes;
+      this.afterCommit(() => this.emitQuestChanges(changes));
+    }
+
+    const enterFlags = this.applyNodeEffects(toNodeId, 'onEnter');
     
     // Create flow event for tracking narrative progression
     if (this.performanceMode) {
@@ -700,7 +2039,7 @@ export class QNCEEngine {
         ? perf.flowStart(fromNodeId, { toNodeId })
         : null;
         
-      const flowEvent = this.createFlowEvent(fromNodeId, toNodeId, choice.flagEffects);
+      const flowEvent = this.createFlowEvent(fromNodeId, toNodeId, { ...choice.flagEffects, ...this.nodeEffectsMetadata(exitFlags, enterFlags) });
       this.recordFlowEvent(flowEvent);
       
       // Return the flow immediately after recording (we don't need to keep it)
@@ -711,35 +2050,31 @@ export class QNCEEngine {
         perf.flowComplete(flowSpanId, toNodeId, { transitionType: 'choice' });
       }
     }
-    
-    this.state.currentNodeId = choice.nextNodeId;
-    this.state.history.push(choice.nextNodeId);
-    
-    if (choice.flagEffects) {
-      this.state.flags = { ...this.state.flags, ...choice.flagEffects };
-      
-      // S2-T4: Track flag updates
-      if (this.enableProfiling) {
-        perf.record('custom', { 
-          flagCount: Object.keys(choice.flagEffects).length,
-          nodeId: toNodeId,
-          eventType: 'flag-update'
-        });
-      }
-    }
+
+    const redirect = this.followRedirectsOrRollback(preChangeState);
+    exitFlags.push(...redirect.exitFlags);
+    enterFlags.push(...redirect.enterFlags);
     
     // Sprint 3.5: Track state change for undo/redo
     if (this.undoRedoConfig.enabled && !this.isUndoRedoOperation && 
         this.undoRedoConfig.trackActions.includes('choice')) {
+      const flagsChanged = Array.from(new Set([...exitFlags, ...Object.keys(choice.flagEffects || {}), ...enterFlags]));
       this.pushToUndoStack(preChangeState, 'choice', {
         nodeId: fromNodeId,
         choiceText: this.undoRedoConfig.trackChoiceText ? choice.text : undefined,
-        flagsChanged: choice.flagEffects ? Object.keys(choice.flagEffects) : undefined
+        flagsChanged: flagsChanged.length ? flagsChanged : undefined,
+        ...this.nodeEffectsMetadata(exitFlags, enterFlags),
+        ...(redirect.via.length ? { redirectedVia: redirect.via } : {})
       });
     }
+    this.syncNodeTimer();
+    const entered = this.state.history.slice(preChangeState.history.length);
+    const previousTime = preChangeState.gameTime ?? this.gameCalendar.start;
+    this.afterCommit(() => this.plugins.choiceMade({ choice, fromNodeId, toNodeId }));
+    this.afterCommit(() => this.emitTransitionEvents(fromNodeId, entered, previousFlags, previousTime));
     
-    // Sprint 3.5: Trigger autosave if enabled
-    if (this.autosaveConfig.enabled && this.autosaveConfig.triggers.includes('choice')) {
+    // Sprint 3.5: Trigger autosave if enabled (a choice transaction awaits its own autosave)
+    if (!this.choiceTransaction && this.autosaveConfig.enabled && this.autosaveConfig.triggers.includes('choice')) {
       this.triggerAutosave('choice', {
         fromNodeId,
         toNodeId,
@@ -754,30 +2089,11 @@ export class QNCEEngine {
           storyId: (this.storyData as any)?.id,
           cause: error
         });
-  // eslint-disable-next-line no-console
-  this.logger.warn('[QNCE] ' + serializeStructuredError(struct));
-  try { this.telemetry?.emit({ type: 'engine.structuredError', payload: serializeStructuredError(struct), ts: Date.now(), ctx: this.defaultTelemetryCtx! }); } catch {}
+  this.reportError(struct);
       });
     }
     // Post-choice hooks
-    if (this.postChoiceHooks.length) {
-      const nodeAfter = this.getCurrentNode();
-      for (const hook of this.postChoiceHooks) {
-        try { hook.h({ engine: this, node: nodeAfter, choice }); } catch (e) {
-          const struct = ErrorFactory.hook('post-choice hook error', {
-            hookStage: 'post-choice',
-            nodeId: nodeAfter.id,
-            choiceText: choice.text,
-            // eslint-disable-next-line @typescript-eslint/no-explicit-any
-            storyId: (this.storyData as any)?.id,
-            cause: e
-          });
-          // eslint-disable-next-line no-console
-          this.logger.warn('[QNCE] ' + serializeStructuredError(struct));
-          try { this.telemetry?.emit({ type: 'engine.structuredError', payload: serializeStructuredError(struct), ts: Date.now(), ctx: this.defaultTelemetryCtx! }); } catch {}
-        }
-      }
-    }
+    if (this.postChoiceHooks.length) this.afterCommit(() => this.runPostChoiceHooks(choice));
   if (this.debugMode) globalDebugLogger.log('choice.select.end', { to: this.state.currentNodeId });
     
     // Complete state transition span
@@ -799,9 +2115,7 @@ export class QNCEEngine {
           storyId: (this.storyData as any)?.id,
           cause: error
         });
-  // eslint-disable-next-line no-console
-  this.logger.warn('[QNCE] ' + serializeStructuredError(struct));
-  try { this.telemetry?.emit({ type: 'engine.structuredError', payload: serializeStructuredError(struct), ts: Date.now(), ctx: this.defaultTelemetryCtx! }); } catch {}
+  this.reportError(struct);
       });
       
       // Write telemetry data in background  
@@ -829,9 +2143,10 @@ export class QNCEEngine {
   /** Register a hook */
   registerHook(type: 'pre-choice', handler: PreChoiceHook, priority?: number): () => void;
   registerHook(type: 'post-choice', handler: PostChoiceHook, priority?: number): () => void;
+  registerHook(type: 'timeout', handler: TimeoutHook, priority?: number): () => void;
   // eslint-disable-next-line @typescript-eslint/no-inferrable-types
-  registerHook(type: 'pre-choice' | 'post-choice', handler: PreChoiceHook | PostChoiceHook, priority: number = 0): () => void {
-    const list = type === 'pre-choice' ? this.preChoiceHooks : this.postChoiceHooks;
+  registerHook(type: 'pre-choice' | 'post-choice' | 'timeout', handler: PreChoiceHook | PostChoiceHook | TimeoutHook, priority: number = 0): () => void {
+    const list = type === 'pre-choice' ? this.preChoiceHooks : type === 'post-choice' ? this.postChoiceHooks : this.timeoutHooks;
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const entry = { h: handler as any, p: priority, o: this.hookCounter++ };
     list.push(entry);
@@ -843,7 +2158,126 @@ export class QNCEEngine {
   }
 
   /** Clear all hooks (testing / reset) */
-  clearHooks() { this.preChoiceHooks = []; this.postChoiceHooks = []; }
+  clearHooks() { this.preChoiceHooks = []; this.postChoiceHooks = []; this.timeoutHooks = []; }
+
+  /**
+   * Subscribe to an engine event (nodeEnter, nodeExit, flagChanged, undo, redo, stateLoaded, autosave, storyComplete, error)
+   * @returns Function that removes the listener
+   */
+  on<K extends keyof QNCEEngineEvents>(event: K, listener: EngineEventListener<QNCEEngineEvents, K>): () => void {
+    return this.events.on(event, listener);
+  }
+
+  /** Remove a listener added with on() or once() */
+  off<K extends keyof QNCEEngineEvents>(event: K, listener: EngineEventListener<QNCEEngineEvents, K>): void {
+    this.events.off(event, listener);
+  }
+
+  /**
+   * Subscribe to the next occurrence of an engine event only
+   * @returns Function that removes the listener before it fires
+   */
+  once<K extends keyof QNCEEngineEvents>(event: K, listener: EngineEventListener<QNCEEngineEvents, K>): () => void {
+    return this.events.once(event, listener);
+  }
+
+  /**
+   * Milliseconds left before the current node's timer selects its default choice
+   * @returns undefined when the current node has no timer (0 once it has lapsed)
+   */
+  getTimeRemaining(): number | undefined {
+    if (!this.activeTimer || this.activeTimer.key !== this.nodeTimerKey()) return undefined;
+    return Math.max(0, this.activeTimer.deadline - this.clock.now());
+  }
+
+  /** Identifies one visit to the current node, so re-entering a node restarts its timer */
+  private nodeTimerKey(): string {
+    return `${this.state.currentNodeId}@${this.state.history.length}`;
+  }
+
+  /**
+   * Start, keep or stop the countdown after the current node may have changed.
+   * A running countdown for the same visit is left alone (e.g. undoing a flag change).
+   */
+  private syncNodeTimer(): void {
+    const key = this.nodeTimerKey();
+    if (this.activeTimer?.key === key) return;
+    this.clearNodeTimer();
+    const timer = this.storyData.nodes.find(n => n.id === this.state.currentNodeId)?.timer;
+    if (!timer) return;
+    this.activeTimer = { key, deadline: this.clock.now() + timer.durationMs };
+    this.activeTimer.handle = this.clock.setTimeout(() => this.handleNodeTimeout(key), timer.durationMs);
+  }
+
+  private clearNodeTimer(): void {
+    if (this.activeTimer?.handle !== undefined) this.clock.clearTimeout(this.activeTimer.handle);
+    this.activeTimer = undefined;
+  }
+
+  /** Timer callback: run timeout hooks, then select the node's default choice */
+  private handleNodeTimeout(key: string): void {
+    if (this.activeTimer?.key !== key) return;
+    this.activeTimer.handle = undefined;
+    const node = this.storyData.nodes.find(n => n.id === this.state.currentNodeId);
+    const defaultChoice = node?.timer?.defaultChoice;
+    const index = typeof defaultChoice === 'number'
+      ? defaultChoice
+      : node?.choices.findIndex((c, i) => this.getChoiceId(node.id, c, i) === defaultChoice) ?? -1;
+    const choice = node?.choices[index];
+    if (!node || !choice) {
+      const struct = ErrorFactory.navigation('Timer default choice not found', {
+        nodeId: this.state.currentNodeId,
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        storyId: (this.storyData as any)?.id,
+        defaultChoice
+      });
+      this.reportError(struct);
+      return;
+    }
+    // The default is held to the same rules as the player: hidden or spent choices are not taken
+    if (!this.getChoiceStates().some(state => state.index === index && state.available)) {
+      const struct = ErrorFactory.navigation('Timer default choice is not available', {
+        nodeId: node.id,
+        choiceText: choice.text,
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        storyId: (this.storyData as any)?.id,
+        defaultChoice
+      });
+      this.reportError(struct);
+      return;
+    }
+    if (this.debugMode) globalDebugLogger.log('node.timeout', { nodeId: node.id, choiceText: choice.text });
+
+    const presented = this.presentNode(node);
+    for (const hook of this.timeoutHooks) {
+      try {
+        if (hook.h({ engine: this, node: presented, choice }) === false) return; // cancellation
+      } catch (e) {
+        const struct = ErrorFactory.hook('timeout hook error', {
+          hookStage: 'timeout',
+          nodeId: node.id,
+          choiceText: choice.text,
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          storyId: (this.storyData as any)?.id,
+          cause: e
+        });
+        this.reportError(struct);
+      }
+    }
+
+    try {
+      this.selectChoice(choice);
+    } catch (e) {
+      const struct = ErrorFactory.navigation('Timed default choice failed', {
+        nodeId: node.id,
+        choiceText: choice.text,
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        storyId: (this.storyData as any)?.id,
+        cause: e
+      });
+      this.reportError(struct);
+    }
+  }
 
   /** Enable verbose debug logging (stored in ring buffer) */
   enableDebug() { this.debugMode = true; globalDebugLogger.setEnabled(true); }
@@ -862,6 +2296,7 @@ export class QNCEEngine {
   resetNarrative(): void {
     // Sprint 3.5: Save state for undo before reset
     const preChangeState = this.deepCopy(this.state);
+    const previousFlags = { ...this.state.flags };
     
     // Clean up pooled objects before reset
     if (this.performanceMode) {
@@ -869,8 +2304,23 @@ export class QNCEEngine {
     }
     
     this.state.currentNodeId = this.storyData.initialNodeId;
-    this.state.flags = {};
+    this.state.flags = this.flagSchema.defaults();
     this.state.history = [this.storyData.initialNodeId];
+    const initialInventory = this.storyData.inventory?.initial;
+    if (initialInventory) this.state.inventory = { ...initialInventory };
+    else delete this.state.inventory;
+    delete this.state.quests;
+    if (this.storyData.gameClock) this.state.gameTime = this.gameCalendar.start;
+    else delete this.state.gameTime;
+    delete this.state.rngState; // replay the same random sequence from the seed
+    delete this.state.visitCounts;
+    delete this.state.choiceCounts;
+    delete this.state.callStack;
+    this.recordVisit(this.storyData.initialNodeId);
+    this.applyNodeEffects(this.storyData.initialNodeId, 'onEnter');
+    this.followRedirects();
+    this.syncNodeTimer();
+    this.emitTransitionEvents(undefined, this.state.history, previousFlags);
     
     // Sprint 3.5: Track state change for undo/redo
     if (this.undoRedoConfig.enabled && !this.isUndoRedoOperation && 
@@ -881,6 +2331,11 @@ export class QNCEEngine {
     }
   }
 
+  /** Declared defaults filled in under restored flags, for flags the restored state predates */
+  private withFlagDefaults(flags: Record<string, unknown>): Record<string, unknown> {
+    return this.flagSchema.declared ? { ...this.flagSchema.defaults(), ...flags } : flags;
+  }
+
   /**
    * Load simple state (legacy method for backward compatibility)
    * @param state - QNCEState to load
@@ -889,7 +2344,9 @@ export class QNCEEngine {
     // Sprint 3.5: Save state for undo before loading
     const preChangeState = this.deepCopy(this.state);
     
-    this.state = { ...state };
+    this.state = { ...state, flags: this.withFlagDefaults(state.flags) };
+    this.syncNodeTimer();
+    this.events.emit('stateLoaded', { nodeId: this.state.currentNodeId, source: 'state' });
     
     // Sprint 3.5: Track state change for undo/redo
     if (this.undoRedoConfig.enabled && !this.isUndoRedoOperation && 
@@ -934,14 +2391,18 @@ export class QNCEEngine {
         compression: options.compression || 'none'
       };
 
-      // Build serialized state
+      // Build serialized state; saves taken before the first draw still pin the RNG position, so an
+      // engine with a different seed replays the same sequence
       const serializedState: SerializedState = {
-        state: this.deepCopy(this.state),
+        state: { ...this.deepCopy(this.state), rngState: this.state.rngState ?? this.rngSeed },
         flowEvents: options.includeFlowEvents !== false ? 
           this.deepCopy(this.activeFlowEvents) : [],
         metadata
       };
 
+      const pluginState = this.plugins.serialize();
+      if (Object.keys(pluginState).length > 0) serializedState.pluginState = pluginState;
+
       // Add optional data based on options
       if (options.includePerformanceData && this.performanceMode) {
         serializedState.performanceState = {
@@ -1065,8 +2526,17 @@ export class QNCEEngine {
         stateToLoad = options.migrationFunction(serializedState);
       }
 
+      // Saves made inside lazy modules need those modules before the state can be presented
+      for (const namespace of this.pendingModulesFor([stateToLoad.state.currentNodeId, ...(stateToLoad.state.callStack || [])])) {
+        await this.loadModule(namespace);
+      }
+
       // Load core state
       this.state = this.deepCopy(stateToLoad.state);
+      this.state.flags = this.withFlagDefaults(this.state.flags);
+      if (stateToLoad.pluginState) this.plugins.deserialize(this.deepCopy(stateToLoad.pluginState));
+      this.syncNodeTimer();
+      this.events.emit('stateLoaded', { nodeId: this.state.currentNodeId, source: 'save' });
 
       // Restore optional data based on options
       if (options.restoreFlowEvents && stateToLoad.flowEvents) {
@@ -1190,6 +2660,8 @@ export class QNCEEngine {
 
       // Restore state
       this.state = this.deepCopy(checkpoint.state);
+      this.syncNodeTimer();
+      this.events.emit('stateLoaded', { nodeId: this.state.currentNodeId, source: 'checkpoint', checkpointId });
 
       const duration = performance.now() - startTime;
 
@@ -1260,15 +2732,52 @@ export class QNCEEngine {
   validateChoice(choice: Choice): ValidationResult {
     const currentNode = this.getCurrentNode();
     const availableChoices = this.getAvailableChoices();
-    const context = createValidationContext(
+    const context = this.createChoiceValidationContext(
       currentNode,
-      this.state,
       availableChoices
     );
     
     return this.choiceValidator.validate(choice, context);
   }
 
+  /**
+   * Every choice of the current node with its availability, so UIs can show locked choices
+   * greyed out: the failing checks (Choice.condition and validator rules), their reasons and the
+   * author's lockedMessage. Spent once-only choices are left out, as in getAvailableChoices().
+   */
+  getChoiceStates(): ChoiceState[] {
+    const currentNode = this.getCurrentNode();
+    const conditionContext = this.createConditionContext();
+    const validationContext = this.createChoiceValidationContext(currentNode, currentNode.choices);
+    const states: ChoiceState[] = [];
+    currentNode.choices.forEach((choice, index) => {
+      if (this.isChoiceSpent(currentNode.id, choice, index)) return;
+      const failedRules: string[] = [];
+      const reasons: string[] = [];
+      if (!this.passesChoiceCondition(choice, conditionContext)) {
+        failedRules.push('condition');
+        reasons.push(`Condition not met: ${choice.condition}`);
+      }
+      const validation = this.choiceValidator.validate(choice, validationContext);
+      if (!validation.isValid) {
+        // Custom validators may fail a choice outside their listed rules
+        const failures = findFailedRules(this.choiceValidator, choice, validationContext);
+        if (failures.length === 0) failures.push({ rule: String(validation.metadata?.failedRule ?? 'validator'), reason: validation.reason });
+        failures.forEach(failure => {
+          failedRules.push(failure.rule);
+          reasons.push(failure.reason ?? `Rule ${failure.rule} failed`);
+        });
+      }
+      const available = failedRules.length === 0;
+      const localizedMessage = !available && choice.lockedMessage !== undefined
+        ? this.localizeText(lockedMessageKey(currentNode.id, choice, index), choice.lockedMessage)
+        : undefined;
+      const lockedMessage = localizedMessage !== undefined && this.storyData.templating ? this.renderText(localizedMessage) : localizedMessage;
+      states.push({ choice, index, available, failedRules, reasons, ...(lockedMessage !== undefined ? { lockedMessage } : {}) });
+    });
+    return states;
+  }
+
   /**
    * Check if a specific choice is valid without executing it
    * @param choice - The choice to check
@@ -1407,7 +2916,7 @@ export class QNCEEngine {
     }
 
     // Create branching engine with current state
-    this.branchingEngine = createBranchingEngine(story, this.state);
+    this.branchingEngine = createBranchingEngine(story, this.state, { random: this.randomSource });
 
     if (this.enableProfiling) {
       perf.record('custom', {
@@ -1536,10 +3045,13 @@ export class QNCEEngine {
    * @returns Story hash string
    */
   private generateStoryHash(): string {
+    // Nodes of lazy modules are identified by their namespace so saves match before and after loading
+    const nodeIds = this.storyData.nodes.map(n => n.id).filter(id => !this.lazyModules.has(getModuleNamespace(id) ?? ''));
     const storyString = JSON.stringify({
       initialNodeId: this.storyData.initialNodeId,
-      nodeCount: this.storyData.nodes.length,
-      nodeIds: this.storyData.nodes.map(n => n.id).sort()
+      nodeCount: nodeIds.length,
+      nodeIds: nodeIds.sort(),
+      ...(this.lazyModules.size ? { modules: Array.from(this.lazyModules).sort() } : {})
     });
     
     // Simple hash function (in production, use crypto.subtle.digest)
@@ -1622,6 +3134,12 @@ export class QNCEEngine {
       if (!serializedState.state.history) {
         warnings.push('Missing history in state');
       }
+      const callStack = serializedState.state.callStack;
+      if (callStack !== undefined && (!Array.isArray(callStack) || callStack.some(id => typeof id !== 'string'))) {
+        errors.push('Invalid callStack in state: expected an array of node ids');
+      } else if (callStack?.some(id => !this.storyData.nodes.some(n => n.id === id))) {
+        warnings.push('callStack references nodes not in the current story');
+      }
     }
 
     if (!serializedState.metadata) {
@@ -1823,11 +3341,11 @@ export class QNCEEngine {
     // a minimal placeholder state reference to satisfy existing types.
     const LIGHT_STATE_KEY = '__lightState';
   const prevHist = (state as unknown as { history?: string[] })?.history;
-  const lightState = { currentNodeId: state.currentNodeId, flags: { ...state.flags }, history: [...(Array.isArray(prevHist) ? prevHist : this.state.history)] };
+  const lightState = this.captureLightState({ ...state, history: Array.isArray(prevHist) ? prevHist : this.state.history });
     const entry: HistoryEntry = {
       id: this.generateHistoryId(),
       // Keep original deep copy for compatibility OFF for now -> minimal placeholder with current fields.
-  state: this.deepCopy({ currentNodeId: state.currentNodeId, flags: { ...state.flags }, history: [...(Array.isArray(prevHist) ? prevHist : this.state.history)] }) as QNCEState,
+  state: this.deepCopy(lightState),
       timestamp: new Date().toISOString(),
       action,
       metadata: { ...(metadata || {}), [LIGHT_STATE_KEY]: lightState }
@@ -1877,10 +3395,10 @@ export class QNCEEngine {
       // Save current state to redo stack
       const currentEntry: HistoryEntry = {
         id: this.generateHistoryId(),
-  state: this.deepCopy({ currentNodeId: this.state.currentNodeId, flags: { ...this.state.flags }, history: [...this.state.history] }) as QNCEState,
+  state: this.captureLightState(this.state),
         timestamp: new Date().toISOString(),
         action: 'redo-point',
-  metadata: { __lightState: { currentNodeId: this.state.currentNodeId, flags: { ...this.state.flags }, history: [...this.state.history] } }
+  metadata: { __lightState: this.captureLightState(this.state) }
       };
       
       this.redoStack.push(currentEntry);
@@ -1898,13 +3416,12 @@ export class QNCEEngine {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any -- metadata may carry lightweight snapshot
   const light = (entryToRestore.metadata as any)?.__lightState;
       if (light) {
-        this.state.currentNodeId = light.currentNodeId;
-        this.state.flags = { ...light.flags };
-        if (Array.isArray(light.history)) this.state.history = [...light.history];
+        this.restoreLightState(light);
       } else {
         this.state = this.deepCopy(entryToRestore.state);
       }
       this.isUndoRedoOperation = false;
+      this.syncNodeTimer();
 
       const duration = performance.now() - startTime;
       
@@ -1917,6 +3434,12 @@ export class QNCEEngine {
           redoCount: this.redoStack.length
         });
       }
+      this.events.emit('undo', {
+        nodeId: this.state.currentNodeId,
+        action: entryToRestore.action,
+        undoCount: this.undoStack.length,
+        redoCount: this.redoStack.length
+      });
 
       return {
         success: true,
@@ -1970,10 +3493,10 @@ export class QNCEEngine {
       // Save current state to undo stack
       const currentEntry: HistoryEntry = {
         id: this.generateHistoryId(),
-  state: this.deepCopy({ currentNodeId: this.state.currentNodeId, flags: { ...this.state.flags }, history: [...this.state.history] }) as QNCEState,
+  state: this.captureLightState(this.state),
         timestamp: new Date().toISOString(),
         action: 'undo-point',
-  metadata: { __lightState: { currentNodeId: this.state.currentNodeId, flags: { ...this.state.flags }, history: [...this.state.history] } }
+  metadata: { __lightState: this.captureLightState(this.state) }
       };
       
       this.undoStack.push(currentEntry);
@@ -1991,13 +3514,12 @@ export class QNCEEngine {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any -- metadata may carry lightweight snapshot
   const light = (entryToRestore.metadata as any)?.__lightState;
       if (light) {
-        this.state.currentNodeId = light.currentNodeId;
-        this.state.flags = { ...light.flags };
-        if (Array.isArray(light.history)) this.state.history = [...light.history];
+        this.restoreLightState(light);
       } else {
         this.state = this.deepCopy(entryToRestore.state);
       }
       this.isUndoRedoOperation = false;
+      this.syncNodeTimer();
 
       const duration = performance.now() - startTime;
       
@@ -2010,6 +3532,12 @@ export class QNCEEngine {
           redoCount: this.redoStack.length
         });
       }
+      this.events.emit('redo', {
+        nodeId: this.state.currentNodeId,
+        action: entryToRestore.action,
+        undoCount: this.undoStack.length,
+        redoCount: this.redoStack.length
+      });
 
       return {
         success: true,
@@ -2157,13 +3685,15 @@ export class QNCEEngine {
         });
       }
       
-      return {
+      const result: AutosaveResult = {
         success: true,
         checkpointId: checkpoint.id,
         trigger,
         duration,
         size: JSON.stringify(checkpoint.state).length
       };
+      this.events.emit('autosave', result);
+      return result;
       
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown autosave error';
@@ -2226,8 +3756,21 @@ export class QNCEEngine {
    * @param expression - Condition expression to validate
    * @returns Validation result
    */
-  validateCondition(expression: string): { valid: boolean; error?: string } {
-    return conditionEvaluator.validateExpression(expression);
+  validateCondition(expression: string): { valid: boolean; error?: string; position?: number } {
+    return conditionEvaluator.validateExpression(expression, this.conditionFunctions);
+  }
+
+  /**
+   * Make a function callable from this engine's condition expressions and templates.
+   * Declare `params` to have calls checked for arity and literal argument types.
+   * @throws Error for reserved or already registered names (built-ins included)
+   */
+  registerConditionFunction(name: string, entry: ConditionFunctionEntry): void {
+    assertConditionFunctionName(name);
+    if (Object.prototype.hasOwnProperty.call(this.conditionFunctions, name) || Object.prototype.hasOwnProperty.call(BUILTIN_CONDITION_FUNCTIONS, name)) {
+      throw new Error(`Condition function already registered: ${name}`);
+    }
+    this.conditionFunctions[name] = entry;
   }
 
   /**
@@ -2252,7 +3795,7 @@ export function createQNCEEngine(
   initialState?: Partial<QNCEState>, 
   performanceMode = false,
   threadPoolConfig?: Partial<ThreadPoolConfig>,
-  options?: { telemetry?: import('../telemetry/types').Telemetry; env?: 'dev' | 'test' | 'prod'; appVersion?: string; sessionId?: string; suppressTelemetryWarnings?: boolean; logger?: Logger; minimalTelemetry?: boolean }
+  options?: { telemetry?: import('../telemetry/types').Telemetry; env?: 'dev' | 'test' | 'prod'; appVersion?: string; sessionId?: string; suppressTelemetryWarnings?: boolean; logger?: Logger; minimalTelemetry?: boolean; seed?: number | string; clock?: EngineClock; flagStrictness?: FlagStrictness; locale?: string; moduleResolver?: StoryModuleResolver; metaProgress?: MetaProgressStore }
 ): QNCEEngine {
   return new QNCEEngine(storyData, initialState, performanceMode, threadPoolConfig, options);
 }
@@ -2265,6 +3808,8 @@ export function createQNCEEngine(
  * @public
  */
 export function loadStoryData(jsonData: unknown): StoryData {
+  // Story manifests: compose inline modules; modules given by source stay pending for engine.loadModule()
+  if (isStoryManifest(jsonData)) return composeStoryModules(jsonData);
   // Add validation here in the future
   return jsonData as StoryData;
 }
@@ -0,0 +1,125 @@
+// QNCE Dialogue
+// Structured dialogue lines on nodes (NarrativeNode.dialogue) and the character registry they
+// refer to (StoryData.characters). Lines are localized and templated like node text; the engine
+// attaches the speaking character, its display name and the portrait for the line's emotion.
+
+/**
+ * Character declared in StoryData.characters
+ * @public
+ */
+export interface CharacterDefinition {
+  id: string;
+  /** Display name (localizable under the `character.<id>.name` text key) */
+  name?: string;
+  /** Portrait keys or image URLs by emotion; `default` is used for lines without a matching emotion */
+  portraits?: Record<string, string>;
+  /** UI hint for the speaker label */
+  color?: string;
+  /** Custom character data */
+  meta?: Record<string, unknown>;
+}
+
+/**
+ * One line of dialogue in a node
+ * @public
+ */
+export interface DialogueLine {
+  /** Character id; absent for narration */
+  speaker?: string;
+  /** Emotion / portrait key for this line */
+  emotion?: string;
+  text: string;
+  /** Key into StoryData.locales (see NarrativeNode.textKey) */
+  textKey?: string;
+}
+
+/**
+ * Dialogue line as presented by the engine, with its character resolved
+ * @public
+ */
+export interface PresentedDialogueLine extends DialogueLine {
+  character?: CharacterDefinition;
+  /** Localized character name, else the speaker id */
+  speakerName?: string;
+  /** Portrait for the line's emotion, else the character's default portrait */
+  portrait?: string;
+}
+
+/**
+ * Looks up declared characters
+ * @public
+ */
+export class CharacterRegistry {
+  private readonly characters: Map<string, CharacterDefinition>;
+
+  constructor(characters: CharacterDefinition[] = []) {
+    this.characters = new Map(characters.map(character => [character.id, character]));
+  }
+
+  /** Whether any characters are declared */
+  get declared(): boolean {
+    return this.characters.size > 0;
+  }
+
+  getCharacter(id: string): CharacterDefinition | undefined {
+    return this.characters.get(id);
+  }
+
+  getCharacters(): CharacterDefinition[] {
+    return Array.from(this.characters.values());
+  }
+
+  /** Portrait for a character and emotion (falls back to the `default` portrait) */
+  getPortrait(id: string, emotion?: string): string | undefined {
+    const portraits = this.characters.get(id)?.portraits;
+    if (!portraits) return undefined;
+    return (emotion !== undefined ? portraits[emotion] : undefined) ?? portraits.default;
+  }
+}
+
+// `Name: line` or `Name (emotion): line`; the name starts with a letter and stays short
+const SPEAKER_LINE = /^([A-Za-z][\w .'-]{0,39}?)\s*(?:\(([\w -]{1,30})\))?:\s+(\S.*)$/;
+
+/**
+ * Character id for a speaker name as written in source text (`Old Tom` -> `old-tom`)
+ * @public
+ */
+export function speakerIdFromName(name: string): string {
+  return name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+/**
+ * Split text that follows the `Name: line` / `Name (emotion): line` convention into dialogue
+ * lines. Other non-empty lines become narration. Returns undefined when no line names a speaker.
+ * @param text - Source text, one line of dialogue or narration per line
+ * @public
+ */
+export function parseSpeakerLines(text: string): { lines: DialogueLine[]; characters: CharacterDefinition[] } | undefined {
+  const lines: DialogueLine[] = [];
+  const characters = new Map<string, CharacterDefinition>();
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (!line) continue;
+    const match = SPEAKER_LINE.exec(line);
+    if (!match) {
+      lines.push({ text: line });
+      continue;
+    }
+    const name = match[1].trim();
+    const speaker = speakerIdFromName(name);
+    if (!characters.has(speaker)) characters.set(speaker, { id: speaker, name });
+    lines.push({ speaker, ...(match[2] ? { emotion: match[2].trim() } : {}), text: match[3] });
+  }
+  if (characters.size === 0) return undefined;
+  return { lines, characters: Array.from(characters.values()) };
+}
+
+/**
+ * Union of character lists, keeping the first definition of each id
+ * @public
+ */
+export function mergeCharacters(...lists: CharacterDefinition[][]): CharacterDefinition[] {
+  const merged = new Map<string, CharacterDefinition>();
+  lists.flat().forEach(character => { if (!merged.has(character.id)) merged.set(character.id, character); });
+  return Array.from(merged.values());
+}
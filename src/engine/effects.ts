@@ -0,0 +1,163 @@
+// QNCE Flag Effects
+// Declarative operators for `flagEffects` (choices and node onEnter/onExit).
+// Plain values overwrite the flag; an object whose keys are all `$operators` updates it.
+// Unknown operators and mistyped operands are rejected when applied (wrap literal `$` objects in `$set`).
+// Expression-valued effects (`$expr`) go through the safe condition evaluator (no eval).
+
+import { conditionEvaluator, ConditionContext } from './condition';
+import { StateError } from './errors';
+
+/**
+ * Operator object accepted as a flag effect value.
+ * Applied in this order: `$set`/`$expr` → `$inc`/`$dec` → `$toggle` → `$push`/`$remove` → `$min`/`$max`.
+ * @public
+ */
+export interface FlagOperation {
+  /** Replace the value (useful for literal objects whose keys start with `$`) */
+  $set?: unknown;
+  /** Replace the value with the result of a condition-grammar expression */
+  $expr?: string;
+  /** Add to a numeric flag (missing flags count as 0) */
+  $inc?: number;
+  /** Subtract from a numeric flag (missing flags count as 0) */
+  $dec?: number;
+  /** Invert a boolean flag */
+  $toggle?: true;
+  /** Append an item to an array flag (missing flags start as []) */
+  $push?: unknown;
+  /** Remove every occurrence of an item from an array flag */
+  $remove?: unknown;
+  /** Lower bound clamp for numeric results */
+  $min?: number;
+  /** Upper bound clamp for numeric results */
+  $max?: number;
+}
+
+/**
+ * Callback invoked when a flag effect cannot be applied; the flag keeps its previous value.
+ * @public
+ */
+export type FlagEffectErrorHandler = (error: unknown, flag: string) => void;
+
+/** @public */
+export const FLAG_OPERATORS = ['$set', '$expr', '$inc', '$dec', '$toggle', '$push', '$remove', '$min', '$max'] as const;
+
+const OPERATOR_SET = new Set<string>(FLAG_OPERATORS);
+
+/**
+ * Whether an effect value is an operator object (every key is `$`-prefixed)
+ * @public
+ */
+export function isFlagOperation(value: unknown): value is FlagOperation {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false;
+  const keys = Object.keys(value);
+  return keys.length > 0 && keys.every(k => k.startsWith('$'));
+}
+
+const isFiniteNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+
+/** Unknown operators and wrongly typed operands in an operator object (expression syntax is not checked) */
+function operationProblems(op: Record<string, unknown>): string[] {
+  const problems: string[] = [];
+  for (const key of Object.keys(op)) {
+    if (!OPERATOR_SET.has(key)) problems.push(`unknown operator ${key}`);
+  }
+  for (const key of ['$inc', '$dec', '$min', '$max'] as const) {
+    if (key in op && !isFiniteNumber(op[key])) problems.push(`${key} expects a number`);
+  }
+  if ('$toggle' in op && op.$toggle !== true) problems.push('$toggle expects true');
+  if ('$set' in op && '$expr' in op) problems.push('$set and $expr cannot be combined');
+  if ('$expr' in op && typeof op.$expr !== 'string') problems.push('$expr expects an expression string');
+  if (isFiniteNumber(op.$min) && isFiniteNumber(op.$max) && op.$min > op.$max) problems.push('$min is greater than $max');
+  return problems;
+}
+
+function applyOperation(flag: string, current: unknown, op: FlagOperation, context: ConditionContext): unknown {
+  const problems = operationProblems(op as Record<string, unknown>);
+  if (problems.length > 0) throw new StateError(`Invalid flag effect for '${flag}': ${problems.join('; ')}`, { flag, effect: op });
+
+  let value = current;
+  if ('$set' in op) value = op.$set;
+  if (op.$expr !== undefined) value = conditionEvaluator.evaluateValue(op.$expr, context);
+
+  if (op.$inc !== undefined || op.$dec !== undefined) {
+    const base = value === undefined ? 0 : value;
+    if (typeof base !== 'number') throw new StateError(`Cannot apply $inc/$dec to non-numeric flag '${flag}'`, { flag, value: base });
+    value = base + (op.$inc ?? 0) - (op.$dec ?? 0);
+  }
+
+  if (op.$toggle) value = !value;
+
+  if ('$push' in op || '$remove' in op) {
+    const list = value === undefined ? [] : value;
+    if (!Array.isArray(list)) throw new StateError(`Cannot apply $push/$remove to non-array flag '${flag}'`, { flag, value: list });
+    let next = '$remove' in op ? list.filter(item => item !== op.$remove) : [...list];
+    if ('$push' in op) next = [...next, op.$push];
+    value = next;
+  }
+
+  if (op.$min !== undefined || op.$max !== undefined) {
+    if (typeof value !== 'number') throw new StateError(`Cannot clamp non-numeric flag '${flag}'`, { flag, value });
+    if (op.$min !== undefined) value = Math.max(op.$min, value as number);
+    if (op.$max !== undefined) value = Math.min(op.$max, value as number);
+  }
+
+  return value;
+}
+
+/**
+ * Apply a flagEffects record to a flags object without mutating it.
+ * Expressions are evaluated against `context`, i.e. the state before this effect set.
+ * @returns New flags object
+ * @public
+ */
+export function applyFlagEffects(
+  flags: Record<string, unknown>,
+  effects: Record<string, unknown>,
+  context: ConditionContext,
+  onError?: FlagEffectErrorHandler
+): Record<string, unknown> {
+  const next = { ...flags };
+  for (const [flag, effect] of Object.entries(effects)) {
+    if (!isFlagOperation(effect)) {
+      next[flag] = effect;
+      continue;
+    }
+    try {
+      next[flag] = applyOperation(flag, next[flag], effect, context);
+    } catch (error) {
+      if (!onError) throw error;
+      onError(error, flag);
+    }
+  }
+  return next;
+}
+
+/**
+ * Validate the shape of a flagEffects record (operators, operand types, expression syntax).
+ * @returns Human-readable problems; empty when valid
+ * @public
+ */
+export function validateFlagEffects(effects: unknown): string[] {
+  if (effects === undefined || effects === null) return [];
+  if (typeof effects !== 'object' || Array.isArray(effects)) return ['flagEffects must be an object'];
+
+  const errors: string[] = [];
+  for (const [flag, effect] of Object.entries(effects as Record<string, unknown>)) {
+    if (!effect || typeof effect !== 'object' || Array.isArray(effect)) continue;
+    const keys = Object.keys(effect);
+    const opKeys = keys.filter(k => k.startsWith('$'));
+    if (opKeys.length === 0) continue;
+    if (opKeys.length !== keys.length) {
+      errors.push(`${flag}: cannot mix operators with plain keys (wrap literal objects in $set)`);
+      continue;
+    }
+    const op = effect as Record<string, unknown>;
+    operationProblems(op).forEach(problem => errors.push(`${flag}: ${problem}`));
+    if (typeof op.$expr === 'string') {
+      const check = conditionEvaluator.validateExpression(op.$expr);
+      if (!check.valid) errors.push(`${flag}: invalid $expr (${check.error})`);
+    }
+  }
+  return errors;
+}
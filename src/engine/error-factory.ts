@@ -17,7 +17,7 @@ export type QNCEErrorKind =
 
 /** Hook execution stage for errors arising inside hooks */
 /** @public */
-export type HookStage = 'pre-choice' | 'post-choice';
+export type HookStage = 'pre-choice' | 'post-choice' | 'timeout';
 
 /** Standardized context captured with every structured error */
 /** @public */
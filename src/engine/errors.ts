@@ -149,6 +149,66 @@ export class StateError extends QNCEError {
   }
 }
 
+/**
+ * Error thrown when an inventory operation is invalid (unknown item, insufficient quantity, capacity)
+ */
+export class InventoryError extends QNCEError {
+  public readonly itemId?: string;
+
+  constructor(message: string, itemId?: string, metadata?: Record<string, unknown>) {
+    super(message, 'INVENTORY_ERROR', {
+      ...metadata,
+      itemId
+    });
+    this.itemId = itemId;
+  }
+}
+
+/**
+ * Error thrown when a quest update is invalid (unknown quest, objective or status)
+ */
+export class QuestError extends QNCEError {
+  public readonly questId?: string;
+
+  constructor(message: string, questId?: string, metadata?: Record<string, unknown>) {
+    super(message, 'QUEST_ERROR', {
+      ...metadata,
+      questId
+    });
+    this.questId = questId;
+  }
+}
+
+/**
+ * Error thrown when a plugin cannot be registered (duplicate name)
+ */
+export class PluginError extends QNCEError {
+  public readonly pluginName: string;
+
+  constructor(message: string, pluginName: string, metadata?: Record<string, unknown>) {
+    super(message, 'PLUGIN_ERROR', {
+      ...metadata,
+      pluginName
+    });
+    this.pluginName = pluginName;
+  }
+}
+
+/**
+ * Error thrown when a flag write breaks the story's declared flag schema
+ */
+export class FlagValidationError extends QNCEError {
+  public readonly flagKey: string;
+
+  constructor(message: string, flagKey: string, metadata?: Record<string, unknown>) {
+    super(message, 'FLAG_VALIDATION_ERROR', {
+      ...metadata,
+      flagKey
+    });
+    this.flagKey = flagKey;
+  }
+}
+
 /**
  * Utility function to check if an error is a QNCE error
  */
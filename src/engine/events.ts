@@ -0,0 +1,122 @@
+// QNCE Engine Events
+// Typed publish/subscribe for engine activity beyond the pre/post-choice hooks: node entry and
+// exit, flag writes, undo/redo, state loads, autosaves, unlocks, quest updates, game time, story completion and errors.
+// Events are emitted after the engine state has changed; a throwing listener never
+// interrupts the engine (it is reported through the emitter's error callback instead).
+
+import type { StructuredQNCEError } from './error-factory';
+import type { AutosaveResult } from './types';
+import type { UnlockKind } from './meta-progress';
+import type { QuestChange } from './quests';
+import type { GameTime } from './game-clock';
+
+/**
+ * Payloads of the events emitted by QNCEEngine, by event name
+ * @public
+ */
+export interface QNCEEngineEvents {
+  /** A node became current (fromNodeId is absent when a playthrough (re)starts) */
+  nodeEnter: { nodeId: string; fromNodeId?: string };
+  /** The current node was left for another node */
+  nodeExit: { nodeId: string; toNodeId: string };
+  /** A flag was written by setFlag() or flag effects */
+  flagChanged: { key: string; oldValue: unknown; newValue: unknown };
+  /** An undo restored an earlier state */
+  undo: { nodeId: string; action?: string; undoCount: number; redoCount: number };
+  /** A redo re-applied an undone state */
+  redo: { nodeId: string; action?: string; undoCount: number; redoCount: number };
+  /** State was replaced from a save, a checkpoint or loadSimpleState() */
+  stateLoaded: { nodeId: string; source: 'save' | 'checkpoint' | 'state'; checkpointId?: string };
+  /** An autosave checkpoint was written */
+  autosave: AutosaveResult;
+  /** The presentation locale changed (engine state is unaffected) */
+  localeChanged: { locale: string; previousLocale?: string };
+  /** A lazy story module was loaded and its nodes added to the story */
+  moduleLoaded: { namespace: string; nodeCount: number };
+  /** An ending or achievement was unlocked for the first time (across playthroughs) */
+  unlocked: { kind: UnlockKind; id: string; nodeId: string; title?: string };
+  /** A quest changed status or had objectives completed, by a choice or updateQuest() */
+  questUpdated: QuestChange;
+  /** The game clock moved forward (choice advanceTime, node durations or advanceTime()) */
+  timeAdvanced: { minutes: number; time: GameTime };
+  /** The playthrough arrived at a node with no choices */
+  storyComplete: { nodeId: string };
+  /** A recoverable engine error was logged */
+  error: { error: StructuredQNCEError };
+}
+
+/**
+ * Listener for one event type
+ * @public
+ */
+export type EngineEventListener<Events, K extends keyof Events> = (payload: Events[K]) => void;
+
+/**
+ * Minimal typed event emitter
+ * @public
+ */
+export class TypedEventEmitter<Events> {
+  private listeners = new Map<keyof Events, Array<EngineEventListener<Events, keyof Events>>>();
+
+  /**
+   * @param onListenerError - Called when a listener throws (listeners after it still run)
+   */
+  constructor(private readonly onListenerError?: (error: unknown, event: keyof Events) => void) {}
+
+  /**
+   * Subscribe to an event
+   * @returns Function that removes the listener
+   */
+  on<K extends keyof Events>(event: K, listener: EngineEventListener<Events, K>): () => void {
+    const list = this.listeners.get(event) || [];
+    list.push(listener as EngineEventListener<Events, keyof Events>);
+    this.listeners.set(event, list);
+    return () => this.off(event, listener);
+  }
+
+  /** Remove a listener added with on() or once() */
+  off<K extends keyof Events>(event: K, listener: EngineEventListener<Events, K>): void {
+    const list = this.listeners.get(event);
+    if (!list) return;
+    const index = list.findIndex(entry => entry === listener || (entry as { original?: unknown }).original === listener);
+    if (index >= 0) list.splice(index, 1);
+    if (list.length === 0) this.listeners.delete(event);
+  }
+
+  /**
+   * Subscribe to the next occurrence of an event only
+   * @returns Function that removes the listener before it fires
+   */
+  once<K extends keyof Events>(event: K, listener: EngineEventListener<Events, K>): () => void {
+    const wrapper = Object.assign((payload: Events[K]) => {
+      this.off(event, wrapper);
+      listener(payload);
+    }, { original: listener });
+    this.on(event, wrapper);
+    return () => this.off(event, wrapper);
+  }
+
+  /** Call every listener of an event in subscription order */
+  emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+    const list = this.listeners.get(event);
+    if (!list) return;
+    for (const listener of [...list]) {
+      try {
+        listener(payload);
+      } catch (error) {
+        this.onListenerError?.(error, event);
+      }
+    }
+  }
+
+  /** Number of listeners for an event */
+  listenerCount(event: keyof Events): number {
+    return this.listeners.get(event)?.length ?? 0;
+  }
+
+  /** Remove all listeners (of one event, or of every event) */
+  removeAllListeners(event?: keyof Events): void {
+    if (event === undefined) this.listeners.clear();
+    else this.listeners.delete(event);
+  }
+}
@@ -0,0 +1,155 @@
+// QNCE Flag Schema
+// Optional declarations for story flags (StoryData.flagSchema): value types, defaults,
+// numeric ranges and enums. The engine seeds defaults from the schema and checks writes
+// from setFlag()/flagEffects against it; qnce-audit uses it to catch undeclared flags.
+
+import { FlagValidationError } from './errors';
+
+/**
+ * Value type of a declared flag
+ * @public
+ */
+export type FlagType = 'boolean' | 'number' | 'string' | 'array' | 'object';
+
+/**
+ * Flag declared in StoryData.flagSchema
+ * @public
+ */
+export interface FlagDefinition {
+  type: FlagType;
+  /** Value the flag starts with on a fresh playthrough (omit to leave the flag unset) */
+  default?: unknown;
+  /** Inclusive lower bound (number flags) */
+  min?: number;
+  /** Inclusive upper bound (number flags) */
+  max?: number;
+  /** Only whole numbers are accepted (number flags) */
+  integer?: boolean;
+  /** Allowed values */
+  enum?: Array<string | number | boolean>;
+  description?: string;
+}
+
+/**
+ * How the engine treats flag writes that break the schema:
+ * 'off' ignores the schema, 'warn' logs and keeps the write, 'error' rejects it
+ * @public
+ */
+export type FlagStrictness = 'off' | 'warn' | 'error';
+
+const FLAG_TYPES: readonly FlagType[] = ['boolean', 'number', 'string', 'array', 'object'];
+
+function typeOfValue(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+/**
+ * Checks flag values against declared flag definitions.
+ * When no flags are declared every write is accepted.
+ * @public
+ */
+export class FlagSchemaModel {
+  private readonly definitions: Map<string, FlagDefinition>;
+
+  constructor(schema: Record<string, FlagDefinition> = {}) {
+    this.definitions = new Map(Object.entries(schema));
+  }
+
+  /** Whether any flags are declared */
+  get declared(): boolean {
+    return this.definitions.size > 0;
+  }
+
+  /** Definition for a flag name, if declared */
+  getDefinition(name: string): FlagDefinition | undefined {
+    return this.definitions.get(name);
+  }
+
+  /** Declared flag names */
+  getNames(): string[] {
+    return Array.from(this.definitions.keys());
+  }
+
+  /** Initial flags built from declared defaults */
+  defaults(): Record<string, unknown> {
+    const flags: Record<string, unknown> = {};
+    for (const [name, definition] of this.definitions) {
+      if (definition.default === undefined) continue;
+      // Copy list/object defaults so playthroughs never share (and mutate) the schema's value
+      flags[name] = typeof definition.default === 'object' ? JSON.parse(JSON.stringify(definition.default)) : definition.default;
+    }
+    return flags;
+  }
+
+  /**
+   * Check a value for a flag
+   * @returns A human-readable problem, or undefined when the write is allowed
+   */
+  check(name: string, value: unknown): string | undefined {
+    if (!this.declared) return undefined;
+    const definition = this.definitions.get(name);
+    if (!definition) return `${name}: flag is not declared`;
+    const actual = typeOfValue(value);
+    if (actual !== definition.type) return `${name}: expected ${definition.type}, got ${actual}`;
+    if (definition.type === 'number') {
+      const n = value as number;
+      if (!Number.isFinite(n)) return `${name}: expected a finite number`;
+      if (definition.integer && !Number.isInteger(n)) return `${name}: expected an integer, got ${n}`;
+      if (definition.min !== undefined && n < definition.min) return `${name}: ${n} is below min ${definition.min}`;
+      if (definition.max !== undefined && n > definition.max) return `${name}: ${n} is above max ${definition.max}`;
+    }
+    if (definition.enum && !definition.enum.includes(value as string | number | boolean)) {
+      return `${name}: ${JSON.stringify(value)} is not one of ${definition.enum.map(v => JSON.stringify(v)).join(', ')}`;
+    }
+    return undefined;
+  }
+
+  /**
+   * Check a value for a flag
+   * @throws FlagValidationError when the value breaks the schema
+   */
+  assertValid(name: string, value: unknown): void {
+    const problem = this.check(name, value);
+    if (problem) throw new FlagValidationError(problem, name, { value });
+  }
+}
+
+/**
+ * Validate flag declarations (known types, consistent ranges, defaults that pass their own rules).
+ * @returns Human-readable problems; empty when valid
+ * @public
+ */
+export function validateFlagSchema(schema: unknown): string[] {
+  if (schema === undefined || schema === null) return [];
+  if (typeof schema !== 'object' || Array.isArray(schema)) return ['flagSchema must be an object'];
+
+  const errors: string[] = [];
+  const valid: Record<string, FlagDefinition> = {};
+  for (const [name, definition] of Object.entries(schema as Record<string, unknown>)) {
+    if (!definition || typeof definition !== 'object' || Array.isArray(definition)) {
+      errors.push(`${name}: definition must be an object`);
+      continue;
+    }
+    const def = definition as FlagDefinition;
+    const before = errors.length;
+    if (!FLAG_TYPES.includes(def.type)) {
+      errors.push(`${name}: unknown type ${JSON.stringify(def.type)}`);
+      continue;
+    }
+    if (def.type !== 'number' && (def.min !== undefined || def.max !== undefined || def.integer)) {
+      errors.push(`${name}: min/max/integer only apply to number flags`);
+    }
+    if (def.min !== undefined && def.max !== undefined && def.min > def.max) errors.push(`${name}: min is greater than max`);
+    if (def.enum !== undefined && (!Array.isArray(def.enum) || def.enum.length === 0)) errors.push(`${name}: enum must be a non-empty array`);
+    if (errors.length === before) valid[name] = def;
+  }
+  const model = new FlagSchemaModel(valid);
+  for (const [name, def] of Object.entries(valid)) {
+    if (def.default === undefined) continue;
+    const problem = model.check(name, def.default);
+    if (problem) errors.push(`default ${problem}`);
+  }
+  return errors;
+}
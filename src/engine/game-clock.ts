@@ -0,0 +1,133 @@
+// QNCE Game Clock
+// In-fiction time for stories with days and hours. The time is a minute count kept in
+// QNCEState.gameTime, so it is saved, loaded and undone with the rest of the state; choices
+// (Choice.advanceTime) and nodes (NarrativeNode.duration) move it forward. GameCalendar turns the
+// count into a day, time of day and weekday, which conditions read as `time.<field>`.
+
+import { StoryDataError } from './errors';
+
+/**
+ * Amount of game time: minutes, or days/hours/minutes
+ * @public
+ */
+export type GameDuration = number | { days?: number; hours?: number; minutes?: number };
+
+/**
+ * Named part of the day, in hours (`from` inclusive, `to` exclusive; wraps past midnight when `from > to`)
+ * @public
+ */
+export interface TimePeriod {
+  from: number;
+  to: number;
+}
+
+/**
+ * Game clock declared in StoryData.gameClock
+ * @public
+ */
+export interface GameClockConfig {
+  /** Game time when a playthrough starts (default day 1, 00:00) */
+  start?: GameDuration;
+  /** Real date and time of game minute 0, for timeRequirements dates (default 1970-01-01T00:00:00Z) */
+  epoch?: string;
+  /** Weekday names, cycled from day 1 */
+  weekdays?: string[];
+  /** Parts of the day by name (default morning 6-12, afternoon 12-18, evening 18-22, night 22-6) */
+  periods?: Record<string, TimePeriod>;
+  /** Clock read by Choice.timeRequirements and `timestamp` in conditions (default 'game') */
+  timeSource?: 'game' | 'real';
+}
+
+/**
+ * Game time broken down for display and conditions (`time.day`, `time.period`, ...)
+ * @public
+ */
+export interface GameTime {
+  /** Minutes since game minute 0 */
+  total: number;
+  /** Day number, starting at 1 */
+  day: number;
+  hour: number;
+  minute: number;
+  /** Zero-padded `HH:MM` */
+  clock: string;
+  weekday?: string;
+  period?: string;
+  /** Epoch milliseconds of this game time (see GameClockConfig.epoch) */
+  timestamp: number;
+}
+
+const MINUTES_PER_DAY = 24 * 60;
+
+const DEFAULT_PERIODS: Record<string, TimePeriod> = {
+  morning: { from: 6, to: 12 },
+  afternoon: { from: 12, to: 18 },
+  evening: { from: 18, to: 22 },
+  night: { from: 22, to: 6 }
+};
+
+/**
+ * Whether an hour falls in [from, to), wrapping past midnight when from > to
+ * @public
+ */
+export function isHourBetween(hour: number, from: number, to: number): boolean {
+  return from <= to ? hour >= from && hour < to : hour >= from || hour < to;
+}
+
+/**
+ * Minutes in a duration
+ * @throws StoryDataError for negative or non-numeric durations
+ * @public
+ */
+export function toGameMinutes(duration: GameDuration): number {
+  const minutes = typeof duration === 'number'
+    ? duration
+    : (duration.days ?? 0) * MINUTES_PER_DAY + (duration.hours ?? 0) * 60 + (duration.minutes ?? 0);
+  if (!Number.isFinite(minutes) || minutes < 0) {
+    throw new StoryDataError(`Invalid game time duration: ${JSON.stringify(duration)}`);
+  }
+  return minutes;
+}
+
+/**
+ * Calendar rules of a story's game clock
+ * @public
+ */
+export class GameCalendar {
+  /** Game time a playthrough starts at, in minutes */
+  readonly start: number;
+  /** Whether timeRequirements and `timestamp` read game time instead of the engine clock */
+  readonly drivesTimestamps: boolean;
+  private readonly epoch: number;
+  private readonly weekdays: string[];
+  private readonly periods: Array<[string, TimePeriod]>;
+
+  constructor(config: GameClockConfig = {}, declared = true) {
+    this.start = config.start !== undefined ? toGameMinutes(config.start) : 0;
+    this.drivesTimestamps = declared && config.timeSource !== 'real';
+    this.epoch = config.epoch !== undefined ? Date.parse(config.epoch) : 0;
+    if (Number.isNaN(this.epoch)) throw new StoryDataError(`Invalid game clock epoch: ${config.epoch}`);
+    this.weekdays = config.weekdays ?? [];
+    this.periods = Object.entries(config.periods ?? DEFAULT_PERIODS);
+  }
+
+  /** Break a minute count down into day, time of day, weekday and period */
+  at(total: number): GameTime {
+    const day = Math.floor(total / MINUTES_PER_DAY) + 1;
+    const minuteOfDay = total - (day - 1) * MINUTES_PER_DAY;
+    const hour = Math.floor(minuteOfDay / 60);
+    const minute = Math.floor(minuteOfDay % 60);
+    const weekday = this.weekdays.length ? this.weekdays[(day - 1) % this.weekdays.length] : undefined;
+    const period = this.periods.find(([, range]) => isHourBetween(hour, range.from, range.to))?.[0];
+    return {
+      total,
+      day,
+      hour,
+      minute,
+      clock: `${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`,
+      ...(weekday !== undefined ? { weekday } : {}),
+      ...(period !== undefined ? { period } : {}),
+      timestamp: this.epoch + total * 60000
+    };
+  }
+}
@@ -0,0 +1,116 @@
+// QNCE Inventory
+// Item definitions and capacity rules for the engine's first-class inventory.
+// Inventories are plain `Record<itemId, quantity>` objects stored in QNCEState; every
+// operation here returns a new object so snapshots (undo/redo, checkpoints) stay intact.
+
+import { InventoryError } from './errors';
+
+/**
+ * Item declared in StoryData.items
+ * @public
+ */
+export interface ItemDefinition {
+  id: string;
+  name?: string;
+  description?: string;
+  /** Maximum quantity of this item that can be held (default: unlimited) */
+  maxStack?: number;
+  /** Custom item data (icons, categories, ...) */
+  meta?: Record<string, unknown>;
+}
+
+/**
+ * Inventory settings declared in StoryData.inventory
+ * @public
+ */
+export interface InventoryConfig {
+  /** Maximum total quantity across all items (default: unlimited) */
+  capacity?: number;
+  /** Items held at the start of a playthrough */
+  initial?: Record<string, number>;
+}
+
+/**
+ * Applies item definitions and capacity limits to inventory records.
+ * When no items are declared any item id is accepted.
+ * @public
+ */
+export class InventoryModel {
+  private readonly definitions: Map<string, ItemDefinition>;
+  readonly capacity?: number;
+
+  constructor(items: ItemDefinition[] = [], config: InventoryConfig = {}) {
+    this.definitions = new Map(items.map(item => [item.id, item]));
+    this.capacity = config.capacity;
+  }
+
+  /** Definition for an item id, if declared */
+  getDefinition(itemId: string): ItemDefinition | undefined {
+    return this.definitions.get(itemId);
+  }
+
+  /** All declared item definitions */
+  getDefinitions(): ItemDefinition[] {
+    return Array.from(this.definitions.values());
+  }
+
+  /** Total quantity of all items held */
+  totalQuantity(inventory: Record<string, number>): number {
+    return Object.values(inventory).reduce((sum, qty) => sum + qty, 0);
+  }
+
+  /**
+   * Add items, enforcing declared ids, per-item maxStack and total capacity
+   * @throws InventoryError when the item is unknown or a limit would be exceeded
+   */
+  add(inventory: Record<string, number>, itemId: string, quantity = 1): Record<string, number> {
+    this.assertQuantity(itemId, quantity);
+    if (this.definitions.size > 0 && !this.definitions.has(itemId)) {
+      throw new InventoryError(`Unknown item: ${itemId}`, itemId);
+    }
+    const next = (inventory[itemId] || 0) + quantity;
+    const maxStack = this.definitions.get(itemId)?.maxStack;
+    if (maxStack !== undefined && next > maxStack) {
+      throw new InventoryError(`Cannot hold more than ${maxStack} of ${itemId}`, itemId, { requested: quantity, held: inventory[itemId] || 0, maxStack });
+    }
+    if (this.capacity !== undefined && this.totalQuantity(inventory) + quantity > this.capacity) {
+      throw new InventoryError(`Inventory capacity (${this.capacity}) exceeded adding ${quantity} ${itemId}`, itemId, { requested: quantity, capacity: this.capacity });
+    }
+    return { ...inventory, [itemId]: next };
+  }
+
+  /**
+   * Remove items; entries that reach zero are dropped
+   * @throws InventoryError when fewer items are held than requested
+   */
+  remove(inventory: Record<string, number>, itemId: string, quantity = 1): Record<string, number> {
+    this.assertQuantity(itemId, quantity);
+    const held = inventory[itemId] || 0;
+    if (held < quantity) {
+      throw new InventoryError(`Cannot remove ${quantity} ${itemId} (have ${held})`, itemId, { requested: quantity, held });
+    }
+    const next = { ...inventory };
+    if (held === quantity) delete next[itemId];
+    else next[itemId] = held - quantity;
+    return next;
+  }
+
+  /**
+   * Apply signed quantity changes (positive adds, negative removes).
+   * Removals run first so a swap can free capacity for its additions.
+   * @throws InventoryError if any change fails (the input is left untouched)
+   */
+  applyChanges(inventory: Record<string, number>, changes: Record<string, number>): Record<string, number> {
+    let next = inventory;
+    const entries = Object.entries(changes);
+    for (const [itemId, delta] of entries) if (delta < 0) next = this.remove(next, itemId, -delta);
+    for (const [itemId, delta] of entries) if (delta > 0) next = this.add(next, itemId, delta);
+    return next;
+  }
+
+  private assertQuantity(itemId: string, quantity: number): void {
+    if (!Number.isInteger(quantity) || quantity <= 0) {
+      throw new InventoryError(`Invalid quantity for ${itemId}: ${quantity}`, itemId);
+    }
+  }
+}
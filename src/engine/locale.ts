@@ -0,0 +1,102 @@
+// QNCE Localization
+// Resolves `textKey` references on nodes and choices against per-locale string tables
+// (StoryData.locales). Lookups walk a fallback chain: the locale itself, its base language
+// ('pt-BR' -> 'pt'), any fallbacks declared in StoryData.localeFallbacks, then the story's
+// defaultLocale. When no table has the key the inline `text` is used.
+// Text without a textKey field (character and item names, quest, ending and achievement text,
+// locked-choice messages) is looked up under derived keys, the same ones qnce-translate extracts.
+
+/**
+ * Locale settings declared on StoryData
+ * @public
+ */
+export interface LocaleConfig {
+  /** String tables by locale, each mapping text keys to translated strings */
+  locales?: Record<string, Record<string, string>>;
+  /** Locale the inline `text` is written in; also the last fallback */
+  defaultLocale?: string;
+  /** Extra fallbacks tried after a locale and its base language, by locale */
+  localeFallbacks?: Record<string, string[]>;
+}
+
+/**
+ * Key of a choice's text: its `textKey`, else `choice.<id>` or `<nodeId>.choice.<index>`
+ * @public
+ */
+export function choiceTextKey(nodeId: string, choice: { id?: string; textKey?: string }, index: number): string {
+  if (choice.textKey) return choice.textKey;
+  return choice.id ? `choice.${choice.id}` : `${nodeId}.choice.${index}`;
+}
+
+/**
+ * Key of a choice's lockedMessage (`<choice text key>.locked`)
+ * @public
+ */
+export function lockedMessageKey(nodeId: string, choice: { id?: string; textKey?: string }, index: number): string {
+  return `${choiceTextKey(nodeId, choice, index)}.locked`;
+}
+
+/**
+ * Looks up translated strings with fallback chains
+ * @public
+ */
+export class LocaleTable {
+  private readonly tables: Record<string, Record<string, string>>;
+  private readonly fallbacks: Record<string, string[]>;
+  private readonly chains = new Map<string, string[]>();
+  readonly defaultLocale?: string;
+
+  constructor(config: LocaleConfig = {}) {
+    this.tables = config.locales || {};
+    this.fallbacks = config.localeFallbacks || {};
+    this.defaultLocale = config.defaultLocale;
+  }
+
+  /** Locales that have a string table */
+  getLocales(): string[] {
+    return Object.keys(this.tables);
+  }
+
+  /** Locales tried, in order, when resolving a key for `locale` */
+  fallbackChain(locale: string | undefined): string[] {
+    const cached = this.chains.get(locale ?? '');
+    if (cached) return cached;
+    const chain: string[] = [];
+    const add = (candidate: string | undefined): void => {
+      if (!candidate || chain.includes(candidate)) return;
+      chain.push(candidate);
+      const base = candidate.split('-')[0];
+      if (base !== candidate) add(base);
+      (this.fallbacks[candidate] || []).forEach(add);
+    };
+    add(locale);
+    add(this.defaultLocale);
+    this.chains.set(locale ?? '', chain);
+    return chain;
+  }
+
+  /**
+   * Translated string for a key
+   * @returns undefined when no locale in the fallback chain defines the key
+   */
+  resolve(key: string, locale: string | undefined): string | undefined {
+    for (const candidate of this.fallbackChain(locale)) {
+      const value = this.tables[candidate]?.[key];
+      if (value !== undefined) return value;
+    }
+    return undefined;
+  }
+
+  /**
+   * Keys missing from each locale's own table (fallbacks are not consulted)
+   * @param keys - Text keys referenced by the story
+   */
+  findMissing(keys: Iterable<string>): Record<string, string[]> {
+    const wanted = Array.from(new Set(keys));
+    const missing: Record<string, string[]> = {};
+    for (const [locale, table] of Object.entries(this.tables)) {
+      missing[locale] = wanted.filter(key => table[key] === undefined);
+    }
+    return missing;
+  }
+}
@@ -0,0 +1,154 @@
+// QNCE Meta Progress
+// Endings and achievements unlocked across playthroughs. Nodes declare what they unlock
+// (NarrativeNode.ending / NarrativeNode.achievement); MetaProgressStore keeps the unlocks outside
+// QNCEState, so resetNarrative(), undo and loading a save never take them away. Persistence goes
+// through any StorageAdapter, wrapped in a SerializedState envelope under its own key.
+
+import { PERSISTENCE_VERSION, type PersistenceResult, type SerializedState, type StorageAdapter } from './types';
+
+/**
+ * Ending or achievement declared on a node
+ * @public
+ */
+export interface UnlockDefinition {
+  /** Unlock id (defaults to the node id) */
+  id?: string;
+  title?: string;
+  description?: string;
+}
+
+/** @public */
+export type UnlockKind = 'ending' | 'achievement';
+
+/**
+ * Declared ending or achievement with its unlock status
+ * @public
+ */
+export interface UnlockStatus {
+  kind: UnlockKind;
+  id: string;
+  /** Node that unlocks it */
+  nodeId: string;
+  title?: string;
+  description?: string;
+  unlocked: boolean;
+  /** Engine clock time of the first unlock */
+  unlockedAt?: number;
+}
+
+/**
+ * Persisted meta progress: first-unlock times by id
+ * @public
+ */
+export interface MetaProgress {
+  endings: Record<string, number>;
+  achievements: Record<string, number>;
+}
+
+const DEFAULT_KEY = 'qnce-meta-progress';
+
+/**
+ * Unlocked endings and achievements, optionally persisted through a storage adapter.
+ * Call load() before starting the engine to pick up earlier playthroughs.
+ * @public
+ */
+export class MetaProgressStore {
+  private progress: MetaProgress = { endings: {}, achievements: {} };
+  private readonly adapter?: StorageAdapter;
+  private readonly key: string;
+
+  /**
+   * @param options.adapter - Where progress is saved (kept in memory only when omitted)
+   * @param options.key - Storage key (default `qnce-meta-progress`; use one per story)
+   */
+  constructor(options: { adapter?: StorageAdapter; key?: string } = {}) {
+    this.adapter = options.adapter;
+    this.key = options.key ?? DEFAULT_KEY;
+  }
+
+  /** Read saved progress from the adapter (keeps the current progress when nothing is saved) */
+  async load(): Promise<void> {
+    const saved = await this.adapter?.load(this.key);
+    const progress = saved?.metadata.customMetadata?.metaProgress as Partial<MetaProgress> | undefined;
+    if (!progress) return;
+    this.progress = {
+      endings: { ...(progress.endings ?? {}), ...this.progress.endings },
+      achievements: { ...(progress.achievements ?? {}), ...this.progress.achievements }
+    };
+  }
+
+  /** Write progress to the adapter */
+  async save(): Promise<PersistenceResult> {
+    if (!this.adapter) return { success: true };
+    const envelope: SerializedState = {
+      state: { currentNodeId: '', flags: {}, history: [] },
+      flowEvents: [],
+      metadata: {
+        engineVersion: PERSISTENCE_VERSION,
+        timestamp: new Date().toISOString(),
+        customMetadata: { metaProgress: this.getProgress() }
+      }
+    };
+    return this.adapter.save(this.key, envelope);
+  }
+
+  /**
+   * Record an unlock
+   * @returns true when it was not unlocked before
+   */
+  unlock(kind: UnlockKind, id: string, at: number = Date.now()): boolean {
+    const record = this.record(kind);
+    if (record[id] !== undefined) return false;
+    record[id] = at;
+    return true;
+  }
+
+  isUnlocked(kind: UnlockKind, id: string): boolean {
+    return this.record(kind)[id] !== undefined;
+  }
+
+  /** Time of the first unlock */
+  getUnlockedAt(kind: UnlockKind, id: string): number | undefined {
+    return this.record(kind)[id];
+  }
+
+  /** Copy of the stored progress */
+  getProgress(): MetaProgress {
+    return { endings: { ...this.progress.endings }, achievements: { ...this.progress.achievements } };
+  }
+
+  /** Forget every unlock (and save when an adapter is attached) */
+  async clear(): Promise<PersistenceResult> {
+    this.progress = { endings: {}, achievements: {} };
+    return this.save();
+  }
+
+  private record(kind: UnlockKind): Record<string, number> {
+    return kind === 'ending' ? this.progress.endings : this.progress.achievements;
+  }
+}
+
+/**
+ * Endings and achievements declared by a story's nodes, in node order
+ * (the first declaration of an id wins)
+ * @public
+ */
+export function collectUnlocks(nodes: Array<{ id: string; ending?: UnlockDefinition; achievement?: UnlockDefinition }>): Array<Omit<UnlockStatus, 'unlocked' | 'unlockedAt'>> {
+  const unlocks = new Map<string, Omit<UnlockStatus, 'unlocked' | 'unlockedAt'>>();
+  for (const node of nodes) {
+    for (const kind of ['ending', 'achievement'] as const) {
+      const definition = node[kind];
+      if (!definition) continue;
+      const id = definition.id ?? node.id;
+      if (unlocks.has(`${kind}:${id}`)) continue;
+      unlocks.set(`${kind}:${id}`, {
+        kind,
+        id,
+        nodeId: node.id,
+        ...(definition.title !== undefined ? { title: definition.title } : {}),
+        ...(definition.description !== undefined ? { description: definition.description } : {})
+      });
+    }
+  }
+  return Array.from(unlocks.values());
+}
@@ -0,0 +1,210 @@
+// QNCE Story Modules
+// A story manifest composes several story files ("modules") under namespaces. Node ids inside a
+// module are local (`market`) and become `<namespace>:<id>` (`chapter2:market`) once composed;
+// references that already contain a namespace point into another module. Modules marked `lazy`
+// are left out of the composed story (listed in StoryData.modules) until the engine loads them.
+// Modules contribute nodes and locale strings; every other StoryData setting lives in the manifest.
+
+import type { StoryData, NarrativeNode } from './core';
+import { StoryDataError } from './errors';
+
+/** Separates a module namespace from a node id */
+export const MODULE_SEPARATOR = ':';
+
+/**
+ * Module entry in a story manifest
+ * @public
+ */
+export interface StoryModuleRef {
+  /** Where to load the module from (path or URL, passed to the module resolver) */
+  source?: string;
+  /** Module content given inline instead of a source */
+  story?: StoryData;
+  /** Load only when first needed (engine.loadModule() or selectChoiceAsync into the module) */
+  lazy?: boolean;
+  /** Source format for file loaders (detected when omitted) */
+  format?: 'json' | 'twison' | 'ink';
+}
+
+/**
+ * Story manifest: shared StoryData settings plus the modules that provide the nodes
+ * @public
+ */
+export interface StoryManifest extends Omit<StoryData, 'nodes' | 'initialNodeId' | 'modules'> {
+  /** Modules by namespace; a string is shorthand for `{ source }` */
+  modules: Record<string, string | StoryModuleRef>;
+  /** Qualified start node (`intro:start`); defaults to the first module's own initialNodeId */
+  initialNodeId?: string;
+  /** Nodes that belong to no module (their ids are used as written) */
+  nodes?: NarrativeNode[];
+}
+
+/**
+ * Loads a module's story data from its source
+ * @public
+ */
+export type StoryModuleResolver = (ref: StoryModuleRef, namespace: string) => Promise<StoryData>;
+
+/**
+ * Link whose target node does not exist in a composed story
+ * @public
+ */
+export interface DanglingModuleLink {
+  fromNodeId: string;
+  toNodeId: string;
+  /** 'unknown-module' when the namespace is not declared, 'missing-node' when the module lacks the node */
+  reason: 'unknown-module' | 'missing-node';
+}
+
+/**
+ * Whether data is a story manifest rather than plain StoryData
+ * @public
+ */
+export function isStoryManifest(data: unknown): data is StoryManifest {
+  const modules = (data as { modules?: unknown } | null)?.modules;
+  return !!modules && typeof modules === 'object' && !Array.isArray(modules);
+}
+
+/**
+ * Namespace of a qualified node id (undefined for ids without one)
+ * @public
+ */
+export function getModuleNamespace(nodeId: string): string | undefined {
+  const index = nodeId.indexOf(MODULE_SEPARATOR);
+  return index > 0 ? nodeId.slice(0, index) : undefined;
+}
+
+/**
+ * Qualify a node reference for a module. Ids that already carry a namespace and engine
+ * targets (`@return`) are returned unchanged; `idPrefix` applies to local ids only.
+ * @public
+ */
+export function qualifyNodeId(nodeId: string, namespace?: string, idPrefix = ''): string {
+  if (nodeId.startsWith('@')) return nodeId;
+  if (!namespace) return `${idPrefix}${nodeId}`;
+  if (getModuleNamespace(nodeId) !== undefined) return nodeId;
+  return `${namespace}${MODULE_SEPARATOR}${idPrefix}${nodeId}`;
+}
+
+/**
+ * Node id an expression's node reference (`visits.a`, `visited("a")`) means when evaluated at
+ * `fromNodeId`. Inside a module, unqualified ids name the module's own node when `exists` knows
+ * it and the id as written otherwise, so composed modules keep their local references.
+ * @public
+ */
+export function resolveNodeReference(nodeId: string, fromNodeId: string, exists: (id: string) => boolean): string {
+  const local = qualifyNodeId(nodeId, getModuleNamespace(fromNodeId));
+  return local !== nodeId && exists(local) ? local : nodeId;
+}
+
+/**
+ * Copy of a module's nodes with ids and node references qualified (see qualifyNodeId)
+ * @public
+ */
+export function namespaceNodes(nodes: NarrativeNode[], namespace?: string, idPrefix = ''): NarrativeNode[] {
+  const qualify = (id: string) => qualifyNodeId(id, namespace, idPrefix);
+  return nodes.map(node => ({
+    ...node,
+    id: qualify(node.id),
+    choices: node.choices.map(choice => ({
+      ...choice,
+      nextNodeId: qualify(choice.nextNodeId),
+      ...(choice.returnTo !== undefined ? { returnTo: qualify(choice.returnTo) } : {})
+    })),
+    ...(node.redirects ? { redirects: node.redirects.map(redirect => ({ ...redirect, nextNodeId: qualify(redirect.nextNodeId) })) } : {})
+  }));
+}
+
+/**
+ * Merge loaded modules into a story. Modules that are neither given in `loaded` nor inline
+ * stay in StoryData.modules as pending.
+ * @param base - A manifest, or a composed story to add modules to
+ * @param loaded - Module story data by namespace
+ * @throws StoryDataError on duplicate node ids or an unknown namespace
+ * @public
+ */
+export function composeStoryModules(base: StoryManifest | StoryData, loaded: Record<string, StoryData> = {}): StoryData {
+  const { modules: declared = {}, nodes: ownNodes = [], initialNodeId, ...settings } = base as StoryManifest;
+  const refs: Record<string, StoryModuleRef> = {};
+  for (const [namespace, ref] of Object.entries(declared)) {
+    if (!namespace || namespace.includes(MODULE_SEPARATOR)) {
+      throw new StoryDataError(`Invalid module namespace: "${namespace}"`);
+    }
+    refs[namespace] = typeof ref === 'string' ? { source: ref } : ref;
+  }
+  for (const namespace of Object.keys(loaded)) {
+    if (!refs[namespace]) throw new StoryDataError(`Unknown module: ${namespace}`);
+  }
+
+  const nodes = [...ownNodes];
+  const seen = new Set(nodes.map(node => node.id));
+  const pending: Record<string, StoryModuleRef> = {};
+  let locales = settings.locales;
+  let firstInitial: string | undefined;
+
+  for (const [namespace, ref] of Object.entries(refs)) {
+    const module = loaded[namespace] ?? ref.story;
+    if (!module) {
+      pending[namespace] = ref;
+      continue;
+    }
+    for (const node of namespaceNodes(module.nodes, namespace)) {
+      if (seen.has(node.id)) throw new StoryDataError(`Duplicate node id across modules: ${node.id}`, undefined, { module: namespace });
+      seen.add(node.id);
+      nodes.push(node);
+    }
+    firstInitial ??= qualifyNodeId(module.initialNodeId, namespace);
+    for (const [locale, table] of Object.entries(module.locales ?? {})) {
+      locales = { ...locales, [locale]: { ...locales?.[locale], ...table } };
+    }
+  }
+
+  const composed: StoryData = {
+    ...settings,
+    initialNodeId: initialNodeId ?? firstInitial ?? nodes[0]?.id ?? '',
+    nodes
+  };
+  if (locales) composed.locales = locales;
+  if (Object.keys(pending).length) composed.modules = pending;
+  return composed;
+}
+
+/**
+ * Load a manifest's module sources through a resolver and compose them
+ * @param options.includeLazy - Also load lazy modules (e.g. for audits and flattening)
+ * @public
+ */
+export async function resolveStoryManifest(
+  manifest: StoryManifest,
+  resolver: StoryModuleResolver,
+  options: { includeLazy?: boolean } = {}
+): Promise<StoryData> {
+  const loaded: Record<string, StoryData> = {};
+  for (const [namespace, entry] of Object.entries(manifest.modules)) {
+    const ref = typeof entry === 'string' ? { source: entry } : entry;
+    if (ref.story || (ref.lazy && !options.includeLazy)) continue;
+    loaded[namespace] = await resolver(ref, namespace);
+  }
+  return composeStoryModules(manifest, loaded);
+}
+
+/**
+ * Links into modules that are loaded (or undeclared) but lack the target node.
+ * Links into pending lazy modules are not reported.
+ * @public
+ */
+export function findDanglingModuleLinks(story: StoryData): DanglingModuleLink[] {
+  const ids = new Set(story.nodes.map(node => node.id));
+  const loadedNamespaces = new Set(story.nodes.map(node => getModuleNamespace(node.id)).filter((ns): ns is string => !!ns));
+  const dangling: DanglingModuleLink[] = [];
+  const check = (fromNodeId: string, toNodeId: string | undefined) => {
+    const namespace = toNodeId ? getModuleNamespace(toNodeId) : undefined;
+    if (!toNodeId || !namespace || ids.has(toNodeId) || story.modules?.[namespace]) return;
+    dangling.push({ fromNodeId, toNodeId, reason: loadedNamespaces.has(namespace) ? 'missing-node' : 'unknown-module' });
+  };
+  for (const node of story.nodes) {
+    node.choices.forEach(choice => { check(node.id, choice.nextNodeId); check(node.id, choice.returnTo); });
+    node.redirects?.forEach(redirect => check(node.id, redirect.nextNodeId));
+  }
+  return dangling;
+}
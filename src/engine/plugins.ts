@@ -0,0 +1,143 @@
+// QNCE Plugins
+// Formal extension point for features bolted onto the engine (engine.use(plugin)). A plugin gets
+// lifecycle callbacks for install, story load, node entry, choices and dispose, and can keep its
+// own state inside saves: serialize() output is stored under SerializedState.pluginState[name] and
+// handed back to deserialize() by loadState(). Callbacks run in priority order (higher first,
+// then registration order); a throwing callback is reported and never interrupts the engine.
+
+import type { Choice, QNCEEngine, StoryData } from './core';
+import { PluginError } from './errors';
+
+/**
+ * Engine plugin registered with engine.use()
+ * @public
+ */
+export interface QNCEPlugin {
+  /** Unique name; also the key of the plugin's saved state */
+  name: string;
+  /** Callback order: higher runs first (default 0) */
+  priority?: number;
+  /** Called once by engine.use(); throwing aborts the registration */
+  install?(engine: QNCEEngine): void;
+  /** Called after install with the current story, and again when loadModule() extends it or a hot-reload patch changes it */
+  onStoryLoad?(story: StoryData, engine: QNCEEngine): void;
+  /** A node became current (fromNodeId is absent when a playthrough (re)starts) */
+  onNodeEnter?(event: { nodeId: string; fromNodeId?: string }, engine: QNCEEngine): void;
+  /** A choice was applied */
+  onChoice?(event: { choice: Choice; fromNodeId: string; toNodeId: string }, engine: QNCEEngine): void;
+  /** JSON-safe plugin state for saveState() (undefined saves nothing) */
+  serialize?(engine: QNCEEngine): unknown;
+  /** Restore the state serialize() returned, when a save containing it is loaded */
+  deserialize?(state: unknown, engine: QNCEEngine): void;
+  /** Called by engine.removePlugin() and engine.dispose() */
+  dispose?(engine: QNCEEngine): void | Promise<void>;
+}
+
+/** Lifecycle callbacks the registry dispatches (install excluded) */
+type PluginCallback = 'onStoryLoad' | 'onNodeEnter' | 'onChoice' | 'serialize' | 'deserialize' | 'dispose';
+
+/**
+ * Ordered plugin list of one engine
+ * @public
+ */
+export class PluginRegistry {
+  private entries: Array<{ plugin: QNCEPlugin; order: number }> = [];
+  private counter = 0;
+
+  /**
+   * @param onError - Called when a callback throws (the remaining plugins still run)
+   */
+  constructor(
+    private readonly engine: QNCEEngine,
+    private readonly onError: (error: unknown, plugin: string, callback: PluginCallback) => void
+  ) {}
+
+  /**
+   * Install and register a plugin, then announce the current story to it
+   * @throws PluginError when a plugin with the same name is registered
+   */
+  add(plugin: QNCEPlugin, story: StoryData): void {
+    if (this.has(plugin.name)) throw new PluginError(`Plugin already registered: ${plugin.name}`, plugin.name);
+    plugin.install?.(this.engine);
+    this.entries.push({ plugin, order: this.counter++ });
+    this.entries.sort((a, b) => ((b.plugin.priority ?? 0) - (a.plugin.priority ?? 0)) || (a.order - b.order));
+    this.call(plugin, 'onStoryLoad', () => plugin.onStoryLoad?.(story, this.engine));
+  }
+
+  /** Dispose and unregister a plugin; returns false when none has the name */
+  async remove(name: string): Promise<boolean> {
+    const entry = this.entries.find(e => e.plugin.name === name);
+    if (!entry) return false;
+    this.entries = this.entries.filter(e => e !== entry);
+    await this.dispose(entry.plugin);
+    return true;
+  }
+
+  has(name: string): boolean {
+    return this.entries.some(e => e.plugin.name === name);
+  }
+
+  get(name: string): QNCEPlugin | undefined {
+    return this.entries.find(e => e.plugin.name === name)?.plugin;
+  }
+
+  /** Registered plugins in callback order */
+  list(): QNCEPlugin[] {
+    return this.entries.map(e => e.plugin);
+  }
+
+  storyLoaded(story: StoryData): void {
+    for (const plugin of this.list()) this.call(plugin, 'onStoryLoad', () => plugin.onStoryLoad?.(story, this.engine));
+  }
+
+  nodeEntered(event: { nodeId: string; fromNodeId?: string }): void {
+    for (const plugin of this.list()) this.call(plugin, 'onNodeEnter', () => plugin.onNodeEnter?.(event, this.engine));
+  }
+
+  choiceMade(event: { choice: Choice; fromNodeId: string; toNodeId: string }): void {
+    for (const plugin of this.list()) this.call(plugin, 'onChoice', () => plugin.onChoice?.(event, this.engine));
+  }
+
+  /** Saved state of every plugin that has some, by plugin name */
+  serialize(): Record<string, unknown> {
+    const states: Record<string, unknown> = {};
+    for (const plugin of this.list()) {
+      this.call(plugin, 'serialize', () => {
+        const state = plugin.serialize?.(this.engine);
+        if (state !== undefined) states[plugin.name] = state;
+      });
+    }
+    return states;
+  }
+
+  /** Hand saved states back to the registered plugins they belong to */
+  deserialize(states: Record<string, unknown>): void {
+    for (const plugin of this.list()) {
+      if (!Object.prototype.hasOwnProperty.call(states, plugin.name)) continue;
+      this.call(plugin, 'deserialize', () => plugin.deserialize?.(states[plugin.name], this.engine));
+    }
+  }
+
+  /** Dispose every plugin, last in callback order first */
+  async disposeAll(): Promise<void> {
+    const plugins = this.list().reverse();
+    this.entries = [];
+    for (const plugin of plugins) await this.dispose(plugin);
+  }
+
+  private async dispose(plugin: QNCEPlugin): Promise<void> {
+    try {
+      await plugin.dispose?.(this.engine);
+    } catch (error) {
+      this.onError(error, plugin.name, 'dispose');
+    }
+  }
+
+  private call(plugin: QNCEPlugin, callback: PluginCallback, run: () => void): void {
+    try {
+      run();
+    } catch (error) {
+      this.onError(error, plugin.name, callback);
+    }
+  }
+}
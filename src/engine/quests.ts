@@ -0,0 +1,179 @@
+// QNCE Quests
+// Quest definitions (StoryData.quests) and the rules for quest progress stored in
+// QNCEState.quests. Like inventories, progress records are plain objects and every operation
+// returns a new record, so undo/redo snapshots and saves stay intact.
+
+import { QuestError } from './errors';
+
+/** @public */
+export type QuestStatus = 'inactive' | 'active' | 'completed' | 'failed';
+
+/**
+ * Step of a quest
+ * @public
+ */
+export interface QuestObjective {
+  id: string;
+  description?: string;
+  /** Not needed for the quest to complete */
+  optional?: boolean;
+}
+
+/**
+ * Quest declared in StoryData.quests
+ * @public
+ */
+export interface QuestDefinition {
+  id: string;
+  title?: string;
+  /** Journal text by status */
+  journal?: Partial<Record<QuestStatus, string>>;
+  objectives?: QuestObjective[];
+  /** Complete the quest once every required objective is done (default true) */
+  autoComplete?: boolean;
+}
+
+/**
+ * Progress of one quest in QNCEState.quests
+ * @public
+ */
+export interface QuestProgress {
+  status: QuestStatus;
+  /** Completed objective ids, in completion order */
+  objectives?: string[];
+}
+
+/**
+ * Quest update from a choice's questEffects or engine.updateQuest(): a new status, or objectives
+ * to complete (which activates an inactive quest) with an optional status
+ * @public
+ */
+export type QuestEffect = QuestStatus | { status?: QuestStatus; complete?: string[] };
+
+/**
+ * What an update changed
+ * @public
+ */
+export interface QuestChange {
+  questId: string;
+  status: QuestStatus;
+  previousStatus: QuestStatus;
+  /** Objectives completed by this update */
+  completedObjectives?: string[];
+}
+
+/**
+ * Quest as shown in a journal
+ * @public
+ */
+export interface QuestJournalEntry {
+  id: string;
+  title?: string;
+  status: QuestStatus;
+  /** Journal text for the current status */
+  text?: string;
+  objectives: Array<QuestObjective & { done: boolean }>;
+}
+
+/** @internal Every quest status, in lifecycle order */
+export const QUEST_STATUSES: readonly QuestStatus[] = ['inactive', 'active', 'completed', 'failed'];
+
+/**
+ * Applies quest definitions to quest progress records.
+ * When no quests are declared any quest id (and objective id) is accepted.
+ * @public
+ */
+export class QuestModel {
+  private readonly definitions: Map<string, QuestDefinition>;
+
+  constructor(quests: QuestDefinition[] = []) {
+    this.definitions = new Map(quests.map(quest => [quest.id, quest]));
+  }
+
+  /** Definition for a quest id, if declared */
+  getDefinition(questId: string): QuestDefinition | undefined {
+    return this.definitions.get(questId);
+  }
+
+  /** All declared quest definitions */
+  getDefinitions(): QuestDefinition[] {
+    return Array.from(this.definitions.values());
+  }
+
+  /** Status of a quest ('inactive' until it is first updated) */
+  status(quests: Record<string, QuestProgress>, questId: string): QuestStatus {
+    return quests[questId]?.status ?? 'inactive';
+  }
+
+  /**
+   * Apply one update. Completing the last required objective of an active quest completes it
+   * unless the quest sets `autoComplete: false` or the update names a status.
+   * @throws QuestError for undeclared quests or objectives and unknown statuses
+   */
+  apply(quests: Record<string, QuestProgress>, questId: string, effect: QuestEffect): { quests: Record<string, QuestProgress>; change?: QuestChange } {
+    const definition = this.definitions.get(questId);
+    if (this.definitions.size > 0 && !definition) throw new QuestError(`Unknown quest: ${questId}`, questId);
+    const { status, complete = [] } = typeof effect === 'string' ? { status: effect } : effect;
+    if (status !== undefined && !QUEST_STATUSES.includes(status)) {
+      throw new QuestError(`Invalid status for quest ${questId}: ${String(status)}`, questId, { status });
+    }
+    const declaredObjectives = definition?.objectives;
+    const unknown = declaredObjectives ? complete.filter(id => !declaredObjectives.some(objective => objective.id === id)) : [];
+    if (unknown.length > 0) throw new QuestError(`Unknown objective of quest ${questId}: ${unknown.join(', ')}`, questId, { objectives: unknown });
+
+    const previousStatus = this.status(quests, questId);
+    const done = quests[questId]?.objectives ?? [];
+    const completedObjectives = complete.filter((id, index) => !done.includes(id) && complete.indexOf(id) === index);
+    const objectives = [...done, ...completedObjectives];
+
+    let next = status ?? (previousStatus === 'inactive' && completedObjectives.length > 0 ? 'active' : previousStatus);
+    if (status === undefined && next === 'active' && completedObjectives.length > 0 && this.requiredDone(definition, objectives)) next = 'completed';
+
+    if (next === previousStatus && completedObjectives.length === 0) return { quests };
+    const progress: QuestProgress = { status: next, ...(objectives.length ? { objectives } : {}) };
+    return {
+      quests: { ...quests, [questId]: progress },
+      change: { questId, status: next, previousStatus, ...(completedObjectives.length ? { completedObjectives } : {}) }
+    };
+  }
+
+  /**
+   * Apply several updates in order
+   * @throws QuestError if any update fails (the input is left untouched)
+   */
+  applyEffects(quests: Record<string, QuestProgress>, effects: Record<string, QuestEffect>): { quests: Record<string, QuestProgress>; changes: QuestChange[] } {
+    let next = quests;
+    const changes: QuestChange[] = [];
+    for (const [questId, effect] of Object.entries(effects)) {
+      const result = this.apply(next, questId, effect);
+      next = result.quests;
+      if (result.change) changes.push(result.change);
+    }
+    return { quests: next, changes };
+  }
+
+  /** Declared and started quests that are not inactive, with their journal text and objectives */
+  journal(quests: Record<string, QuestProgress>): QuestJournalEntry[] {
+    const ids = [...this.definitions.keys(), ...Object.keys(quests).filter(id => !this.definitions.has(id))];
+    return ids.filter(id => this.status(quests, id) !== 'inactive').map(id => {
+      const definition = this.definitions.get(id);
+      const status = this.status(quests, id);
+      const done = quests[id]?.objectives ?? [];
+      const text = definition?.journal?.[status];
+      return {
+        id,
+        ...(definition?.title !== undefined ? { title: definition.title } : {}),
+        status,
+        ...(text !== undefined ? { text } : {}),
+        objectives: (definition?.objectives ?? done.map(objectiveId => ({ id: objectiveId })))
+          .map(objective => ({ ...objective, done: done.includes(objective.id) }))
+      };
+    });
+  }
+
+  private requiredDone(definition: QuestDefinition | undefined, objectives: string[]): boolean {
+    if (!definition?.objectives || definition.autoComplete === false) return false;
+    const required = definition.objectives.filter(objective => !objective.optional);
+    return required.length > 0 && required.every(objective => objectives.includes(objective.id));
+  }
+}
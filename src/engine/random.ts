@@ -0,0 +1,84 @@
+// QNCE Seeded Random
+// Deterministic PRNG (mulberry32) so playthroughs can be reproduced from a seed.
+// The generator state is a single uint32, which the engine keeps in QNCEState so it
+// is serialized with saves and rewound by undo().
+
+/**
+ * Source of uniformly distributed numbers in [0, 1)
+ * @public
+ */
+export type RandomSource = () => number;
+
+/**
+ * Normalize a numeric or string seed into a uint32 generator state
+ * @public
+ */
+export function hashSeed(seed: number | string): number {
+  if (typeof seed === 'number') return seed >>> 0;
+  // FNV-1a over UTF-16 code units
+  let h = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    h ^= seed.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/**
+ * Advance a mulberry32 state by one step
+ * @returns The drawn value in [0, 1) and the next generator state
+ * @public
+ */
+export function nextRandom(state: number): { value: number; state: number } {
+  const next = (state + 0x6d2b79f5) >>> 0;
+  let t = next;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return { value: ((t ^ (t >>> 14)) >>> 0) / 4294967296, state: next };
+}
+
+/**
+ * Standalone seeded generator (the engine uses nextRandom directly on its state)
+ * @public
+ */
+export class SeededRandom {
+  private state: number;
+
+  constructor(seed: number | string) {
+    this.state = hashSeed(seed);
+  }
+
+  /** Next value in [0, 1) */
+  next(): number {
+    const step = nextRandom(this.state);
+    this.state = step.state;
+    return step.value;
+  }
+
+  /** Current generator state (pass to setState to resume the sequence) */
+  getState(): number {
+    return this.state;
+  }
+
+  setState(state: number): void {
+    this.state = state >>> 0;
+  }
+}
+
+/**
+ * Pick an item with probability proportional to its weight.
+ * Items with non-positive or non-finite weights are never picked.
+ * @returns undefined when no item has a positive weight
+ * @public
+ */
+export function weightedPick<T extends { weight: number }>(items: T[], random: RandomSource): T | undefined {
+  const eligible = items.filter(item => Number.isFinite(item.weight) && item.weight > 0);
+  const total = eligible.reduce((sum, item) => sum + item.weight, 0);
+  if (total <= 0) return undefined;
+  let roll = random() * total;
+  for (const item of eligible) {
+    roll -= item.weight;
+    if (roll < 0) return item;
+  }
+  return eligible[eligible.length - 1];
+}
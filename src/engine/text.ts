@@ -0,0 +1,226 @@
+// QNCE Text Templating
+// Resolves `{expr}` substitutions and `{if expr}...{else}...{/if}` spans in node text.
+// Expressions and span conditions go through the safe condition evaluator (no eval).
+
+import { conditionEvaluator, ConditionContext } from './condition';
+import { StoryDataError } from './errors';
+
+/**
+ * Compiled template segment
+ * @public
+ */
+export type TemplateSegment =
+  | { kind: 'text'; value: string }
+  | { kind: 'expr'; expression: string }
+  | { kind: 'if'; branches: Array<{ condition?: string; body: TemplateSegment[] }> };
+
+/**
+ * Callback invoked when a template expression fails at render time.
+ * The failing segment renders as an empty string.
+ * @public
+ */
+export type TemplateErrorHandler = (error: unknown, expression: string) => void;
+
+// Template syntax:
+//   {flags.name}            substitution (any condition-grammar expression)
+//   {if expr}..{/if}        conditional span
+//   {elif expr} / {else}    further branches inside a span
+//   {{ and }}               literal braces
+
+/** Split raw text into literal chunks and tag bodies (content between braces). */
+function scanTemplate(text: string): Array<{ tag: boolean; value: string }> {
+  const parts: Array<{ tag: boolean; value: string }> = [];
+  let literal = '';
+  let i = 0;
+  while (i < text.length) {
+    const ch = text[i];
+    if (ch === '{' && text[i + 1] === '{') { literal += '{'; i += 2; continue; }
+    if (ch === '}' && text[i + 1] === '}') { literal += '}'; i += 2; continue; }
+    if (ch === '}') throw new Error(`Unmatched '}' at position ${i}`);
+    if (ch !== '{') { literal += ch; i++; continue; }
+
+    // Tag: read until the matching close brace, skipping quoted strings
+    const start = i;
+    let depth = 1;
+    let quote: string | null = null;
+    i++;
+    let body = '';
+    while (i < text.length) {
+      const c = text[i];
+      if (quote) {
+        if (c === '\\' && i + 1 < text.length) { body += c + text[i + 1]; i += 2; continue; }
+        if (c === quote) quote = null;
+      } else if (c === '"' || c === "'") {
+        quote = c;
+      } else if (c === '{') {
+        depth++;
+      } else if (c === '}') {
+        depth--;
+        if (depth === 0) break;
+      }
+      body += c;
+      i++;
+    }
+    if (depth !== 0) throw new Error(`Unclosed '{' at position ${start}`);
+    i++; // consume closing brace
+    if (literal) { parts.push({ tag: false, value: literal }); literal = ''; }
+    parts.push({ tag: true, value: body.trim() });
+  }
+  if (literal) parts.push({ tag: false, value: literal });
+  return parts;
+}
+
+/**
+ * Compile template text into a segment tree.
+ * @throws Error when tags are malformed or conditional spans are unbalanced
+ * @public
+ */
+export function compileTemplate(text: string): TemplateSegment[] {
+  const root: TemplateSegment[] = [];
+  // Stack of open conditional spans; each tracks the body currently being filled
+  const stack: Array<{ segment: Extract<TemplateSegment, { kind: 'if' }>; closed: boolean }> = [];
+  const currentBody = (): TemplateSegment[] => {
+    const top = stack[stack.length - 1];
+    if (!top) return root;
+    return top.segment.branches[top.segment.branches.length - 1].body;
+  };
+
+  for (const part of scanTemplate(text)) {
+    if (!part.tag) { currentBody().push({ kind: 'text', value: part.value }); continue; }
+    const tag = part.value;
+    if (tag === '') throw new Error('Empty template tag');
+
+    const ifMatch = /^if\s+(.+)$/s.exec(tag);
+    if (ifMatch) {
+      const segment: Extract<TemplateSegment, { kind: 'if' }> = { kind: 'if', branches: [{ condition: ifMatch[1].trim(), body: [] }] };
+      currentBody().push(segment);
+      stack.push({ segment, closed: false });
+      continue;
+    }
+
+    const elifMatch = /^(?:elif|else\s+if)\s+(.+)$/s.exec(tag);
+    if (elifMatch || tag === 'else') {
+      const top = stack[stack.length - 1];
+      if (!top) throw new Error(`'{${tag}}' outside of an {if} span`);
+      if (top.closed) throw new Error(`'{${tag}}' after '{else}'`);
+      if (elifMatch) {
+        top.segment.branches.push({ condition: elifMatch[1].trim(), body: [] });
+      } else {
+        top.segment.branches.push({ body: [] });
+        top.closed = true;
+      }
+      continue;
+    }
+
+    if (tag === '/if') {
+      if (!stack.pop()) throw new Error("'{/if}' without a matching '{if}'");
+      continue;
+    }
+
+    currentBody().push({ kind: 'expr', expression: tag });
+  }
+
+  if (stack.length > 0) throw new Error("Unclosed '{if}' span");
+  return root;
+}
+
+/** Convert an evaluated expression value into display text */
+function stringifyValue(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  if (Array.isArray(value)) return value.map(stringifyValue).join(', ');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * Renders templated node text against engine state.
+ * Compiled templates are cached per node and recompiled when the source text changes.
+ * @public
+ */
+export class TextTemplateRenderer {
+  private nodeCache: Map<string, { source: string; segments: TemplateSegment[] }> = new Map();
+
+  /**
+   * Quick check whether text contains any template syntax
+   */
+  static hasTemplate(text: string): boolean {
+    return text.includes('{') || text.includes('}');
+  }
+
+  /**
+   * Render node text, compiling and caching the template under the node id.
+   * @throws StoryDataError when the node text is not a valid template
+   */
+  renderNode(nodeId: string, text: string, context: ConditionContext, onError?: TemplateErrorHandler): string {
+    if (!TextTemplateRenderer.hasTemplate(text)) return text;
+    let cached = this.nodeCache.get(nodeId);
+    if (!cached || cached.source !== text) {
+      cached = { source: text, segments: this.compileOrThrow(text, nodeId) };
+      this.nodeCache.set(nodeId, cached);
+    }
+    return this.renderSegments(cached.segments, context, onError);
+  }
+
+  /**
+   * Render arbitrary template text without caching (e.g. choice labels in UIs)
+   */
+  render(text: string, context: ConditionContext, onError?: TemplateErrorHandler): string {
+    if (!TextTemplateRenderer.hasTemplate(text)) return text;
+    return this.renderSegments(this.compileOrThrow(text), context, onError);
+  }
+
+  /** Drop cached templates (all, or a single node after hot-reload) */
+  invalidate(nodeId?: string): void {
+    if (nodeId === undefined) this.nodeCache.clear();
+    else this.nodeCache.delete(nodeId);
+  }
+
+  /** Number of node templates currently cached */
+  get cacheSize(): number {
+    return this.nodeCache.size;
+  }
+
+  private compileOrThrow(text: string, nodeId?: string): TemplateSegment[] {
+    try {
+      return compileTemplate(text);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new StoryDataError(`Invalid text template${nodeId ? ` in node ${nodeId}` : ''}: ${reason}`, undefined, { nodeId, template: text });
+    }
+  }
+
+  private renderSegments(segments: TemplateSegment[], context: ConditionContext, onError?: TemplateErrorHandler): string {
+    let out = '';
+    for (const segment of segments) {
+      switch (segment.kind) {
+        case 'text':
+          out += segment.value;
+          break;
+        case 'expr':
+          try {
+            out += stringifyValue(conditionEvaluator.evaluateValue(segment.expression, context));
+          } catch (error) {
+            onError?.(error, segment.expression);
+          }
+          break;
+        case 'if':
+          for (const branch of segment.branches) {
+            let taken = branch.condition === undefined;
+            if (!taken) {
+              try {
+                taken = conditionEvaluator.evaluate(branch.condition!, context);
+              } catch (error) {
+                onError?.(error, branch.condition!);
+              }
+            }
+            if (taken) {
+              out += this.renderSegments(branch.body, context, onError);
+              break;
+            }
+          }
+          break;
+      }
+    }
+    return out;
+  }
+}
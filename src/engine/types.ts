@@ -57,6 +57,9 @@ export interface SerializedState {
     telemetryData: Record<string, unknown>[];
   };
   
+  /** Saved state of registered plugins, by plugin name (see QNCEPlugin.serialize) */
+  pluginState?: Record<string, unknown>;
+  
   /** Serialization metadata */
   metadata: SerializationMetadata;
 }
@@ -367,6 +370,8 @@ export interface HistoryEntry {
     nodeId?: string;
     choiceText?: string;
     flagsChanged?: string[];
+    /** Flags written by node onExit/onEnter effects during this transition */
+    nodeEffects?: { onExit?: string[]; onEnter?: string[] };
     [key: string]: unknown;
   };
 }
@@ -414,7 +419,7 @@ export interface UndoRedoConfig {
   trackChoiceText: boolean;
   
   /** Actions that should create undo entries */
-  trackActions: ('choice' | 'flag-change' | 'state-load' | 'reset' | 'custom')[];
+  trackActions: ('choice' | 'flag-change' | 'state-load' | 'reset' | 'navigation' | 'inventory-change' | 'quest-change' | 'time-change' | 'custom')[];
 }
 
 /**
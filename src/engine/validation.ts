@@ -25,6 +25,23 @@ export interface ValidationResult {
   metadata?: Record<string, unknown>;
 }
 
+/**
+ * A choice of the current node with its availability, for UIs that show locked choices
+ */
+export interface ChoiceState {
+  /** The choice as presented (localized) */
+  choice: Choice;
+  /** Position in the node's choices */
+  index: number;
+  available: boolean;
+  /** Failing checks: 'condition' for Choice.condition, otherwise validator rule names (e.g. 'inventory-conditions') */
+  failedRules: string[];
+  /** Explanations for the failing checks, in the same order */
+  reasons: string[];
+  /** Author-supplied Choice.lockedMessage (templated when the story uses templating); set only while locked */
+  lockedMessage?: string;
+}
+
 /**
  * Choice validation rule interface for extensible validation logic
  */
@@ -180,7 +197,7 @@ export class StandardValidationRules {
     validate(choice: Choice, context: ValidationContext): ValidationResult {
       if (choice.timeRequirements) {
         const now = new Date();
-        const currentTime = context.timestamp || now.getTime();
+        const currentTime = context.timestamp ?? now.getTime();
         const failures: string[] = [];
         
         if (choice.timeRequirements.availableAfter) {
@@ -233,7 +250,8 @@ export class StandardValidationRules {
     priority: 5,
     validate(choice: Choice, context: ValidationContext): ValidationResult {
       if (choice.inventoryRequirements) {
-        const inventory = context.state.flags.inventory as Record<string, number> || {};
+        // Engine inventory first; stories that predate it may keep counts in flags.inventory
+        const inventory = context.state.inventory ?? (context.state.flags.inventory as Record<string, number>) ?? {};
         const missingItems: string[] = [];
         
         for (const [itemName, requiredQuantity] of Object.entries(choice.inventoryRequirements)) {
@@ -339,6 +357,17 @@ export class DefaultChoiceValidator implements ChoiceValidator {
   }
 }
 
+/**
+ * Every rule of a validator that a choice fails, in priority order
+ * (validate() stops at the first failure)
+ */
+export function findFailedRules(validator: ChoiceValidator, choice: Choice, context: ValidationContext): Array<{ rule: string; reason?: string }> {
+  return validator.getRules().flatMap(rule => {
+    const result = rule.validate(choice, context);
+    return result.isValid ? [] : [{ rule: rule.name, reason: result.reason }];
+  });
+}
+
 /**
  * Factory function to create a choice validator with default rules
  */
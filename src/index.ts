@@ -28,14 +28,171 @@ export {
   ConditionEvaluationError,
   conditionEvaluator,
   type ConditionContext,
-  type CustomEvaluatorFunction
+  type CustomEvaluatorFunction,
+  type ConditionFunction
 } from './engine/condition.js';
 
+// Functions callable from conditions (min, max, abs, random built in; engine.registerConditionFunction)
+export {
+  BUILTIN_CONDITION_FUNCTIONS,
+  assertConditionFunctionName,
+  checkConditionCall,
+  toConditionFunctionDefinition,
+  type ConditionArgType,
+  type ConditionFunctionDefinition,
+  type ConditionFunctionEntry
+} from './engine/condition-functions.js';
+
+// Text templating for node text
+export {
+  TextTemplateRenderer,
+  compileTemplate,
+  type TemplateSegment,
+  type TemplateErrorHandler
+} from './engine/text.js';
+
+// Flag effect operators ($inc, $toggle, $push, ...)
+export {
+  applyFlagEffects,
+  validateFlagEffects,
+  isFlagOperation,
+  FLAG_OPERATORS,
+  type FlagOperation,
+  type FlagEffectErrorHandler
+} from './engine/effects.js';
+
+// Inventory item definitions and capacity rules
+export {
+  InventoryModel,
+  type ItemDefinition,
+  type InventoryConfig
+} from './engine/inventory.js';
+
+// Declared, typed story flags
+export {
+  FlagSchemaModel,
+  validateFlagSchema,
+  type FlagDefinition,
+  type FlagType,
+  type FlagStrictness
+} from './engine/flag-schema.js';
+
+// Typed engine events (engine.on/off/once)
+export {
+  TypedEventEmitter,
+  type QNCEEngineEvents,
+  type EngineEventListener
+} from './engine/events.js';
+
+// Localized node/choice text (StoryData.locales, engine.setLocale)
+export {
+  LocaleTable,
+  choiceTextKey,
+  lockedMessageKey,
+  type LocaleConfig
+} from './engine/locale.js';
+
+// Story modules: manifests composing namespaced story files (lazy modules via engine.loadModule)
+export {
+  MODULE_SEPARATOR,
+  isStoryManifest,
+  getModuleNamespace,
+  qualifyNodeId,
+  resolveNodeReference,
+  namespaceNodes,
+  composeStoryModules,
+  resolveStoryManifest,
+  findDanglingModuleLinks,
+  type StoryManifest,
+  type StoryModuleRef,
+  type StoryModuleResolver,
+  type DanglingModuleLink
+} from './engine/modules.js';
+
+// Structured dialogue (NarrativeNode.dialogue) and the character registry (StoryData.characters)
+export {
+  CharacterRegistry,
+  parseSpeakerLines,
+  speakerIdFromName,
+  mergeCharacters,
+  type CharacterDefinition,
+  type DialogueLine,
+  type PresentedDialogueLine
+} from './engine/dialogue.js';
+
+// Endings and achievements unlocked across playthroughs (NarrativeNode.ending / achievement)
+export {
+  MetaProgressStore,
+  collectUnlocks,
+  type MetaProgress,
+  type UnlockDefinition,
+  type UnlockKind,
+  type UnlockStatus
+} from './engine/meta-progress.js';
+
+// Quests with objectives and journal text (StoryData.quests, Choice.questEffects, `quest.<id>` in conditions)
+export {
+  QuestModel,
+  type QuestDefinition,
+  type QuestObjective,
+  type QuestStatus,
+  type QuestProgress,
+  type QuestEffect,
+  type QuestChange,
+  type QuestJournalEntry
+} from './engine/quests.js';
+
+// In-fiction game clock (StoryData.gameClock, Choice.advanceTime, NarrativeNode.duration, `time.<field>` in conditions)
+export {
+  GameCalendar,
+  toGameMinutes,
+  isHourBetween,
+  type GameClockConfig,
+  type GameDuration,
+  type GameTime,
+  type TimePeriod
+} from './engine/game-clock.js';
+
+// Engine plugins (engine.use)
+export { PluginRegistry, type QNCEPlugin } from './engine/plugins.js';
+
+// Choice availability for locked-choice UIs (engine.getChoiceStates, useQNCE().choiceStates)
+export { findFailedRules, type ChoiceState } from './engine/validation.js';
+
+// Translation round-trip (qnce-translate): string extraction, XLIFF 2.0 / PO, merge
+export {
+  collectTranslatableStrings,
+  extractTranslations,
+  mergeTranslations,
+  findStaleTranslations,
+  translationSourceHash,
+  type TranslationMergeResult
+} from './adapters/translation/strings.js';
+export { XliffAdapter } from './adapters/translation/XliffAdapter.js';
+export { PoAdapter } from './adapters/translation/PoAdapter.js';
+export type { TranslationAdapter, TranslationDocument, TranslationUnit } from './adapters/contracts.js';
+
+// Seeded deterministic RNG
+export {
+  SeededRandom,
+  hashSeed,
+  nextRandom,
+  weightedPick,
+  type RandomSource
+} from './engine/random.js';
+
+// Engine clock for timed choices (ManualClock for deterministic tests)
+export {
+  ManualClock,
+  systemClock,
+  type EngineClock
+} from './engine/clock.js';
+
 // Sprint 4.1: Telemetry primitives (experimental)
 /** @beta @experimental */
 export type { QEvent, Telemetry, TelemetryAdapter, TelemetryOptions } from './telemetry/types.js';
 /** @beta @experimental */
-export { createTelemetry, createTelemetryAdapter, ConsoleAdapter, FileAdapter } from './telemetry/core.js';
+export { createTelemetry, createTelemetryAdapter, createTelemetryPlugin, ConsoleAdapter, FileAdapter } from './telemetry/core.js';
 
 // Sprint 4.2: Quantum primitives (experimental)
 /** @beta @experimental */
@@ -45,7 +202,7 @@ export { Phase, type PhaseContext } from './quantum/phase.js';
 /** @beta @experimental */
 export { FeatureFlags, type FeatureFlagsConfig } from './quantum/flags';
 /** @beta @experimental */
-export { attachQuantumFeatures, type QuantumIntegration } from './quantum/integration';
+export { attachQuantumFeatures, createQuantumPlugin, type QuantumIntegration, type QuantumPlugin } from './quantum/integration';
 /** @beta @experimental */
 export type {
   FeatureFlagKey,
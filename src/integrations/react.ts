@@ -9,6 +9,8 @@
 import { useState, useEffect, useCallback, useMemo } from 'react';
 import { QNCEEngine, type Choice, type NarrativeNode } from '../engine/core.js';
 import { type AutosaveConfig, type SerializedState } from '../engine/types.js';
+import { type PresentedDialogueLine } from '../engine/dialogue.js';
+import { type ChoiceState } from '../engine/validation.js';
 
 /**
  * Result type for undo/redo operations
@@ -48,6 +50,8 @@ export interface UseQNCEConfig {
   enableAutosave?: boolean;
   /** Autosave throttle time in milliseconds */
   autosaveThrottleMs?: number;
+  /** How often timeRemaining re-renders while a node timer runs (ms) */
+  countdownIntervalMs?: number;
 }
 
 /**
@@ -58,13 +62,23 @@ export interface UseQNCEReturn {
   // Core narrative state
   engine: QNCEEngine;
   currentNode: NarrativeNode | null;
+  /** Dialogue lines of the current node with speaker names and portraits resolved */
+  dialogue: PresentedDialogueLine[];
   availableChoices: Choice[];
+  /** Every choice with its availability, failing rules and lock message (for greyed-out locked choices) */
+  choiceStates: ChoiceState[];
   flags: Record<string, unknown>;
+  /** Milliseconds left on the current node's timer (undefined when the node has none) */
+  timeRemaining: number | undefined;
+  /** Locale node and choice text is presented in */
+  locale: string | undefined;
   
   // Actions
   selectChoice: (choice: Choice | string) => Promise<void>;
   setFlag: (key: string, value: unknown) => void;
   resetNarrative: () => void;
+  /** Switch the presentation locale (re-renders without changing engine state) */
+  setLocale: (locale: string) => void;
   
   // Undo/Redo functionality
   undo: () => UndoRedoResult;
@@ -85,6 +99,8 @@ export interface UseQNCEReturn {
   
   // Utility
   refresh: () => void;
+  /** Render template text (`{flags.name}`, `{if ...}` spans) against current state */
+  renderText: (text: string) => string;
 }
 
 /**
@@ -152,11 +168,12 @@ export function useQNCE(engine: QNCEEngine, config: UseQNCEConfig = {}): UseQNCE
     maxUndoEntries = 50,
     maxRedoEntries = 25,
     enableAutosave = true,
-    autosaveThrottleMs = 100
+    autosaveThrottleMs = 100,
+    countdownIntervalMs = 250
   } = config;
 
-  // Force re-render counter
-  const [, setUpdateCounter] = useState(0);
+  // Force re-render counter (also keys memoized state getters)
+  const [updateCounter, setUpdateCounter] = useState(0);
   
   // Initialize engine configuration
   useEffect(() => {
@@ -184,6 +201,14 @@ export function useQNCE(engine: QNCEEngine, config: UseQNCEConfig = {}): UseQNCE
     }
   }, [autoUpdate]);
 
+  // Re-render on engine events, including changes made outside this hook (e.g. a node timer taking its default choice)
+  useEffect(() => {
+    const unsubscribers = (['nodeEnter', 'flagChanged', 'undo', 'redo', 'stateLoaded', 'localeChanged'] as const).map(event => engine.on(event, refresh));
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, [engine, refresh]);
+
+  const timeRemaining = useCountdown(engine, countdownIntervalMs);
+
   // Memoized state getters
   const currentNode = useMemo(() => {
     try {
@@ -191,7 +216,15 @@ export function useQNCE(engine: QNCEEngine, config: UseQNCEConfig = {}): UseQNCE
     } catch {
       return null;
     }
-  }, [engine, autoUpdate]);
+  }, [engine, autoUpdate, updateCounter]);
+
+  const dialogue = useMemo(() => {
+    try {
+      return engine.getDialogue();
+    } catch {
+      return [];
+    }
+  }, [engine, autoUpdate, updateCounter]);
 
   const availableChoices = useMemo(() => {
     try {
@@ -199,17 +232,27 @@ export function useQNCE(engine: QNCEEngine, config: UseQNCEConfig = {}): UseQNCE
     } catch {
       return [];
     }
-  }, [engine, autoUpdate]);
+  }, [engine, autoUpdate, updateCounter]);
+
+  const choiceStates = useMemo(() => {
+    try {
+      return engine.getChoiceStates();
+    } catch {
+      return [];
+    }
+  }, [engine, autoUpdate, updateCounter]);
 
   const flags = useMemo(() => {
     return engine.getState().flags;
-  }, [engine, autoUpdate]);
+  }, [engine, autoUpdate, updateCounter]);
+
+  const locale = useMemo(() => engine.getLocale(), [engine, autoUpdate, updateCounter]);
 
   // Undo/Redo state
-  const canUndo = useMemo(() => engine.canUndo(), [engine, autoUpdate]);
-  const canRedo = useMemo(() => engine.canRedo(), [engine, autoUpdate]);
-  const undoCount = useMemo(() => engine.getUndoCount(), [engine, autoUpdate]);
-  const redoCount = useMemo(() => engine.getRedoCount(), [engine, autoUpdate]);
+  const canUndo = useMemo(() => engine.canUndo(), [engine, autoUpdate, updateCounter]);
+  const canRedo = useMemo(() => engine.canRedo(), [engine, autoUpdate, updateCounter]);
+  const undoCount = useMemo(() => engine.getUndoCount(), [engine, autoUpdate, updateCounter]);
+  const redoCount = useMemo(() => engine.getRedoCount(), [engine, autoUpdate, updateCounter]);
 
   // Actions with automatic refresh
   const selectChoice = useCallback(async (choice: Choice | string) => {
@@ -227,30 +270,23 @@ export function useQNCE(engine: QNCEEngine, config: UseQNCEConfig = {}): UseQNCE
     }
     
     engine.selectChoice(choiceToSelect);
-    refresh();
-  }, [engine, refresh, availableChoices]);
+  }, [engine, availableChoices]);
 
   const setFlag = useCallback((key: string, value: unknown) => {
     engine.setFlag(key, value);
-    refresh();
-  }, [engine, refresh]);
+  }, [engine]);
 
   const resetNarrative = useCallback(() => {
     engine.resetNarrative();
-    refresh();
-  }, [engine, refresh]);
+  }, [engine]);
 
-  const undo = useCallback((): UndoRedoResult => {
-    const result = engine.undo();
-    refresh();
-    return result;
-  }, [engine, refresh]);
+  const setLocale = useCallback((nextLocale: string) => {
+    engine.setLocale(nextLocale);
+  }, [engine]);
 
-  const redo = useCallback((): UndoRedoResult => {
-    const result = engine.redo();
-    refresh();
-    return result;
-  }, [engine, refresh]);
+  const undo = useCallback((): UndoRedoResult => engine.undo(), [engine]);
+
+  const redo = useCallback((): UndoRedoResult => engine.redo(), [engine]);
 
   const clearHistory = useCallback(() => {
     engine.clearHistory();
@@ -271,20 +307,26 @@ export function useQNCE(engine: QNCEEngine, config: UseQNCEConfig = {}): UseQNCE
 
   const loadState = useCallback(async (serializedState: SerializedState) => {
     await engine.loadState(serializedState);
-    refresh();
-  }, [engine, refresh]);
+  }, [engine]);
+
+  const renderText = useCallback((text: string) => engine.renderText(text), [engine]);
 
   return {
     // Core state
     engine,
     currentNode,
+    dialogue,
     availableChoices,
+    choiceStates,
     flags,
+    timeRemaining,
+    locale,
     
     // Actions
     selectChoice,
     setFlag,
     resetNarrative,
+    setLocale,
     
     // Undo/Redo
     undo,
@@ -304,7 +346,8 @@ export function useQNCE(engine: QNCEEngine, config: UseQNCEConfig = {}): UseQNCE
     loadState,
     
     // Utility
-    refresh
+    refresh,
+    renderText
   };
 }
 
@@ -410,6 +453,44 @@ export function useUndoRedo(
   };
 }
 
+/**
+ * Hook exposing the countdown of the current node's timer
+ *
+ * Re-renders every `intervalMs` while the timer runs and whenever a choice is made,
+ * so the value also resets when the timer selects its default choice.
+ *
+ * @param engine - The QNCE Engine instance
+ * @param intervalMs - Re-render interval while counting down
+ * @returns Milliseconds remaining, or undefined when the current node has no timer
+ *
+ * @example
+ * ```tsx
+ * function Countdown({ engine }: { engine: QNCEEngine }) {
+ *   const remaining = useCountdown(engine);
+ *   return remaining === undefined ? null : <span>{Math.ceil(remaining / 1000)}s</span>;
+ * }
+ * ```
+ * @public
+ */
+export function useCountdown(engine: QNCEEngine, intervalMs = 250): number | undefined {
+  const [, setTick] = useState(0);
+  const tick = useCallback(() => setTick(prev => prev + 1), []);
+
+  // Read on every render so undo/redo or navigation elsewhere is reflected too
+  const remaining = engine.getTimeRemaining();
+  const counting = remaining !== undefined && remaining > 0;
+
+  useEffect(() => engine.registerHook('post-choice', tick), [engine, tick]);
+
+  useEffect(() => {
+    if (!counting) return;
+    const handle = setInterval(tick, intervalMs);
+    return () => clearInterval(handle);
+  }, [counting, intervalMs, tick]);
+
+  return remaining;
+}
+
 /**
  * Hook for managing autosave functionality
  * 
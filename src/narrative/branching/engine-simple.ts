@@ -14,6 +14,15 @@ import {
   AIBranchingContext 
 } from './models';
 import { QNCEState, NarrativeNode } from '../../engine/core';
+import { weightedPick, type RandomSource } from '../../engine/random';
+
+/**
+ * Options for the branching engine
+ */
+export interface BranchingEngineOptions {
+  /** Source for 'random' conditions and weighted selection (QNCEEngine injects its seeded RNG) */
+  random?: RandomSource;
+}
 
 /**
  * QNCE Branching Engine - Core API for dynamic narrative branching
@@ -23,10 +32,12 @@ export class QNCEBranchingEngine {
   private story: QNCEStory;
   private context: BranchContext;
   private aiContext?: AIBranchingContext;
+  private random: RandomSource;
 
-  constructor(story: QNCEStory, initialState: QNCEState) {
+  constructor(story: QNCEStory, initialState: QNCEState, options: BranchingEngineOptions = {}) {
     this.story = story;
     this.context = this.createBranchContext(story, initialState);
+    this.random = options.random ?? Math.random;
   }
 
   // ================================
@@ -60,6 +71,15 @@ export class QNCEBranchingEngine {
     return validOptions;
   }
 
+  /**
+   * Pick one of the currently available options, weighted by BranchOption.weight
+   * @returns The selected option, or null when none is available
+   */
+  async selectWeightedBranch(): Promise<BranchOption | null> {
+    const options = await this.evaluateAvailableBranches();
+    return weightedPick(options, this.random) ?? null;
+  }
+
   /**
    * Execute a branch transition
    */
@@ -282,6 +302,11 @@ export class QNCEBranchingEngine {
       return evaluator(this.context.activeState, this.context);
     }
 
+    // Random conditions pass with probability `value` (0..1)
+    if (condition.type === 'random') {
+      return this.random() < Number(value);
+    }
+
     // Standard condition evaluation
     const stateValue = this.context.activeState.flags[key];
 
@@ -409,9 +434,10 @@ export class QNCEBranchingEngine {
  */
 export function createBranchingEngine(
   story: QNCEStory, 
-  initialState: QNCEState
+  initialState: QNCEState,
+  options?: BranchingEngineOptions
 ): QNCEBranchingEngine {
-  return new QNCEBranchingEngine(story, initialState);
+  return new QNCEBranchingEngine(story, initialState, options);
 }
 
 // Export for engine integration
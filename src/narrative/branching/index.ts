@@ -2,7 +2,7 @@
 // Sprint #3 - Advanced Narrative & AI Integration
 
 // Core branching engine
-export { QNCEBranchingEngine, createBranchingEngine } from './engine-simple';
+export { QNCEBranchingEngine, createBranchingEngine, type BranchingEngineOptions } from './engine-simple';
 
 // Complete type system
 export * from './models';
@@ -136,7 +136,7 @@ export interface BranchOption {
 }
 
 export interface BranchCondition {
-  type: 'flag' | 'choice' | 'time' | 'random' | 'custom';
+  type: 'flag' | 'choice' | 'time' | 'random' | 'custom'; // 'random' passes with probability `value` (0..1)
   operator: 'equals' | 'not_equals' | 'greater' | 'less' | 'contains' | 'exists';
   key: string;
   value: unknown;
@@ -1,4 +1,6 @@
 import { NarrativeNode, StoryData } from '../engine/core';
+import { validateFlagEffects } from '../engine/effects';
+import { conditionEvaluator } from '../engine/condition';
 
 // S2-T3: Hot-Reload Delta Patching - Initial Spike
 // Explore delta comparison logic for story content updates
@@ -22,6 +24,8 @@ export interface NodeDelta {
   oldNode?: NarrativeNode;
   newNode?: NarrativeNode;
   affectedFields: (keyof NarrativeNode | '*')[];
+  /** True when the node's onEnter/onExit effects differ between old and new versions */
+  effectsChanged?: boolean;
 }
 
 export interface AssetDelta {
@@ -35,12 +39,21 @@ export interface AssetDelta {
 interface PatchableEngine {
   storyData: StoryData;
   getState(): { currentNodeId: string };
+  /** Recompile the conditions of patched nodes (QNCEEngine.compileConditions) */
+  compileConditions?(nodes: NarrativeNode[]): void;
+  /** Tell plugins the story changed (QNCEEngine.notifyStoryChanged) */
+  notifyStoryChanged?(): void;
 }
 
 export interface ExtendedStoryData extends StoryData {
   assets?: Asset[];
 }
 
+/** Whether a node declares entry or exit effects */
+function hasNodeEffects(node: NarrativeNode): boolean {
+  return !!(node.onEnter || node.onExit);
+}
+
 /**
  * Delta Comparison Engine for Hot-Reload Story Updates
  * Identifies minimal changes needed to update narrative content
@@ -75,7 +88,8 @@ export class StoryDeltaComparator {
           nodeId,
           changeType: 'removed',
           oldNode,
-          affectedFields: ['*']
+          affectedFields: ['*'],
+          ...(hasNodeEffects(oldNode) ? { effectsChanged: true } : {})
         });
       }
     }
@@ -90,18 +104,21 @@ export class StoryDeltaComparator {
           nodeId,
           changeType: 'added',
           newNode,
-          affectedFields: ['*']
+          affectedFields: ['*'],
+          ...(hasNodeEffects(newNode) ? { effectsChanged: true } : {})
         });
       } else {
         // Check for modifications
         const affectedFields = this.findChangedFields(oldNode, newNode);
         if (affectedFields.length > 0) {
+          const effectsChanged = affectedFields.includes('onEnter') || affectedFields.includes('onExit');
           deltas.push({
             nodeId,
             changeType: 'modified',
             oldNode,
             newNode,
-            affectedFields
+            affectedFields,
+            ...(effectsChanged ? { effectsChanged } : {})
           });
         }
       }
@@ -257,16 +274,18 @@ export class StoryDeltaPatcher {
       // Assets can be updated in background without frame stall
       
       // Phase 4: Minimal state refresh
-      this.refreshEngineState();
+      this.refreshEngineState(delta);
       
       const duration = performance.now() - startTime;
       
+      const effectsChanged = delta.nodeChanges.filter(c => c.effectsChanged).map(c => c.nodeId);
       return {
         success: true,
         patchId,
         duration,
         nodesChanged: delta.nodeChanges.length,
-        assetsChanged: delta.assetChanges.length
+        assetsChanged: delta.assetChanges.length,
+        ...(effectsChanged.length ? { effectsChanged } : {})
       };
       
     } catch (error) {
@@ -294,7 +313,45 @@ export class StoryDeltaPatcher {
       };
     }
     
-    // Additional safety checks could go here
+    // Node effects must be well-formed before they can fire on the next transition.
+    // Effects already applied on entering the current node are not re-run; an
+    // updated onExit takes effect when the player leaves it.
+    for (const change of delta.nodeChanges) {
+      const node = change.newNode;
+      if (!node || change.changeType === 'removed') continue;
+      for (const phase of ['onEnter', 'onExit'] as const) {
+        const effects = node[phase];
+        if (effects === undefined) continue;
+        const problems = effects && typeof effects === 'object' && !Array.isArray(effects)
+          ? validateFlagEffects(effects.flagEffects)
+          : ['expected { flagEffects: { ... } }'];
+        if (problems.length > 0) {
+          return {
+            safe: false,
+            error: `Invalid ${phase} effects on node ${node.id}: ${problems.join('; ')}`
+          };
+        }
+      }
+      // Conditions must parse, so syntax errors surface now rather than when the node is shown
+      // (custom evaluators may accept their own syntax)
+      if (conditionEvaluator.hasCustomEvaluator()) continue;
+      const conditions = [
+        ...(node.choices || []).map(c => c.condition),
+        ...(node.redirects || []).map(r => r.condition),
+        ...(node.blocks || []).map(b => b.condition)
+      ];
+      for (const condition of conditions) {
+        if (!condition) continue;
+        const check = conditionEvaluator.validateExpression(condition);
+        if (!check.valid) {
+          return {
+            safe: false,
+            error: `Invalid condition on node ${node.id}: ${check.error} in "${condition}"`
+          };
+        }
+      }
+    }
+    
     return { safe: true };
   }
   
@@ -402,9 +459,11 @@ export class StoryDeltaPatcher {
   /**
    * Refresh engine state after patch
    */
-  private refreshEngineState(): void {
-    // Minimal state refresh - avoid full reinitialization
-    // Future: Could trigger cache invalidation, UI updates, etc.
+  private refreshEngineState(delta: StoryDelta): void {
+    // Minimal state refresh - avoid full reinitialization; only patched nodes' conditions recompile
+    const patched = delta.nodeChanges.flatMap(c => c.changeType !== 'removed' && c.newNode ? [c.newNode] : []);
+    this.engine.compileConditions?.(patched);
+    this.engine.notifyStoryChanged?.();
   }
 }
 
@@ -414,6 +473,8 @@ export interface PatchResult {
   duration: number;
   nodesChanged?: number;
   assetsChanged?: number;
+  /** Ids of nodes whose onEnter/onExit effects were added, changed or removed */
+  effectsChanged?: string[];
   error?: string;
 }
 
@@ -5,14 +5,18 @@
  */
 
 import type { QNCEEngine } from '../engine/core.js';
+import type { QNCEPlugin } from '../engine/plugins.js';
 import { Phase } from './phase.js';
 import { Entangler } from './entangler.js';
 import { FeatureFlags, type FeatureFlagsConfig } from './flags.js';
+import { Measurement, type Sampler } from './measurement.js';
 
 /** @beta @experimental */
 export type QuantumIntegration = {
   isPhaseActive: (phase: Phase, ctx?: { nodeId?: string }) => boolean;
   entangle: (configure: (e: Entangler) => Entangler) => void;
+  /** Create a Measurement drawing from the engine's seeded RNG (when available) */
+  createMeasurement: (name: string, sampler?: Sampler) => Measurement;
   detach: () => void;
   flags: FeatureFlags;
 };
@@ -24,7 +28,7 @@ export type QuantumIntegration = {
  */
 /** @beta @experimental */
 export function attachQuantumFeatures(
-  engine: Pick<QNCEEngine, 'flags'>,
+  engine: Pick<QNCEEngine, 'flags'> & Partial<Pick<QNCEEngine, 'getRandomSource'>>,
   flagsConfig?: FeatureFlags | FeatureFlagsConfig
 ): QuantumIntegration {
   const flags = flagsConfig instanceof FeatureFlags ? flagsConfig : new FeatureFlags(flagsConfig);
@@ -42,8 +46,37 @@ export function attachQuantumFeatures(
       const e = new Entangler();
       configure(e).apply(engine.flags);
     },
+    createMeasurement: (name: string, sampler?: Sampler) => new Measurement(name, sampler, engine.getRandomSource?.()),
     detach: () => {
       // currently stateless; reserved for future wiring
     }
   };
 }
+
+/** @beta @experimental */
+export type QuantumPlugin = QNCEPlugin & {
+  /** Quantum helpers for the engine the plugin is installed on (undefined until engine.use()) */
+  readonly integration?: QuantumIntegration;
+};
+
+/**
+ * Engine plugin form of attachQuantumFeatures: the helpers are attached on engine.use() and
+ * detached when the plugin is removed or the engine disposed.
+ */
+/** @beta @experimental */
+export function createQuantumPlugin(flagsConfig?: FeatureFlags | FeatureFlagsConfig): QuantumPlugin {
+  let integration: QuantumIntegration | undefined;
+  return {
+    name: 'quantum',
+    get integration() {
+      return integration;
+    },
+    install: engine => {
+      integration = attachQuantumFeatures(engine, flagsConfig);
+    },
+    dispose: () => {
+      integration?.detach();
+      integration = undefined;
+    }
+  };
+}
@@ -1,6 +1,8 @@
 // Experimental Measurement primitive
 // Allows sampling outcomes (boolean or probabilistic) and tracking rates.
 
+import type { RandomSource } from '../engine/random';
+
 /** @beta @experimental */
 export type MeasurementContext = { flags: Record<string, unknown>; nodeId?: string };
 
@@ -11,12 +13,18 @@ export type Sampler = (ctx: MeasurementContext) => boolean | number; // number =
 export class Measurement {
   readonly name: string;
   private sampler?: Sampler;
+  private random: RandomSource;
   private trials = 0;
   private successes = 0;
 
-  constructor(name: string, sampler?: Sampler) {
+  /**
+   * @param random - Source for probabilistic outcomes (default Math.random); pass `engine.getRandomSource()`
+   *   for reproducible runs tied to engine saves
+   */
+  constructor(name: string, sampler?: Sampler, random: RandomSource = Math.random) {
     this.name = name;
     this.sampler = sampler;
+    this.random = random;
   }
 
   sample(ctx: MeasurementContext = { flags: {} }): boolean {
@@ -25,13 +33,13 @@ export class Measurement {
       const out = this.sampler(ctx);
       if (typeof out === 'number') {
         const p = Math.max(0, Math.min(1, out));
-        result = Math.random() < p;
+        result = this.random() < p;
       } else {
         result = !!out;
       }
     } else {
       // default fair coin
-      result = Math.random() < 0.5;
+      result = this.random() < 0.5;
     }
     this.trials++;
     if (result) this.successes++;
@@ -1,4 +1,5 @@
-import { QEvent, Telemetry, TelemetryAdapter, TelemetryOptions } from './types.js';
+import { Env, QEvent, Telemetry, TelemetryAdapter, TelemetryOptions } from './types.js';
+import type { QNCEPlugin } from '../engine/plugins.js';
 import { createWriteStream, WriteStream } from 'fs';
 
 // Simple PRNG for deterministic sampling in tests (xorshift32)
@@ -273,3 +274,20 @@ export function createTelemetryAdapter(kind: 'console' | 'file', opts?: { path?:
 export function createTelemetry(options: TelemetryOptions): Telemetry {
   return new TelemetryImpl(options);
 }
+
+/**
+ * Engine plugin that attaches a telemetry sink on engine.use() and flushes and detaches it when
+ * removed (an alternative to the `telemetry` engine option)
+ * @beta
+ * @experimental
+ */
+export function createTelemetryPlugin(telemetry: Telemetry, options?: { sessionId?: string; appVersion?: string; env?: Env }): QNCEPlugin {
+  return {
+    name: 'telemetry',
+    install: engine => engine.attachTelemetry(telemetry, options),
+    dispose: async engine => {
+      engine.detachTelemetry();
+      try { await telemetry.flush(); } catch {}
+    }
+  };
+}
@@ -8,12 +8,14 @@ import { DEMO_STORY } from '../../engine/demo-story';
 
 // Mock the useUndoRedo hook
 jest.mock('../../integrations/react', () => ({
-  useUndoRedo: jest.fn()
+  useUndoRedo: jest.fn(),
+  useCountdown: jest.fn()
 }));
 
 // Get the mocked version
-import { useUndoRedo } from '../../integrations/react';
+import { useUndoRedo, useCountdown } from '../../integrations/react';
 const mockUseUndoRedo = useUndoRedo as jest.MockedFunction<typeof useUndoRedo>;
+const mockUseCountdown = useCountdown as jest.MockedFunction<typeof useCountdown>;
 
 describe('UndoRedoControls', () => {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -35,6 +37,7 @@ describe('UndoRedoControls', () => {
 
     // Setup the mock to return our mock state
     mockUseUndoRedo.mockReturnValue(mockUndoRedoState);
+    mockUseCountdown.mockReturnValue(undefined);
   });
 
   afterEach(() => {
@@ -294,6 +297,20 @@ describe('UndoRedoControls', () => {
     });
   });
 
+  describe('Countdown', () => {
+    it('shows the remaining seconds only while the current node has a timer', () => {
+      const { rerender } = render(<UndoRedoControls engine={engine} />);
+      expect(screen.queryByRole('timer')).not.toBeInTheDocument();
+
+      mockUseCountdown.mockReturnValue(4200);
+      rerender(<UndoRedoControls engine={engine} countdownLabel="Decide" />);
+      expect(screen.getByRole('timer', { name: 'Decide: 5 seconds' })).toHaveTextContent('5s');
+
+      rerender(<UndoRedoControls engine={engine} showCountdown={false} />);
+      expect(screen.queryByRole('timer')).not.toBeInTheDocument();
+    });
+  });
+
   describe('Error Handling', () => {
     it('handles undo/redo failures gracefully', async () => {
       mockUseUndoRedo.mockReturnValue({
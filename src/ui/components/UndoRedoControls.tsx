@@ -1,6 +1,6 @@
 import React, { useMemo, useState } from 'react';
 import { UndoRedoControlsProps, defaultTheme, QNCETheme } from '../types';
-import { useUndoRedo } from '../../integrations/react';
+import { useUndoRedo, useCountdown } from '../../integrations/react';
 
 /**
  * UndoRedoControls Component
@@ -13,6 +13,7 @@ import { useUndoRedo } from '../../integrations/react';
  * - Accessible with ARIA labels and keyboard navigation
  * - Customizable themes and layouts
  * - Integration with QNCE Engine undo/redo system
+ * - Countdown for timed nodes (shown while the current node's timer runs)
  * @public
  */
 export const UndoRedoControls: React.FC<UndoRedoControlsProps> = ({
@@ -26,7 +27,9 @@ export const UndoRedoControls: React.FC<UndoRedoControlsProps> = ({
   size = 'md',
   layout = 'horizontal',
   onUndo,
-  onRedo
+  onRedo,
+  showCountdown = true,
+  countdownLabel = 'Time remaining'
 }) => {
   const {
     undo,
@@ -36,6 +39,8 @@ export const UndoRedoControls: React.FC<UndoRedoControlsProps> = ({
     undoCount,
     redoCount
   } = useUndoRedo(engine);
+  const timeRemaining = useCountdown(engine);
+  const countdownSeconds = timeRemaining === undefined ? undefined : Math.ceil(timeRemaining / 1000);
 
   // Merge custom theme with default theme
   const theme: QNCETheme = useMemo(() => ({
@@ -226,6 +231,23 @@ export const UndoRedoControls: React.FC<UndoRedoControlsProps> = ({
           </span>
         )}
       </button>
+
+      {/* Countdown for timed nodes */}
+      {showCountdown && countdownSeconds !== undefined && (
+        <span
+          role="timer"
+          aria-label={`${countdownLabel}: ${countdownSeconds} seconds`}
+          className="qnce-countdown"
+          style={{
+            fontFamily: theme.typography.fontFamily,
+            fontSize: currentSize.fontSize,
+            fontWeight: theme.typography.fontWeight.semibold,
+            color: countdownSeconds <= 3 ? theme.colors.error : theme.colors.text
+          }}
+        >
+          ⏱ {countdownSeconds}s
+        </span>
+      )}
     </div>
   );
 };
@@ -79,6 +79,10 @@ export interface UndoRedoControlsProps {
   onUndo?: (result: { success: boolean; description?: string; error?: string }) => void;
   /** Callback when redo is performed */
   onRedo?: (result: { success: boolean; description?: string; error?: string }) => void;
+  /** Show the current node's timer countdown next to the buttons (default: true) */
+  showCountdown?: boolean;
+  /** Accessible label for the countdown */
+  countdownLabel?: string;
 }
 
 /**
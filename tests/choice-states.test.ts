@@ -0,0 +1,56 @@
+import { createQNCEEngine, type StoryData } from '../src/engine/core';
+import { CustomJSONAdapter } from '../src/adapters/story/CustomJSONAdapter';
+
+describe('Choice states', () => {
+  const story: StoryData = {
+    initialNodeId: 'shop',
+    templating: true,
+    inventory: { initial: { gold: 1 } },
+    nodes: [
+      {
+        id: 'shop',
+        text: 'A shop.',
+        choices: [
+          { text: 'Browse', nextNodeId: 'shop' },
+          { text: 'Buy a sword', nextNodeId: 'shop', inventoryRequirements: { gold: 3 }, lockedMessage: 'Requires 3 gold (you have {count("gold")})' },
+          { text: 'Talk to the owner', nextNodeId: 'shop', condition: 'flags.trusted', flagRequirements: { met: true }, lockedMessage: 'The owner ignores you' },
+          { text: 'Closed door', nextNodeId: 'shop', enabled: false },
+          { text: 'Free sample', nextNodeId: 'shop', once: true }
+        ]
+      }
+    ]
+  };
+
+  test('returns every choice with its availability, failing rules and lock message', () => {
+    const engine = createQNCEEngine(story);
+    const states = engine.getChoiceStates();
+    expect(states.map(s => [s.index, s.available, s.failedRules])).toEqual([
+      [0, true, []],
+      [1, false, ['inventory-conditions']],
+      [2, false, ['condition', 'flag-conditions']],
+      [3, false, ['choice-enabled']],
+      [4, true, []]
+    ]);
+    expect(states[1].reasons).toEqual(['Insufficient inventory: gold (need 3, have 1)']);
+    expect(states[1].lockedMessage).toBe('Requires 3 gold (you have 1)');
+    expect(states[2].reasons[0]).toBe('Condition not met: flags.trusted');
+    expect(states[2].lockedMessage).toBe('The owner ignores you');
+    expect(states[3].lockedMessage).toBeUndefined();
+    expect(states.filter(s => s.available).map(s => s.choice)).toEqual(engine.getAvailableChoices());
+  });
+
+  test('unlocked choices drop their lock message and spent once-only choices are left out', () => {
+    const engine = createQNCEEngine(story, { flags: { trusted: true, met: true } });
+    engine.addItem('gold', 2);
+    engine.selectChoice(engine.getAvailableChoices().find(c => c.text === 'Free sample')!);
+    const states = engine.getChoiceStates();
+    expect(states.map(s => s.choice.text)).toEqual(['Browse', 'Buy a sword', 'Talk to the owner', 'Closed door']);
+    expect(states[1]).toEqual({ choice: story.nodes[0].choices[1], index: 1, available: true, failedRules: [], reasons: [] });
+    expect(states[2].available).toBe(true);
+  });
+
+  test('Custom JSON keeps lockedMessage in strict mode', async () => {
+    const loaded = await new CustomJSONAdapter().load(story, { strict: true });
+    expect(loaded.nodes[0].choices[1].lockedMessage).toBe('Requires 3 gold (you have {count("gold")})');
+  });
+});
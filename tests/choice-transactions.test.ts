@@ -0,0 +1,113 @@
+import { createQNCEEngine, StateError, type StoryData } from '../src/engine/core';
+import { ManualClock } from '../src/engine/clock';
+import { createLogger } from '../src/utils/logger';
+
+describe('Async pre-choice hooks and choice transactions', () => {
+  const story: StoryData = {
+    initialNodeId: 'door',
+    nodes: [
+      {
+        id: 'door',
+        text: 'A locked door.',
+        choices: [
+          { text: 'Pick the lock', nextNodeId: 'vault', flagEffects: { alarms: { $inc: 1 } } },
+          { text: 'Walk away', nextNodeId: 'street' }
+        ]
+      },
+      { id: 'vault', text: 'The vault.', onEnter: { flagEffects: { looted: true } }, choices: [{ text: 'Leave', nextNodeId: 'street' }] },
+      { id: 'street', text: 'The street.', choices: [] }
+    ]
+  };
+
+  const quietLogger = (warnings: string[] = []) =>
+    createLogger({ level: 'warn', sink: { write: (entry) => { warnings.push(entry.message); } } });
+
+  test('awaits hooks in priority order and commits when none cancels', async () => {
+    const engine = createQNCEEngine(story, undefined, false, undefined, { logger: quietLogger() });
+    const order: string[] = [];
+    engine.registerHook('pre-choice', async () => { await Promise.resolve(); order.push('low'); }, 1);
+    engine.registerHook('pre-choice', async () => { await new Promise(resolve => setTimeout(resolve, 5)); order.push('high'); }, 10);
+    engine.registerHook('post-choice', () => { order.push('post'); });
+
+    const result = await engine.selectChoiceAsync(engine.getAvailableChoices()[0]);
+    expect(result).toEqual({ committed: true });
+    expect(order).toEqual(['high', 'low', 'post']);
+    expect(engine.getCurrentNode().id).toBe('vault');
+    expect(engine.getFlags()).toEqual({ alarms: 1, looted: true });
+  });
+
+  test('cancels on false, rejection or timeout without touching state', async () => {
+    const clock = new ManualClock();
+    const warnings: string[] = [];
+    const engine = createQNCEEngine(story, undefined, false, undefined, { clock, logger: quietLogger(warnings) });
+    const choice = engine.getAvailableChoices()[0];
+
+    const unregister = engine.registerHook('pre-choice', async () => false);
+    expect(await engine.selectChoiceAsync(choice)).toEqual({ committed: false, reason: 'cancelled' });
+    unregister();
+
+    const unregisterFailing = engine.registerHook('pre-choice', async () => { throw new Error('server said no'); });
+    expect(await engine.selectChoiceAsync(choice)).toEqual({ committed: false, reason: 'error' });
+    unregisterFailing();
+
+    engine.registerHook('pre-choice', () => new Promise<boolean>(() => {}));
+    const pending = engine.selectChoiceAsync(choice, { hookTimeoutMs: 2000 });
+    clock.advance(2000);
+    expect(await pending).toEqual({ committed: false, reason: 'timeout' });
+
+    expect(engine.getState().history).toEqual(['door']);
+    expect(engine.getFlags()).toEqual({});
+    expect(clock.pendingTimers()).toBe(0);
+    expect(warnings).toHaveLength(2);
+  });
+
+  test('rolls back state, history and undo entries when the autosave fails', async () => {
+    const engine = createQNCEEngine(story, undefined, false, undefined, { logger: quietLogger() });
+    engine.configureAutosave({ enabled: true, triggers: ['choice'], throttleMs: 0 });
+    const telemetry: string[] = [];
+    engine.on('nodeEnter', ({ nodeId }) => telemetry.push(`enter ${nodeId}`));
+    engine.registerHook('post-choice', () => { telemetry.push('post'); });
+    jest.spyOn(engine, 'createCheckpoint').mockRejectedValueOnce(new Error('disk full'));
+
+    await expect(engine.selectChoiceAsync(engine.getAvailableChoices()[0])).rejects.toThrow(StateError);
+    expect(engine.getCurrentNode().id).toBe('door');
+    expect(engine.getState().history).toEqual(['door']);
+    expect(engine.getFlags()).toEqual({});
+    expect(engine.getVisitCount('vault')).toBe(0);
+    expect(engine.canUndo()).toBe(false);
+    expect(telemetry).toEqual([]);
+
+    const result = await engine.selectChoiceAsync(engine.getAvailableChoices()[0]);
+    expect(result.committed).toBe(true);
+    expect(telemetry).toEqual(['enter vault', 'post']);
+    expect(engine.getFlags()).toEqual({ alarms: 1, looted: true });
+  });
+
+  test('reports a stale choice and blocks other choices while committing', async () => {
+    const engine = createQNCEEngine(story, undefined, false, undefined, { logger: quietLogger() });
+    let release!: () => void;
+    engine.registerHook('pre-choice', () => new Promise<void>(resolve => { release = resolve; }));
+    const pending = engine.selectChoiceAsync(engine.getAvailableChoices()[0]);
+    engine.goToNodeById('street');
+    await Promise.resolve();
+    release();
+    expect(await pending).toEqual({ committed: false, reason: 'stale' });
+
+    engine.clearHooks();
+    engine.goToNodeById('door');
+    engine.configureAutosave({ enabled: true, triggers: ['choice'], throttleMs: 0 });
+    const committing = engine.selectChoiceAsync(engine.getAvailableChoices()[1]);
+    expect(() => engine.selectChoice(engine.getAvailableChoices()[0])).toThrow(StateError);
+    await expect(committing).resolves.toEqual({ committed: true });
+    expect(engine.getCurrentNode().id).toBe('street');
+  });
+
+  test('sync selectChoice logs async hooks instead of awaiting them', () => {
+    const warnings: string[] = [];
+    const engine = createQNCEEngine(story, undefined, false, undefined, { logger: quietLogger(warnings) });
+    engine.registerHook('pre-choice', async () => false);
+    engine.selectChoice(engine.getAvailableChoices()[1]);
+    expect(engine.getCurrentNode().id).toBe('street');
+    expect(warnings).toHaveLength(1);
+  });
+});
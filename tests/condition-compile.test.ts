@@ -0,0 +1,97 @@
+import { createQNCEEngine, type StoryData } from '../src/engine/core';
+import { ConditionEvaluationError, conditionEvaluator, type ConditionContext } from '../src/engine/condition';
+import { createDeltaTools, type StoryDelta } from '../src/performance/HotReloadDelta';
+import { createLogger } from '../src/utils/logger';
+
+describe('Compiled conditions', () => {
+  const story = (): StoryData => ({
+    initialNodeId: 'start',
+    nodes: [
+      {
+        id: 'start',
+        text: 'Gate.',
+        choices: [
+          { text: 'Enter', nextNodeId: 'end', condition: 'flags.key === true' },
+          { text: 'Broken', nextNodeId: 'end', condition: 'flags.a &&' },
+          { text: 'Leave', nextNodeId: 'end' }
+        ]
+      },
+      { id: 'end', text: 'End.', choices: [] }
+    ]
+  });
+  const context = (flags: Record<string, unknown> = {}): ConditionContext => ({
+    state: { currentNodeId: 'start', flags, history: [] },
+    timestamp: 0
+  });
+
+  test('compiled conditions are reusable and short-circuit', () => {
+    const compiled = conditionEvaluator.compile('flags.a > 1 && abs(flags.b) === 2');
+    expect(conditionEvaluator.evaluate(compiled, context({ a: 2, b: -2 }))).toBe(true);
+    expect(conditionEvaluator.evaluate(compiled, context({ a: 0, b: -2 }))).toBe(false);
+    expect(conditionEvaluator.compile('flags.a > 1 && abs(flags.b) === 2')).toBe(compiled);
+
+    // The right-hand side never runs, so the unseeded random() does not throw
+    expect(conditionEvaluator.evaluate('false && random() < 1', context())).toBe(false);
+    expect(() => conditionEvaluator.compile('flags.a ||')).toThrow(ConditionEvaluationError);
+    expect(() => conditionEvaluator.compile('abs("x")')).toThrow(/at position 0/);
+  });
+
+  test('engine reports condition syntax errors once, at load', () => {
+    const warnings: string[] = [];
+    const engine = createQNCEEngine(story(), undefined, false, undefined, {
+      logger: createLogger({ level: 'warn', sink: { write: entry => warnings.push(entry.message) } })
+    });
+    const errors = engine.getConditionErrors();
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toMatchObject({ nodeId: 'start', expression: 'flags.a &&' });
+    expect(warnings).toHaveLength(1);
+
+    const compile = jest.spyOn(conditionEvaluator, 'compile');
+    engine.setFlag('key', true);
+    expect(engine.getAvailableChoices().map(c => c.text)).toEqual(['Enter', 'Leave']);
+    expect(compile.mock.calls.map(([expression]) => expression)).not.toContain('flags.key === true');
+    expect(warnings).toHaveLength(1);
+    compile.mockRestore();
+  });
+
+  test('hot-reload patches recompile conditions and reject invalid ones', async () => {
+    const engine = createQNCEEngine(story());
+    const { patcher } = createDeltaTools(engine);
+    const modify = (condition: string): StoryDelta => ({
+      nodeChanges: [{
+        nodeId: 'start',
+        changeType: 'modified',
+        newNode: { id: 'start', text: 'Gate.', choices: [{ text: 'Enter', nextNodeId: 'end', condition }] },
+        affectedFields: ['choices']
+      }],
+      assetChanges: [],
+      timestamp: Date.now()
+    });
+
+    const rejected = await patcher.applyDelta(modify('flags.key ==='));
+    expect(rejected.success).toBe(false);
+    expect(rejected.error).toMatch(/Invalid condition on node start: .* at position \d+ in "flags.key ==="/);
+
+    expect((await patcher.applyDelta(modify('flags.level >= 2'))).success).toBe(true);
+    expect(engine.getConditionErrors()).toEqual([]);
+    expect(engine.getAvailableChoices()).toEqual([]);
+    engine.setFlag('level', 3);
+    expect(engine.getAvailableChoices().map(c => c.text)).toEqual(['Enter']);
+  });
+
+  test('hot-reload patches drop the condition errors of removed nodes', async () => {
+    const data = story();
+    data.nodes.push({ id: 'side', text: 'Side.', choices: [{ text: 'Odd', nextNodeId: 'end', condition: 'flags.b ||' }] });
+    const engine = createQNCEEngine(data);
+    expect(engine.getConditionErrors().map(e => e.nodeId)).toEqual(['start', 'side']);
+
+    const { patcher } = createDeltaTools(engine);
+    const removed = await patcher.applyDelta({
+      nodeChanges: [{ nodeId: 'side', changeType: 'removed', oldNode: data.nodes[2], affectedFields: [] }],
+      assetChanges: [],
+      timestamp: Date.now()
+    });
+    expect(removed.success).toBe(true);
+    expect(engine.getConditionErrors().map(e => e.nodeId)).toEqual(['start']);
+  });
+});
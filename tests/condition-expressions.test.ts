@@ -0,0 +1,59 @@
+import { ConditionEvaluationError, conditionEvaluator, type ConditionContext } from '../src/engine/condition';
+
+describe('Condition expressions: paths, literals, in, ternaries', () => {
+  const context = (flags: Record<string, unknown>, extra: Partial<ConditionContext> = {}): ConditionContext => ({
+    state: { currentNodeId: 'start', flags, history: [] },
+    timestamp: 0,
+    ...extra
+  });
+  const value = (expression: string, flags: Record<string, unknown> = {}, extra?: Partial<ConditionContext>) =>
+    conditionEvaluator.evaluateValue(expression, context(flags, extra));
+
+  test('nested member access, array/object literals and in', () => {
+    const flags = { party: { leader: 'Ana', members: ['Ana', 'Bo'] }, inventory: ['sword', 'rope'], 'my-flag': 2 };
+    expect(value('flags.party.leader', flags)).toBe('Ana');
+    expect(value('flags.party.members[1]', flags)).toBe('Bo');
+    expect(value('flags["my-flag"] + flags.inventory.length', flags)).toBe(4);
+    expect(value('flags.missing.deeper[0]', flags)).toBeUndefined();
+    expect(value('"sword" in flags.inventory && !("axe" in flags.inventory)', flags)).toBe(true);
+    expect(value('"lead" in "leader" && "leader" in flags.party', flags)).toBe(true);
+    expect(value('flags.rank in ["captain", "major"]', { rank: 'major' })).toBe(true);
+    expect(value('{ a: 1, "b c": [2, 3] }["b c"][0]')).toBe(2);
+    expect(value('lower(flags.party.leader) === "ana" && startsWith(upper("ana"), "AN") && len(flags.inventory) === 2', flags)).toBe(true);
+  });
+
+  test('ternaries evaluate lazily and prototypes stay out of reach', () => {
+    expect(value('flags.gold >= 10 ? "rich" : flags.gold > 0 ? "poor" : "broke"', { gold: 3 })).toBe('poor');
+    let calls = 0;
+    const functions = { tick: () => ++calls };
+    expect(value('true ? 1 : tick()', {}, { functions })).toBe(1);
+    expect(value('false && tick() || flags.a', { a: 'x' }, { functions })).toBe('x');
+    expect(calls).toBe(0);
+
+    expect(value('flags.toString')).toBeUndefined();
+    expect(value('flags["__pro" + "to__"]')).toBeUndefined();
+    expect(value('state.history.map')).toBeUndefined();
+    expect(value('{ "\\_\\_proto\\_\\_": 1 }.hasOwnProperty')).toBeUndefined();
+  });
+
+  test('errors report the position of the offending token', () => {
+    const failure = (expression: string) => {
+      try {
+        conditionEvaluator.evaluate(expression, context({}));
+      } catch (error) {
+        return error as ConditionEvaluationError;
+      }
+      throw new Error(`expected ${expression} to fail`);
+    };
+    const unclosed = failure('(flags.a && flags.b');
+    expect(unclosed).toBeInstanceOf(ConditionEvaluationError);
+    expect(unclosed.message).toBe("Expected ')' at position 19: (flags.a && flags.b");
+    expect(unclosed.position).toBe(19);
+    expect(failure('  flags.a ? 1').message).toBe("Expected ':' in conditional expression at position 13:   flags.a ? 1");
+    expect(failure('flags.a # 2').position).toBe(8);
+    expect(failure('"open').message).toBe('Unterminated string at position 0: "open');
+    expect(conditionEvaluator.validateExpression('flags.a === nope')).toEqual({
+      valid: false, error: "Unknown identifier 'nope' at position 12", position: 12
+    });
+  });
+});
@@ -0,0 +1,62 @@
+import { createQNCEEngine, type StoryData } from '../src/engine/core';
+import { ConditionEvaluationError, conditionEvaluator, type ConditionContext } from '../src/engine/condition';
+
+describe('Condition functions', () => {
+  const story: StoryData = {
+    initialNodeId: 'start',
+    nodes: [
+      {
+        id: 'start',
+        text: 'Crossroads.',
+        choices: [
+          { text: 'Cave', nextNodeId: 'cave' },
+          { text: 'Back again', nextNodeId: 'start', condition: 'visited("cave")' },
+          { text: 'Gamble', nextNodeId: 'start', condition: 'random() < 0.5' }
+        ]
+      },
+      { id: 'cave', text: 'Cave.', choices: [{ text: 'Leave', nextNodeId: 'start' }] }
+    ]
+  };
+  const context = (flags: Record<string, unknown> = {}): ConditionContext => ({
+    state: { currentNodeId: 'start', flags, history: [] },
+    timestamp: 0
+  });
+
+  test('built-ins evaluate and calls are checked against signatures', () => {
+    expect(conditionEvaluator.evaluateValue('max(flags.a, 2, -7)', context({ a: 5 }))).toBe(5);
+    expect(conditionEvaluator.evaluate('min(3, flags.a) + abs(-2) === 4', context({ a: 2 }))).toBe(true);
+
+    expect(conditionEvaluator.validateExpression('abs(flags.a)').valid).toBe(true);
+    expect(conditionEvaluator.validateExpression('abs("x")').error).toBe("Argument 1 of 'abs' must be a number, got string at position 0");
+    expect(conditionEvaluator.validateExpression('abs(1, 2)').error).toBe("Function 'abs' expects 1 argument, got 2 at position 0");
+    expect(conditionEvaluator.validateExpression('max()').error).toBe("Function 'max' expects at least 1 argument, got 0 at position 0");
+    const seeded = { ...context(), randomSeed: 7 };
+    expect(conditionEvaluator.evaluateValue('random()', seeded)).toBe(conditionEvaluator.evaluateValue('random()', seeded));
+    expect(() => conditionEvaluator.evaluate('random() < 1', context())).toThrow(ConditionEvaluationError);
+    expect(() => conditionEvaluator.evaluate('toString()', context())).toThrow(ConditionEvaluationError);
+  });
+
+  test('engine functions: visited, seeded random and registered functions', () => {
+    const engine = createQNCEEngine(story, undefined, false, undefined, { seed: 'fixed' });
+    expect(engine.getAvailableChoices().map(c => c.text)).not.toContain('Back again');
+    engine.selectChoice(engine.getAvailableChoices()[0]);
+    engine.selectChoice(engine.getAvailableChoices()[0]);
+    expect(engine.getAvailableChoices().map(c => c.text)).toContain('Back again');
+
+    const rolls = () => engine.getAvailableChoices().some(c => c.text === 'Gamble');
+    const first = rolls();
+    expect(rolls()).toBe(first);
+    const replay = createQNCEEngine(story, undefined, false, undefined, { seed: 'fixed' });
+    replay.selectChoice(replay.getAvailableChoices()[0]);
+    replay.selectChoice(replay.getAvailableChoices()[0]);
+    expect(replay.getAvailableChoices().some(c => c.text === 'Gamble')).toBe(first);
+
+    engine.registerConditionFunction('double', { params: ['number'], fn: n => Number(n) * 2 });
+    expect(engine.validateCondition('double(flags.x) > 2').valid).toBe(true);
+    expect(engine.validateCondition('double("2")').valid).toBe(false);
+    expect(engine.validateCondition('has("key", "many")').error).toBe("Argument 2 of 'has' must be a number, got string at position 0");
+    expect(engine.validateCondition('missing(1)').error).toBe("Unknown function 'missing' at position 0");
+    expect(() => engine.registerConditionFunction('max', () => 0)).toThrow(/already registered/);
+    expect(() => engine.registerConditionFunction('flags', () => 0)).toThrow(/Reserved/);
+  });
+});
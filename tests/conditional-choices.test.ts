@@ -184,6 +184,12 @@ describe('QNCE Conditional Choice Display - Sprint 3.4', () => {
         const flags3 = evaluator.getReferencedFlags('true');
         expect(flags3).toEqual([]);
       });
+
+      it('should note flag references while compiling', () => {
+        const refs = evaluator.getReferences('flags["has key"] && flags.bag.size > 0 && state.flags.mood == "calm" && flags[flags.slot]');
+        expect(refs.filter(ref => ref.kind === 'flag').map(ref => ref.name)).toEqual(['has key', 'bag', 'mood', 'slot']);
+        expect(evaluator.getReferences('flags.')).toEqual([]);
+      });
     });
 
     describe('Custom Evaluator', () => {
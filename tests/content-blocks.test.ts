@@ -0,0 +1,84 @@
+import { spawnSync } from 'node:child_process';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join, resolve } from 'node:path';
+import { createQNCEEngine, type StoryData } from '../src/engine/core';
+import { CustomJSONAdapter } from '../src/adapters/story/CustomJSONAdapter';
+import { collectTranslatableStrings, mergeTranslations } from '../src/adapters/translation/strings';
+import { createLogger } from '../src/utils/logger';
+
+describe('Content blocks', () => {
+  const story: StoryData = {
+    initialNodeId: 'camp',
+    templating: true,
+    locales: { fr: { 'camp.fire': 'Le feu crépite.' } },
+    nodes: [
+      {
+        id: 'camp',
+        text: '',
+        blocks: [
+          { text: 'The fire crackles.', textKey: 'camp.fire' },
+          { text: 'Mira is asleep.', condition: 'flags.night' },
+          { text: 'You hold {flags.torches} torches.', condition: 'flags.torches > 0' },
+          { text: 'Nobody is watching.', condition: '!flags.guard' }
+        ],
+        choices: [{ text: 'Wait', nextNodeId: 'camp', flagEffects: { night: true, torches: 2 } }]
+      },
+      { id: 'road', text: 'The road.', choices: [] }
+    ]
+  };
+
+  test('presents only the blocks whose conditions pass and joins them into text', () => {
+    const engine = createQNCEEngine(story);
+    expect(engine.getContentBlocks().map(block => block.text)).toEqual(['The fire crackles.', 'Nobody is watching.']);
+    expect(engine.getCurrentNode().text).toBe('The fire crackles.\n\nNobody is watching.');
+
+    engine.selectChoice(engine.getAvailableChoices()[0]);
+    engine.setFlag('guard', true);
+    expect(engine.getContentBlocks().map(block => block.text)).toEqual(['The fire crackles.', 'Mira is asleep.', 'You hold 2 torches.']);
+    expect(story.nodes[0].blocks).toHaveLength(4);
+
+    engine.goToNodeById('road');
+    expect(engine.getContentBlocks()).toEqual([]);
+    expect(engine.getCurrentNode().text).toBe('The road.');
+  });
+
+  test('localizes blocks and hides blocks whose condition fails to evaluate', () => {
+    const warnings: string[] = [];
+    const broken: StoryData = { ...story, nodes: [{ ...story.nodes[0], blocks: [...story.nodes[0].blocks!, { text: 'Never.', condition: 'flags.(' }] }] };
+    const engine = createQNCEEngine(broken, undefined, false, undefined, {
+      locale: 'fr',
+      logger: createLogger({ level: 'warn', sink: { write: entry => warnings.push(entry.message) } })
+    });
+    const errors: string[] = [];
+    engine.on('error', ({ error }) => errors.push(error.message));
+    expect(engine.getContentBlocks().map(block => block.text)).toEqual(['Le feu crépite.', 'Nobody is watching.']);
+    expect(errors).toEqual(['Content block condition evaluation failed']);
+    expect(warnings).toHaveLength(1);
+  });
+
+  test('Custom JSON keeps blocks and translation extracts block keys', async () => {
+    const loaded = await new CustomJSONAdapter().load(story, { strict: true });
+    expect(loaded.nodes[0].blocks).toHaveLength(4);
+
+    const units = collectTranslatableStrings(story);
+    expect(units.find(unit => unit.id === 'camp.block.1')).toEqual({ id: 'camp.block.1', source: 'Mira is asleep.', context: 'Block 2 of node camp (when flags.night)' });
+    const merged = mergeTranslations(story, { sourceLocale: 'en', targetLocale: 'de', units: [{ id: 'camp.block.1', source: 'Mira is asleep.', target: 'Mira schläft.' }] });
+    expect(merged.story.nodes[0].blocks?.[1].textKey).toBe('camp.block.1');
+    const engine = createQNCEEngine(merged.story, { flags: { night: true } }, false, undefined, { locale: 'de' });
+    expect(engine.getContentBlocks()[1].text).toBe('Mira schläft.');
+  });
+
+  test('qnce-audit flags block conditions on undeclared flags', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'qnce-blocks-'));
+    try {
+      writeFileSync(join(dir, 'story.json'), JSON.stringify(story));
+      const audit = spawnSync('node', [resolve(__dirname, '../dist/cli/audit.js'), join(dir, 'story.json')], { encoding: 'utf-8' });
+      expect(audit.stdout).toContain('❌ Content block conditions reference undeclared flags:');
+      expect(audit.stdout).toContain('- camp block 4: guard');
+      expect(audit.stdout).not.toContain('camp block 2: night');
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,130 @@
+import { spawnSync } from 'node:child_process';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join, resolve } from 'node:path';
+import { createQNCEEngine, type StoryData } from '../src/engine/core';
+import { parseSpeakerLines, speakerIdFromName } from '../src/engine/dialogue';
+import { CustomJSONAdapter } from '../src/adapters/story/CustomJSONAdapter';
+import { TwisonAdapter } from '../src/adapters/story/TwisonAdapter';
+import { InkAdapter } from '../src/adapters/story/InkAdapter';
+import { collectTranslatableStrings } from '../src/adapters/translation/strings';
+
+describe('Dialogue', () => {
+  const story: StoryData = {
+    initialNodeId: 'tavern',
+    templating: true,
+    defaultLocale: 'en',
+    locales: { fr: { 'tavern.greet': 'Bienvenue, {flags.name} !', 'character.tom.name': 'Vieux Tom' } },
+    characters: [
+      { id: 'tom', name: 'Old Tom', color: '#a0522d', portraits: { default: 'tom.png', angry: 'tom-angry.png' } },
+      { id: 'mira', name: 'Mira' }
+    ],
+    nodes: [
+      {
+        id: 'tavern',
+        text: 'Old Tom: Welcome!\nMira: Hm.',
+        dialogue: [
+          { speaker: 'tom', text: 'Welcome, {flags.name}!', textKey: 'tavern.greet' },
+          { speaker: 'tom', emotion: 'angry', text: 'Pay up.' },
+          { speaker: 'mira', emotion: 'sad', text: 'Hm.' },
+          { text: 'The fire crackles.' },
+          { speaker: 'stranger', text: '...' }
+        ],
+        choices: []
+      }
+    ]
+  };
+
+  test('resolves speakers to characters, names and portraits', () => {
+    const engine = createQNCEEngine(story, { flags: { name: 'Ada' } });
+    const lines = engine.getDialogue();
+    expect(lines.map(line => line.text)).toEqual(['Welcome, Ada!', 'Pay up.', 'Hm.', 'The fire crackles.', '...']);
+    expect(lines[0]).toMatchObject({ speakerName: 'Old Tom', portrait: 'tom.png', character: { color: '#a0522d' } });
+    expect(lines[1].portrait).toBe('tom-angry.png');
+    expect(lines[2]).toMatchObject({ speakerName: 'Mira', emotion: 'sad' });
+    expect(lines[2].portrait).toBeUndefined();
+    expect(lines[3].speakerName).toBeUndefined();
+    expect(lines[4]).toMatchObject({ speakerName: 'stranger' });
+    expect(lines[4].character).toBeUndefined();
+    expect(engine.getCurrentNode().dialogue?.[0].text).toBe('Welcome, Ada!');
+    expect(engine.getCharacter('mira')?.name).toBe('Mira');
+    expect(engine.getCharacters().map(c => c.id)).toEqual(['tom', 'mira']);
+  });
+
+  test('localizes dialogue lines and character names', () => {
+    const engine = createQNCEEngine(story, { flags: { name: 'Ada' } }, false, undefined, { locale: 'fr' });
+    const lines = engine.getDialogue();
+    expect(lines[0]).toMatchObject({ text: 'Bienvenue, Ada !', speakerName: 'Vieux Tom' });
+    expect(lines[2].speakerName).toBe('Mira');
+    engine.setLocale('en');
+    expect(engine.getDialogue()[0]).toMatchObject({ text: 'Welcome, Ada!', speakerName: 'Old Tom' });
+  });
+
+  test('parses the Name: line convention', () => {
+    expect(speakerIdFromName('Old Tom')).toBe('old-tom');
+    expect(parseSpeakerLines('Just narration.')).toBeUndefined();
+    expect(parseSpeakerLines('Old Tom (angry): Pay up!\nThe fire crackles.\n\nMira: Fine.')).toEqual({
+      lines: [
+        { speaker: 'old-tom', emotion: 'angry', text: 'Pay up!' },
+        { text: 'The fire crackles.' },
+        { speaker: 'mira', text: 'Fine.' }
+      ],
+      characters: [{ id: 'old-tom', name: 'Old Tom' }, { id: 'mira', name: 'Mira' }]
+    });
+  });
+
+  test('Twison and Ink adapters map speaker lines to dialogue and characters when opted in', async () => {
+    const twison = {
+      startnode: 1,
+      passages: [
+        { pid: 1, name: 'Gate', text: 'Guard: Halt!\nGuard (calm): Who goes there?\n[[Answer->Yard]]', links: [{ name: 'Answer', link: 'Yard' }] },
+        { pid: 2, name: 'Yard', text: 'An empty yard.' }
+      ]
+    };
+    const fromTwison = await new TwisonAdapter().load(twison, { speakerLines: true });
+    expect(fromTwison.characters).toEqual([{ id: 'guard', name: 'Guard' }]);
+    expect(fromTwison.nodes[0].dialogue).toEqual([
+      { speaker: 'guard', text: 'Halt!' },
+      { speaker: 'guard', emotion: 'calm', text: 'Who goes there?' }
+    ]);
+    expect(fromTwison.nodes[1].dialogue).toBeUndefined();
+
+    const ink = { start: 'inn', knots: { inn: { text: 'Mira: Sit down.\nShe pours tea.', choices: [] } } };
+    const fromInk = await new InkAdapter().load(ink, { speakerLines: true });
+    expect(fromInk.characters).toEqual([{ id: 'mira', name: 'Mira' }]);
+    expect(fromInk.nodes[0].dialogue).toEqual([{ speaker: 'mira', text: 'Sit down.' }, { text: 'She pours tea.' }]);
+  });
+
+  test('Twison and Ink adapters leave colon-prefixed prose alone by default', async () => {
+    const twison = { startnode: 1, passages: [{ pid: 1, name: 'Hall', text: 'Meanwhile in the castle: the lights go out.' }] };
+    const fromTwison = await new TwisonAdapter().load(twison);
+    expect(fromTwison.characters).toBeUndefined();
+    expect(fromTwison.nodes[0].dialogue).toBeUndefined();
+
+    const ink = { start: 'inn', knots: { inn: { text: 'Note: the inn is closed.', choices: [] } } };
+    const fromInk = await new InkAdapter().load(ink);
+    expect(fromInk.characters).toBeUndefined();
+    expect(fromInk.nodes[0].dialogue).toBeUndefined();
+  });
+
+  test('Custom JSON keeps dialogue and translation extracts line keys', async () => {
+    const loaded = await new CustomJSONAdapter().load(story, { strict: true });
+    expect(loaded.characters).toHaveLength(2);
+    expect(loaded.nodes[0].dialogue).toHaveLength(5);
+
+    const ids = collectTranslatableStrings(story).map(unit => unit.id);
+    expect(ids).toEqual(expect.arrayContaining(['tavern.greet', 'tavern.line.1', 'tavern.line.3', 'character.tom.name', 'character.mira.name']));
+  });
+
+  test('qnce-audit reports speakers missing from characters', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'qnce-dialogue-'));
+    try {
+      writeFileSync(join(dir, 'story.json'), JSON.stringify(story));
+      const audit = spawnSync('node', [resolve(__dirname, '../dist/cli/audit.js'), join(dir, 'story.json')], { encoding: 'utf-8' });
+      expect(audit.stdout).toContain('❌ Dialogue speakers not declared in characters:');
+      expect(audit.stdout).toContain('- stranger (in tavern)');
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,116 @@
+import { createQNCEEngine, type StoryData } from '../src/engine/core';
+import { TypedEventEmitter } from '../src/engine/events';
+import { createLogger } from '../src/utils/logger';
+
+describe('Engine events', () => {
+  const story: StoryData = {
+    initialNodeId: 'gate',
+    nodes: [
+      {
+        id: 'gate',
+        text: 'The gate.',
+        choices: [
+          { text: 'Enter', nextNodeId: 'hall', flagEffects: { entered: true } },
+          { text: 'Leave', nextNodeId: 'road' }
+        ]
+      },
+      { id: 'hall', text: '', redirects: [{ nextNodeId: 'throne' }], onEnter: { flagEffects: { halls: { $inc: 1 } } }, choices: [] },
+      { id: 'throne', text: 'The throne room.', choices: [{ text: 'Back', nextNodeId: 'gate' }] },
+      { id: 'road', text: 'The end of the road.', choices: [] }
+    ]
+  };
+
+  test('emits nodeExit/nodeEnter for every hop and flagChanged with old and new values', () => {
+    const engine = createQNCEEngine(story);
+    const seen: string[] = [];
+    engine.on('nodeExit', ({ nodeId, toNodeId }) => seen.push(`exit ${nodeId}->${toNodeId}`));
+    engine.on('nodeEnter', ({ nodeId }) => seen.push(`enter ${nodeId}`));
+    engine.on('flagChanged', ({ key, oldValue, newValue }) => seen.push(`${key}: ${oldValue} -> ${newValue}`));
+
+    engine.selectChoice(engine.getAvailableChoices()[0]);
+    expect(seen).toEqual([
+      'exit gate->hall', 'enter hall', 'exit hall->throne', 'enter throne',
+      'entered: undefined -> true', 'halls: undefined -> 1'
+    ]);
+
+    seen.length = 0;
+    engine.setFlag('entered', false);
+    engine.setFlag('entered', false);
+    expect(seen).toEqual(['entered: true -> false']);
+  });
+
+  test('emits undo, redo, stateLoaded and storyComplete', async () => {
+    const engine = createQNCEEngine(story);
+    const seen: string[] = [];
+    engine.on('undo', ({ nodeId, action }) => seen.push(`undo ${action} -> ${nodeId}`));
+    engine.on('redo', ({ nodeId }) => seen.push(`redo -> ${nodeId}`));
+    engine.on('stateLoaded', ({ source, nodeId }) => seen.push(`loaded ${source} ${nodeId}`));
+    engine.on('storyComplete', ({ nodeId }) => seen.push(`complete ${nodeId}`));
+
+    engine.selectChoice(engine.getAvailableChoices()[1]);
+    engine.undo();
+    engine.redo();
+    const saved = await engine.saveState();
+    engine.resetNarrative();
+    await engine.loadState(saved);
+    const checkpoint = await engine.createCheckpoint('cp');
+    await engine.restoreFromCheckpoint(checkpoint.id);
+
+    expect(seen).toEqual([
+      'complete road',
+      'undo choice -> gate',
+      'redo -> road',
+      'loaded save road',
+      'loaded checkpoint road'
+    ]);
+  });
+
+  test('once fires a single time and unsubscribe handles stop delivery', () => {
+    const engine = createQNCEEngine(story);
+    const entered: string[] = [];
+    const onceEntered: string[] = [];
+    const unsubscribe = engine.on('nodeEnter', ({ nodeId }) => entered.push(nodeId));
+    engine.once('nodeEnter', ({ nodeId }) => onceEntered.push(nodeId));
+
+    engine.goToNodeById('throne');
+    engine.goToNodeById('gate');
+    unsubscribe();
+    engine.goToNodeById('road');
+
+    expect(entered).toEqual(['throne', 'gate']);
+    expect(onceEntered).toEqual(['throne']);
+  });
+
+  test('emits logged engine errors and survives throwing listeners', () => {
+    const warnings: string[] = [];
+    const logger = createLogger({ level: 'warn', sink: { write: (entry) => { warnings.push(entry.message); } } });
+    const broken: StoryData = {
+      initialNodeId: 'a',
+      nodes: [{ id: 'a', text: 'A', choices: [{ text: 'Go', nextNodeId: 'a', flagEffects: { n: { $expr: 'flags.' } } }] }]
+    };
+    const engine = createQNCEEngine(broken, undefined, false, undefined, { logger });
+    const errors: string[] = [];
+    engine.on('error', ({ error }) => errors.push(error.kind));
+    engine.on('nodeEnter', () => { throw new Error('listener failure'); });
+
+    engine.selectChoice(engine.getAvailableChoices()[0]);
+    expect(errors).toEqual(['state']);
+    expect(engine.getCurrentNode().id).toBe('a');
+    expect(warnings).toHaveLength(2);
+  });
+
+  test('TypedEventEmitter removes once listeners via off and counts listeners', () => {
+    const emitter = new TypedEventEmitter<{ ping: number }>();
+    const calls: number[] = [];
+    const listener = (n: number) => calls.push(n);
+    emitter.once('ping', listener);
+    emitter.off('ping', listener);
+    emitter.emit('ping', 1);
+    emitter.on('ping', listener);
+    emitter.emit('ping', 2);
+    expect(calls).toEqual([2]);
+    expect(emitter.listenerCount('ping')).toBe(1);
+    emitter.removeAllListeners();
+    expect(emitter.listenerCount('ping')).toBe(0);
+  });
+});
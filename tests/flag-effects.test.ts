@@ -0,0 +1,157 @@
+import { spawnSync } from 'node:child_process';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join, resolve } from 'node:path';
+import { createQNCEEngine, type StoryData } from '../src/engine/core';
+import { applyFlagEffects, validateFlagEffects, isFlagOperation } from '../src/engine/effects';
+import { CustomJSONAdapter } from '../src/adapters/story/CustomJSONAdapter';
+import { StateError } from '../src/engine/errors';
+import { createLogger } from '../src/utils/logger';
+
+describe('Flag effect operators', () => {
+  const ctx = (flags: Record<string, unknown>) => ({ state: { currentNodeId: 'n', flags, history: [] }, timestamp: 0 });
+
+  test('applies numeric, boolean and list operators without mutating input', () => {
+    const flags = { gold: 25, lit: false, bag: ['rope', 'torch'] };
+    const next = applyFlagEffects(flags, {
+      gold: { $inc: -10 },
+      trust: { $inc: 2 },
+      lit: { $toggle: true },
+      bag: { $remove: 'rope', $push: 'key' },
+      seen: true
+    }, ctx(flags));
+    expect(next).toEqual({ gold: 15, trust: 2, lit: true, bag: ['torch', 'key'], seen: true });
+    expect(flags).toEqual({ gold: 25, lit: false, bag: ['rope', 'torch'] });
+  });
+
+  test('clamps results with $min/$max and evaluates $expr against prior state', () => {
+    const flags = { gold: 5, level: 3 };
+    const next = applyFlagEffects(flags, {
+      gold: { $dec: 10, $min: 0 },
+      level: { $inc: 5, $max: 6 },
+      power: { $expr: 'flags.level * 2 + 1' }
+    }, ctx(flags));
+    expect(next).toEqual({ gold: 0, level: 6, power: 7 });
+  });
+
+  test('treats $set as a literal escape and mixed objects as literals', () => {
+    const next = applyFlagEffects({}, { raw: { $set: { $inc: 1 } }, obj: { a: 1 } }, ctx({}));
+    expect(next).toEqual({ raw: { $inc: 1 }, obj: { a: 1 } });
+    expect(isFlagOperation({ $inc: 1 })).toBe(true);
+    expect(isFlagOperation({ $inc: 1, a: 2 })).toBe(false);
+    expect(isFlagOperation({})).toBe(false);
+  });
+
+  test('throws StateError on type mismatches unless an error handler is given', () => {
+    expect(() => applyFlagEffects({ name: 'Ada' }, { name: { $inc: 1 } }, ctx({}))).toThrow(StateError);
+    const failed: string[] = [];
+    const next = applyFlagEffects({ name: 'Ada', n: 1 }, { name: { $push: 'x' }, n: { $inc: 1 } }, ctx({}), (_e, flag) => failed.push(flag));
+    expect(failed).toEqual(['name']);
+    expect(next).toEqual({ name: 'Ada', n: 2 });
+  });
+
+  test('rejects unknown operators and mistyped operands when applied', () => {
+    expect(() => applyFlagEffects({ gold: 1 }, { gold: { $add: 5 } }, ctx({}))).toThrow(/unknown operator \$add/);
+    expect(() => applyFlagEffects({ gold: 1 }, { gold: { $inc: '5' } }, ctx({}))).toThrow(StateError);
+    const failed: string[] = [];
+    const next = applyFlagEffects({ gold: 1 }, { gold: { $inc: '5' }, tag: { $custom: true } }, ctx({}), (_e, flag) => failed.push(flag));
+    expect(failed).toEqual(['gold', 'tag']);
+    expect(next).toEqual({ gold: 1 });
+  });
+
+  test('validateFlagEffects reports malformed operators', () => {
+    expect(validateFlagEffects({ gold: { $inc: 1, $min: 0 }, name: 'x' })).toEqual([]);
+    expect(validateFlagEffects({
+      a: { $bogus: 1 },
+      b: { $inc: '1' },
+      c: { $toggle: false },
+      d: { $set: 1, $expr: '1' },
+      e: { $min: 5, $max: 1 },
+      f: { $expr: 'flags.a >' },
+      g: { $inc: 1, plain: 2 }
+    })).toEqual([
+      'a: unknown operator $bogus',
+      'b: $inc expects a number',
+      'c: $toggle expects true',
+      'd: $set and $expr cannot be combined',
+      'e: $min is greater than $max',
+      expect.stringMatching(/^f: invalid \$expr/),
+      'g: cannot mix operators with plain keys (wrap literal objects in $set)'
+    ]);
+    expect(validateFlagEffects([1])).toEqual(['flagEffects must be an object']);
+  });
+
+  describe('engine integration', () => {
+    const story: StoryData = {
+      initialNodeId: 'market',
+      nodes: [
+        {
+          id: 'market',
+          text: 'A busy market.',
+          onEnter: { flagEffects: { visits: { $inc: 1 } } },
+          choices: [
+            { text: 'Buy a sword', nextNodeId: 'market', flagEffects: { gold: { $dec: 10, $min: 0 }, inventory: { $push: 'sword' } } },
+            { text: 'Sell', nextNodeId: 'market', flagEffects: { gold: { $expr: 'flags.gold + flags.visits' } } }
+          ]
+        }
+      ]
+    };
+
+    test('selectChoice and node effects use operators; undo restores previous values', () => {
+      const engine = createQNCEEngine(story, { flags: { gold: 12 } });
+      expect(engine.getFlags()).toEqual({ gold: 12, visits: 1 });
+      engine.selectChoice(engine.getAvailableChoices()[0]);
+      expect(engine.getFlags()).toEqual({ gold: 2, visits: 2, inventory: ['sword'] });
+      engine.selectChoice(engine.getAvailableChoices()[1]);
+      expect(engine.getFlags().gold).toBe(4);
+      engine.undo();
+      expect(engine.getFlags()).toEqual({ gold: 2, visits: 2, inventory: ['sword'] });
+    });
+
+    test('logs and skips effects that cannot be applied', () => {
+      const warnings: string[] = [];
+      const logger = createLogger({ level: 'warn', sink: { write: (entry) => { warnings.push(entry.message); } } });
+      const engine = createQNCEEngine(story, { flags: { gold: 'lots' } }, false, undefined, { logger });
+      engine.selectChoice(engine.getAvailableChoices()[0]);
+      expect(engine.getFlags().gold).toBe('lots');
+      expect(engine.getFlags().inventory).toEqual(['sword']);
+      expect(warnings).toHaveLength(1);
+    });
+  });
+
+  test('CustomJSONAdapter strict mode rejects invalid operators', async () => {
+    const adapter = new CustomJSONAdapter();
+    const source = {
+      initialNodeId: 'a',
+      nodes: [{ id: 'a', text: 'A', choices: [{ text: 'x', nextNodeId: 'a', flagEffects: { gold: { $inc: 'ten' } } }] }]
+    };
+    await expect(adapter.load(source, { strict: true })).rejects.toThrow(/Invalid flagEffects in node a \(choice 0\): gold: \$inc expects a number/);
+    const lenient = await adapter.load(source);
+    expect(lenient.nodes[0].choices[0].flagEffects).toEqual({ gold: { $inc: 'ten' } });
+  });
+
+  test('qnce-audit reports flags read by any expression but never declared or written', () => {
+    const story: StoryData = {
+      initialNodeId: 'gate',
+      templating: true,
+      nodes: [{
+        id: 'gate',
+        text: 'The gate{if flags.open} stands open{/if} under {flags.lamp}.',
+        choices: [
+          { text: 'Enter', nextNodeId: 'gate', condition: 'flags["has key"] && flags.guard.asleep', lockedMessage: 'Need {flags.pass}', flagEffects: { score: { $expr: 'flags.bonus + 1' } } },
+          { text: 'Wait', nextNodeId: 'gate', flagEffects: { open: true } }
+        ]
+      }]
+    };
+    const dir = mkdtempSync(join(tmpdir(), 'qnce-flags-'));
+    try {
+      writeFileSync(join(dir, 'story.json'), JSON.stringify(story));
+      const audit = spawnSync('node', [resolve(__dirname, '../dist/cli/audit.js'), join(dir, 'story.json')], { encoding: 'utf-8' });
+      expect(audit.stdout).toContain('❓ Flags read but never declared or written:');
+      ['lamp', 'has key', 'guard', 'pass', 'bonus'].forEach(flag => expect(audit.stdout).toContain(`- ${flag} (read in gate)`));
+      expect(audit.stdout).not.toContain('- open (read in');
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
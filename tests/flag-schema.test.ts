@@ -0,0 +1,127 @@
+import { createQNCEEngine, FlagValidationError, type StoryData } from '../src/engine/core';
+import { FlagSchemaModel, validateFlagSchema } from '../src/engine/flag-schema';
+import { CustomJSONAdapter } from '../src/adapters/story/CustomJSONAdapter';
+import { createLogger } from '../src/utils/logger';
+
+describe('Flag schema', () => {
+  const story: StoryData = {
+    initialNodeId: 'camp',
+    flagSchema: {
+      gold: { type: 'number', integer: true, min: 0, max: 100, default: 10 },
+      mood: { type: 'string', enum: ['calm', 'angry'], default: 'calm' },
+      companions: { type: 'array', default: [] },
+      metGuard: { type: 'boolean' }
+    },
+    nodes: [
+      {
+        id: 'camp',
+        text: 'Camp.',
+        choices: [
+          { text: 'Spend', nextNodeId: 'market', flagEffects: { gold: { $dec: 25 }, mood: 'angry' } },
+          { text: 'Typo', nextNodeId: 'market', flagEffects: { metGaurd: true, companions: { $push: 'ayla' } } }
+        ]
+      },
+      { id: 'market', text: 'Market.', choices: [] }
+    ]
+  };
+
+  const collectWarnings = () => {
+    const warnings: string[] = [];
+    const logger = createLogger({ level: 'warn', sink: { write: (entry) => { warnings.push(entry.message); } } });
+    return { warnings, logger };
+  };
+
+  test('seeds declared defaults on fresh playthroughs, restored states and reset', () => {
+    const engine = createQNCEEngine(story);
+    expect(engine.getFlags()).toEqual({ gold: 10, mood: 'calm', companions: [] });
+
+    const restored = createQNCEEngine(story, { flags: { gold: 42 }, history: ['camp'] });
+    expect(restored.getFlags()).toEqual({ gold: 42, mood: 'calm', companions: [] });
+
+    engine.setFlag('gold', 3);
+    engine.resetNarrative();
+    expect(engine.getFlags().gold).toBe(10);
+    expect(engine.getFlagSchema().mood.enum).toEqual(['calm', 'angry']);
+  });
+
+  test('fills in declared defaults when loading saves that predate them', async () => {
+    const engine = createQNCEEngine(story);
+    engine.setFlag('gold', 42);
+    const saved = await engine.saveState();
+    // As if saved before mood and companions were declared
+    saved.state.flags = { gold: 42 };
+
+    const restored = createQNCEEngine(story);
+    expect((await restored.loadState(saved)).success).toBe(true);
+    expect(restored.getFlags()).toEqual({ gold: 42, mood: 'calm', companions: [] });
+
+    restored.loadSimpleState({ currentNodeId: 'camp', flags: { mood: 'angry' }, history: ['camp'] });
+    expect(restored.getFlags()).toEqual({ gold: 10, mood: 'angry', companions: [] });
+  });
+
+  test('warns on invalid setFlag writes but keeps them by default', () => {
+    const { warnings, logger } = collectWarnings();
+    const engine = createQNCEEngine(story, undefined, false, undefined, { logger });
+    engine.setFlag('glod', 5);
+    engine.setFlag('gold', 'lots');
+    engine.setFlag('gold', 50);
+    expect(engine.getFlags().glod).toBe(5);
+    expect(engine.getFlags().gold).toBe(50);
+    expect(warnings).toHaveLength(2);
+  });
+
+  test("'error' strictness throws from setFlag without changing state", () => {
+    const engine = createQNCEEngine(story, undefined, false, undefined, { flagStrictness: 'error' });
+    expect(() => engine.setFlag('gold', 101)).toThrow(FlagValidationError);
+    expect(() => engine.setFlag('mood', 'sleepy')).toThrow(/not one of "calm", "angry"/);
+    expect(() => engine.setFlag('gold', 2.5)).toThrow(/expected an integer/);
+    expect(engine.getFlags()).toEqual({ gold: 10, mood: 'calm', companions: [] });
+    engine.setFlag('metGuard', true);
+    expect(engine.getFlags().metGuard).toBe(true);
+  });
+
+  test("'error' strictness drops invalid flagEffects writes and applies the rest", () => {
+    const { warnings, logger } = collectWarnings();
+    const engine = createQNCEEngine(story, undefined, false, undefined, { logger, flagStrictness: 'error' });
+    engine.selectChoice(engine.getAvailableChoices()[0]);
+    expect(engine.getFlags().gold).toBe(10);
+    expect(engine.getFlags().mood).toBe('angry');
+    expect(warnings).toHaveLength(1);
+
+    engine.resetNarrative();
+    engine.selectChoice(engine.getAvailableChoices()[1]);
+    expect(engine.getFlags()).not.toHaveProperty('metGaurd');
+    expect(engine.getFlags().companions).toEqual(['ayla']);
+  });
+
+  test("'off' strictness ignores the schema but still seeds defaults", () => {
+    const { warnings, logger } = collectWarnings();
+    const engine = createQNCEEngine(story, undefined, false, undefined, { logger, flagStrictness: 'off' });
+    engine.setFlag('anything', { nested: true });
+    engine.selectChoice(engine.getAvailableChoices()[0]);
+    expect(engine.getFlags().gold).toBe(-15);
+    expect(warnings).toHaveLength(0);
+  });
+
+  test('validates declarations and rejects broken schemas in strict adapter mode', async () => {
+    expect(validateFlagSchema(story.flagSchema)).toEqual([]);
+    expect(validateFlagSchema({
+      hp: { type: 'number', min: 10, max: 1 },
+      name: { type: 'string', min: 1 },
+      rank: { type: 'string', enum: ['a'], default: 'b' },
+      odd: { type: 'date' }
+    })).toEqual([
+      'hp: min is greater than max',
+      'name: min/max/integer only apply to number flags',
+      'odd: unknown type "date"',
+      'default rank: "b" is not one of "a"'
+    ]);
+    expect(new FlagSchemaModel().check('anything', 1)).toBeUndefined();
+
+    const adapter = new CustomJSONAdapter();
+    const loaded = await adapter.load(story, { strict: true });
+    expect(loaded.flagSchema).toEqual(story.flagSchema);
+    await expect(adapter.load({ ...story, flagSchema: { hp: { type: 'number', default: 'full' } } }, { strict: true }))
+      .rejects.toThrow('Invalid flagSchema: default hp: expected number, got string');
+  });
+});
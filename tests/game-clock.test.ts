@@ -0,0 +1,84 @@
+import { createQNCEEngine, type StoryData } from '../src/engine/core';
+import { ManualClock } from '../src/engine/clock';
+import { CustomJSONAdapter } from '../src/adapters/story/CustomJSONAdapter';
+import { StoryDataError } from '../src/engine/errors';
+
+describe('Game clock', () => {
+  const story: StoryData = {
+    initialNodeId: 'inn',
+    templating: true,
+    gameClock: { start: { hours: 8 }, weekdays: ['Moonday', 'Towerday'], epoch: '1200-03-01T00:00:00Z' },
+    nodes: [
+      {
+        id: 'inn',
+        text: 'It is {time.clock} on {time.weekday}.',
+        choices: [
+          { text: 'Rest', nextNodeId: 'inn', advanceTime: { hours: 14, minutes: 30 } },
+          { text: 'Travel', nextNodeId: 'road' },
+          { text: 'Visit the market', nextNodeId: 'inn', condition: 'hourBetween(9, 17) && time.day == 1' },
+          { text: 'Sneak out', nextNodeId: 'inn', condition: 'time.period == "night"' },
+          { text: 'Festival', nextNodeId: 'inn', timeRequirements: { availableAfter: new Date('1200-03-02T00:00:00Z') } }
+        ]
+      },
+      { id: 'road', text: 'The long road.', duration: { days: 1 }, choices: [{ text: 'Back', nextNodeId: 'inn' }] }
+    ]
+  };
+
+  test('choices and node durations advance the clock that conditions and templates read', () => {
+    const engine = createQNCEEngine(story);
+    const advances: string[] = [];
+    engine.on('timeAdvanced', ({ minutes, time }) => advances.push(`+${minutes} -> day ${time.day} ${time.clock}`));
+    expect(engine.getGameTime()).toEqual({ total: 480, day: 1, hour: 8, minute: 0, clock: '08:00', weekday: 'Moonday', period: 'morning', timestamp: Date.parse('1200-03-01T08:00:00Z') });
+    expect(engine.getCurrentNode().text).toBe('It is 08:00 on Moonday.');
+    expect(engine.getAvailableChoices().map(c => c.text)).toEqual(['Rest', 'Travel']);
+
+    engine.advanceTime(90);
+    expect(engine.getAvailableChoices().map(c => c.text)).toEqual(['Rest', 'Travel', 'Visit the market']);
+
+    engine.selectChoice(engine.getAvailableChoices()[0]);
+    expect(engine.getGameTime()).toMatchObject({ day: 2, clock: '00:00', weekday: 'Towerday', period: 'night' });
+    expect(engine.getAvailableChoices().map(c => c.text)).toEqual(['Rest', 'Travel', 'Sneak out', 'Festival']);
+
+    engine.selectChoice(engine.getAvailableChoices()[1]);
+    expect(engine.getGameTime()).toMatchObject({ day: 3, weekday: 'Moonday' });
+    expect(advances).toEqual(['+90 -> day 1 09:30', '+870 -> day 2 00:00', '+1440 -> day 3 00:00']);
+  });
+
+  test('game time is undone, saved, loaded and reset', async () => {
+    const engine = createQNCEEngine(story);
+    engine.selectChoice(engine.getAvailableChoices()[1]);
+    engine.advanceTime({ minutes: 5 });
+    expect(engine.getState().gameTime).toBe(480 + 1440 + 5);
+    engine.undo();
+    expect(engine.getState().gameTime).toBe(480 + 1440);
+    engine.undo();
+    expect(engine.getState().gameTime).toBe(480);
+    engine.redo();
+
+    const saved = await engine.saveState();
+    expect(saved.state.gameTime).toBe(1920);
+    const restored = createQNCEEngine(story);
+    await restored.loadState(saved);
+    expect(restored.getGameTime().day).toBe(2);
+
+    restored.resetNarrative();
+    expect(restored.getGameTime().total).toBe(480);
+    expect(() => restored.advanceTime(-1)).toThrow(StoryDataError);
+  });
+
+  test("timeSource 'real' keeps timeRequirements on the engine clock", async () => {
+    const realTime: StoryData = { ...story, gameClock: { ...story.gameClock, timeSource: 'real' } };
+    const clock = new ManualClock(Date.parse('1200-03-01T12:00:00Z'));
+    const engine = createQNCEEngine(realTime, undefined, false, undefined, { clock });
+    engine.selectChoice(engine.getAvailableChoices()[0]);
+    expect(engine.getGameTime().clock).toBe('22:30');
+    expect(engine.getAvailableChoices().map(c => c.text)).not.toContain('Festival');
+    clock.advance(12 * 3600000);
+    expect(engine.getAvailableChoices().map(c => c.text)).toContain('Festival');
+
+    const loaded = await new CustomJSONAdapter().load(story, { strict: true });
+    expect(loaded.gameClock?.weekdays).toEqual(['Moonday', 'Towerday']);
+    expect(loaded.nodes[1].duration).toEqual({ days: 1 });
+    expect(loaded.nodes[0].choices[0].advanceTime).toEqual({ hours: 14, minutes: 30 });
+  });
+});
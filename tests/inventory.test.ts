@@ -0,0 +1,115 @@
+import { createQNCEEngine, InventoryError, type StoryData } from '../src/engine/core';
+import { InventoryModel } from '../src/engine/inventory';
+import { conditionEvaluator } from '../src/engine/condition';
+
+describe('Inventory', () => {
+  const story: StoryData = {
+    initialNodeId: 'gate',
+    items: [
+      { id: 'key', name: 'Rusty key', maxStack: 1 },
+      { id: 'coin', name: 'Gold coin' },
+      { id: 'sword' }
+    ],
+    inventory: { capacity: 5, initial: { coin: 3 } },
+    nodes: [
+      {
+        id: 'gate',
+        text: 'A locked gate.',
+        choices: [
+          { text: 'Pick up the key', nextNodeId: 'gate', inventoryEffects: { key: 1 }, condition: '!has("key")' },
+          { text: 'Unlock the gate', nextNodeId: 'yard', inventoryRequirements: { key: 1 }, consumeInventory: true },
+          { text: 'Buy a sword', nextNodeId: 'gate', inventoryEffects: { coin: -2, sword: 1 }, condition: 'count("coin") >= 2' }
+        ]
+      },
+      { id: 'yard', text: 'The yard.', choices: [] }
+    ]
+  };
+
+  const choice = (engine: ReturnType<typeof createQNCEEngine>, text: string) => {
+    const found = engine.getAvailableChoices().find(c => c.text === text);
+    if (!found) throw new Error(`Choice not available: ${text}`);
+    return found;
+  };
+
+  test('starts with the declared initial inventory and exposes counts', () => {
+    const engine = createQNCEEngine(story);
+    expect(engine.getInventory()).toEqual({ coin: 3 });
+    expect(engine.getItemCount('coin')).toBe(3);
+    expect(engine.hasItem('coin', 4)).toBe(false);
+    expect(engine.getItemDefinitions().map(i => i.id)).toEqual(['key', 'coin', 'sword']);
+  });
+
+  test('add/remove enforce declared items, maxStack, capacity and quantities', () => {
+    const engine = createQNCEEngine(story);
+    engine.addItem('key');
+    expect(() => engine.addItem('key')).toThrow(/more than 1 of key/);
+    expect(() => engine.addItem('potion')).toThrow(InventoryError);
+    engine.addItem('sword');
+    expect(() => engine.addItem('coin')).toThrow(/capacity \(5\)/);
+    engine.removeItem('coin', 3);
+    expect(engine.getInventory()).toEqual({ key: 1, sword: 1 });
+    expect(() => engine.removeItem('coin')).toThrow(/have 0/);
+  });
+
+  test('choices use has()/count() conditions, inventory effects and consume-on-choose', () => {
+    const engine = createQNCEEngine(story);
+    expect(engine.getAvailableChoices().map(c => c.text)).toEqual(['Pick up the key', 'Buy a sword']);
+    engine.selectChoice(choice(engine, 'Pick up the key'));
+    engine.selectChoice(choice(engine, 'Buy a sword'));
+    expect(engine.getInventory()).toEqual({ coin: 1, key: 1, sword: 1 });
+    engine.selectChoice(choice(engine, 'Unlock the gate'));
+    expect(engine.getCurrentNode().id).toBe('yard');
+    expect(engine.getInventory()).toEqual({ coin: 1, sword: 1 });
+  });
+
+  test('a choice whose inventory effects fail throws and leaves state untouched', () => {
+    const engine = createQNCEEngine(story, { inventory: { coin: 2, sword: 3 } });
+    const pickUp = story.nodes[0].choices[0];
+    expect(() => engine.selectChoice({ ...pickUp, inventoryEffects: { key: 1, coin: 1 } })).toThrow(InventoryError);
+    expect(engine.getState().history).toEqual(['gate']);
+    expect(engine.getInventory()).toEqual({ coin: 2, sword: 3 });
+  });
+
+  test('participates in undo/redo, reset and saveState/loadState', async () => {
+    const engine = createQNCEEngine(story);
+    engine.addItem('sword');
+    engine.selectChoice(choice(engine, 'Buy a sword'));
+    expect(engine.getInventory()).toEqual({ coin: 1, sword: 2 });
+
+    engine.undo();
+    expect(engine.getInventory()).toEqual({ coin: 3, sword: 1 });
+    engine.undo();
+    expect(engine.getInventory()).toEqual({ coin: 3 });
+    engine.redo();
+    expect(engine.getInventory()).toEqual({ coin: 3, sword: 1 });
+
+    const saved = await engine.saveState();
+    engine.resetNarrative();
+    expect(engine.getInventory()).toEqual({ coin: 3 });
+    await engine.loadState(saved);
+    expect(engine.getInventory()).toEqual({ coin: 3, sword: 1 });
+  });
+
+  test('INVENTORY_CONDITIONS falls back to flags.inventory for legacy stories', () => {
+    const legacy: StoryData = {
+      initialNodeId: 'a',
+      nodes: [{ id: 'a', text: 'A', choices: [{ text: 'Use torch', nextNodeId: 'a', inventoryRequirements: { torch: 1 } }] }]
+    };
+    expect(createQNCEEngine(legacy).getAvailableChoices()).toHaveLength(0);
+    expect(createQNCEEngine(legacy, { flags: { inventory: { torch: 1 } } }).getAvailableChoices()).toHaveLength(1);
+  });
+
+  test('InventoryModel applies removals before additions and accepts any id without definitions', () => {
+    const model = new InventoryModel([], { capacity: 2 });
+    expect(model.applyChanges({ rope: 2 }, { lamp: 1, rope: -1 })).toEqual({ rope: 1, lamp: 1 });
+    expect(() => model.add({}, 'rope', 0)).toThrow(/Invalid quantity/);
+  });
+
+  test('condition function calls only reach context-supplied functions', () => {
+    const ctx = { state: { currentNodeId: 'a', flags: {}, history: [] }, timestamp: 0, functions: { twice: (n: unknown) => Number(n) * 2 } };
+    expect(conditionEvaluator.evaluateValue('twice(2) + 1', ctx)).toBe(5);
+    expect(() => conditionEvaluator.evaluate('toString()', ctx)).toThrow();
+    expect(() => conditionEvaluator.evaluate('has("x")', { ...ctx, functions: undefined })).toThrow();
+    expect(conditionEvaluator.validateExpression('has("key", 2) && count("coin") > 1').valid).toBe(true);
+  });
+});
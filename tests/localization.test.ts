@@ -0,0 +1,88 @@
+import { createQNCEEngine, type StoryData } from '../src/engine/core';
+import { LocaleTable } from '../src/engine/locale';
+import { CustomJSONAdapter } from '../src/adapters/story/CustomJSONAdapter';
+
+describe('Localization', () => {
+  const story: StoryData = {
+    initialNodeId: 'inn',
+    defaultLocale: 'en',
+    localeFallbacks: { 'pt-BR': ['es'] },
+    locales: {
+      en: { 'inn.text': 'The inn is quiet.', 'inn.drink': 'Order a drink' },
+      es: { 'inn.text': 'La posada está tranquila.', 'inn.drink': 'Pedir una bebida', 'inn.leave': 'Salir' },
+      pt: { 'inn.text': 'A estalagem está quieta.' },
+      fr: { 'inn.text': 'L’auberge est calme, {flags.name}.' }
+    },
+    nodes: [
+      {
+        id: 'inn',
+        text: 'The inn is quiet.',
+        textKey: 'inn.text',
+        choices: [
+          { text: 'Order a drink', textKey: 'inn.drink', nextNodeId: 'inn', once: true, flagEffects: { drinks: { $inc: 1 } } },
+          { text: 'Leave', textKey: 'inn.leave', nextNodeId: 'road' }
+        ]
+      },
+      { id: 'road', text: 'The road.', choices: [] }
+    ]
+  };
+
+  test('resolves keys through the fallback chain before using inline text', () => {
+    const table = new LocaleTable(story);
+    expect(table.fallbackChain('pt-BR')).toEqual(['pt-BR', 'pt', 'es', 'en']);
+    expect(table.resolve('inn.text', 'pt-BR')).toBe('A estalagem está quieta.');
+    expect(table.resolve('inn.drink', 'pt-BR')).toBe('Pedir una bebida');
+    expect(table.resolve('inn.leave', 'de')).toBeUndefined();
+    expect(table.findMissing(['inn.text', 'inn.leave'])).toEqual({
+      en: ['inn.leave'], es: [], pt: ['inn.leave'], fr: ['inn.leave']
+    });
+
+    const engine = createQNCEEngine(story, undefined, false, undefined, { locale: 'pt-BR' });
+    expect(engine.getCurrentNode().text).toBe('A estalagem está quieta.');
+    expect(engine.getAvailableChoices().map(c => c.text)).toEqual(['Pedir una bebida', 'Salir']);
+
+    const english = createQNCEEngine(story);
+    expect(english.getLocale()).toBe('en');
+    expect(english.getAvailableChoices().map(c => c.text)).toEqual(['Order a drink', 'Leave']);
+  });
+
+  test('setLocale re-renders without touching state', () => {
+    const engine = createQNCEEngine(story);
+    const changes: string[] = [];
+    engine.on('localeChanged', ({ locale, previousLocale }) => changes.push(`${previousLocale} -> ${locale}`));
+    engine.selectChoice(engine.getAvailableChoices()[0]);
+    const before = engine.getState();
+
+    engine.setLocale('es');
+    engine.setLocale('es');
+    expect(changes).toEqual(['en -> es']);
+    expect(engine.getCurrentNode().text).toBe('La posada está tranquila.');
+    expect(engine.getState()).toEqual(before);
+    expect(engine.getAvailableLocales()).toEqual(['en', 'es', 'pt', 'fr']);
+  });
+
+  test('localized choices keep their identity for once-choices and selection counts', () => {
+    const engine = createQNCEEngine(story, undefined, false, undefined, { locale: 'es' });
+    const [drink] = engine.getAvailableChoices();
+    expect(drink.text).toBe('Pedir una bebida');
+    engine.selectChoice(drink);
+    expect(engine.getFlags().drinks).toBe(1);
+    expect(engine.getAvailableChoices().map(c => c.text)).toEqual(['Salir']);
+  });
+
+  test('templates in translated text are rendered after lookup', () => {
+    const engine = createQNCEEngine({ ...story, templating: true }, { flags: { name: 'Ada' } }, false, undefined, { locale: 'fr' });
+    expect(engine.getCurrentNode().text).toBe('L’auberge est calme, Ada.');
+    engine.setLocale('en');
+    expect(engine.getCurrentNode().text).toBe('The inn is quiet.');
+  });
+
+  test('CustomJSONAdapter keeps locale tables and text keys', async () => {
+    const loaded = await new CustomJSONAdapter().load(story, { strict: true });
+    expect(loaded.locales).toEqual(story.locales);
+    expect(loaded.defaultLocale).toBe('en');
+    expect(loaded.localeFallbacks).toEqual({ 'pt-BR': ['es'] });
+    expect(loaded.nodes[0].textKey).toBe('inn.text');
+    expect(loaded.nodes[0].choices[1].textKey).toBe('inn.leave');
+  });
+});
@@ -0,0 +1,119 @@
+import { spawnSync } from 'node:child_process';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join, resolve } from 'node:path';
+import { createQNCEEngine, type StoryData } from '../src/engine/core';
+import { MetaProgressStore } from '../src/engine/meta-progress';
+import { ManualClock } from '../src/engine/clock';
+import { MemoryStorageAdapter } from '../src/persistence/StorageAdapters';
+import { CustomJSONAdapter } from '../src/adapters/story/CustomJSONAdapter';
+import { createLogger } from '../src/utils/logger';
+
+describe('Endings and achievements', () => {
+  const story: StoryData = {
+    initialNodeId: 'start',
+    nodes: [
+      {
+        id: 'start',
+        text: 'A fork.',
+        choices: [
+          { text: 'Library', nextNodeId: 'library' },
+          { text: 'Jump', nextNodeId: 'fall' }
+        ]
+      },
+      { id: 'library', text: 'Books.', achievement: { id: 'reader', title: 'Bookworm' }, choices: [{ text: 'Read on', nextNodeId: 'wisdom' }] },
+      { id: 'wisdom', text: 'You know everything.', ending: { id: 'wise', title: 'The Wise Ending' }, choices: [] },
+      { id: 'fall', text: 'You fall.', ending: {}, choices: [] }
+    ]
+  };
+
+  test('unlocks on arrival, announces new unlocks once and survives resetNarrative', () => {
+    const engine = createQNCEEngine(story, undefined, false, undefined, { clock: new ManualClock(1000) });
+    const unlocked: string[] = [];
+    engine.on('unlocked', ({ kind, id, nodeId, title }) => unlocked.push(`${kind}:${id}@${nodeId}${title ? ` ${title}` : ''}`));
+    expect(engine.getCompletionPercentage()).toBe(0);
+
+    engine.selectChoice(engine.getAvailableChoices()[0]);
+    engine.selectChoice(engine.getAvailableChoices()[0]);
+    expect(unlocked).toEqual(['achievement:reader@library Bookworm', 'ending:wise@wisdom The Wise Ending']);
+    expect(engine.getUnlockedEndings()).toEqual([{ kind: 'ending', id: 'wise', nodeId: 'wisdom', title: 'The Wise Ending', unlocked: true, unlockedAt: 1000 }]);
+    expect(engine.getUnlockedAchievements().map(a => a.id)).toEqual(['reader']);
+    expect(engine.getCompletionPercentage()).toBeCloseTo(200 / 3);
+
+    engine.resetNarrative();
+    engine.goToNodeById('library');
+    engine.goToNodeById('fall');
+    expect(unlocked).toHaveLength(3);
+    expect(unlocked[2]).toBe('ending:fall@fall');
+    expect(engine.getEndings().map(e => `${e.id}:${e.unlocked}`)).toEqual(['wise:true', 'fall:true']);
+    expect(engine.getCompletionPercentage()).toBe(100);
+    expect(engine.getState().flags).toEqual({});
+  });
+
+  test('unlocks declarations on the opening node and on nodes its redirects reach', () => {
+    const opening: StoryData = {
+      initialNodeId: 'prologue',
+      nodes: [
+        { id: 'prologue', text: 'Once upon a time.', achievement: { id: 'started' }, redirects: [{ nextNodeId: 'epilogue' }], choices: [] },
+        { id: 'epilogue', text: 'The end.', ending: { id: 'short' }, choices: [] }
+      ]
+    };
+    const engine = createQNCEEngine(opening);
+    expect(engine.getUnlockedAchievements().map(a => a.id)).toEqual(['started']);
+    expect(engine.getUnlockedEndings().map(e => e.id)).toEqual(['short']);
+  });
+
+  test('persists meta progress through a storage adapter across engines', async () => {
+    const adapter = new MemoryStorageAdapter();
+    const first = new MetaProgressStore({ adapter, key: 'demo-meta' });
+    const engine = createQNCEEngine(story, undefined, false, undefined, { metaProgress: first });
+    engine.goToNodeById('fall');
+    await new Promise(r => setTimeout(r, 0));
+    expect(await adapter.exists('demo-meta')).toBe(true);
+
+    const second = new MetaProgressStore({ adapter, key: 'demo-meta' });
+    await second.load();
+    const fresh = createQNCEEngine(story, undefined, false, undefined, { metaProgress: second });
+    expect(fresh.getUnlockedEndings().map(e => e.id)).toEqual(['fall']);
+    expect(fresh.getMetaProgressStore()).toBe(second);
+
+    await second.clear();
+    const third = new MetaProgressStore({ adapter, key: 'demo-meta' });
+    await third.load();
+    expect(third.getProgress()).toEqual({ endings: {}, achievements: {} });
+  });
+
+  test('reports failed saves as persistence errors', async () => {
+    const adapter = new MemoryStorageAdapter();
+    jest.spyOn(adapter, 'save').mockResolvedValue({ success: false, error: 'disk full' });
+    const warnings: string[] = [];
+    const engine = createQNCEEngine(story, undefined, false, undefined, {
+      metaProgress: new MetaProgressStore({ adapter }),
+      logger: createLogger({ level: 'warn', sink: { write: entry => warnings.push(entry.message) } })
+    });
+    const errors: string[] = [];
+    engine.on('error', ({ error }) => errors.push(`${error.kind}: ${error.message}`));
+    engine.goToNodeById('fall');
+    await new Promise(r => setTimeout(r, 0));
+    expect(errors).toEqual(['persistence: Meta progress save failed']);
+    expect(warnings).toHaveLength(1);
+  });
+
+  test('Custom JSON keeps ending declarations and qnce-audit no longer calls endings dead ends', async () => {
+    const loaded = await new CustomJSONAdapter().load(story, { strict: true });
+    expect(loaded.nodes[2].ending).toEqual({ id: 'wise', title: 'The Wise Ending' });
+
+    const dir = mkdtempSync(join(tmpdir(), 'qnce-endings-'));
+    try {
+      const withDeadEnd = { ...story, nodes: [...story.nodes, { id: 'stuck', text: 'Nothing here.', choices: [] }] };
+      writeFileSync(join(dir, 'story.json'), JSON.stringify(withDeadEnd));
+      const audit = spawnSync('node', [resolve(__dirname, '../dist/cli/audit.js'), join(dir, 'story.json')], { encoding: 'utf-8' });
+      expect(audit.stdout).toContain('🏁 Endings: 2, achievements: 1');
+      expect(audit.stdout).toContain('- ending wise "The Wise Ending" (wisdom)');
+      expect(audit.stdout).toContain('🔚 Dead ends found: 1');
+      expect(audit.stdout).toContain('- stuck:');
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,117 @@
+import { createQNCEEngine, type StoryData } from '../src/engine/core';
+import { StoryDeltaComparator, StoryDeltaPatcher } from '../src/performance/HotReloadDelta';
+
+describe('Node entry/exit effects', () => {
+  const story: StoryData = {
+    initialNodeId: 'street',
+    nodes: [
+      {
+        id: 'street',
+        text: 'A quiet street.',
+        onEnter: { flagEffects: { outside: true } },
+        onExit: { flagEffects: { outside: false } },
+        choices: [{ text: 'Enter the tavern', nextNodeId: 'tavern', flagEffects: { door: 'open' } }]
+      },
+      {
+        id: 'tavern',
+        text: 'The tavern is warm.',
+        onEnter: { flagEffects: { visitedTavern: true, door: 'closed' } },
+        choices: [{ text: 'Leave', nextNodeId: 'street' }]
+      }
+    ]
+  };
+
+  test('applies the initial node onEnter on construction and reset', () => {
+    const engine = createQNCEEngine(story);
+    expect(engine.getFlags()).toEqual({ outside: true });
+    engine.setFlag('outside', 'changed');
+    engine.resetNarrative();
+    expect(engine.getFlags()).toEqual({ outside: true });
+  });
+
+  test('does not re-run onEnter when restoring a saved history', () => {
+    const engine = createQNCEEngine(story, { currentNodeId: 'tavern', flags: {}, history: ['street', 'tavern'] });
+    expect(engine.getFlags()).toEqual({});
+  });
+
+  test('selectChoice applies onExit, then choice effects, then onEnter', () => {
+    const engine = createQNCEEngine(story);
+    engine.selectChoice(engine.getAvailableChoices()[0]);
+    expect(engine.getFlags()).toEqual({ outside: false, door: 'closed', visitedTavern: true });
+  });
+
+  test('goToNodeById applies effects and can be undone', () => {
+    const engine = createQNCEEngine(story);
+    engine.goToNodeById('tavern');
+    expect(engine.getFlags()).toEqual({ outside: false, visitedTavern: true, door: 'closed' });
+    expect(engine.getHistorySummary().undoEntries.map(e => e.action)).toEqual(['navigation']);
+
+    const result = engine.undo();
+    expect(result.success).toBe(true);
+    expect(engine.getCurrentNode().id).toBe('street');
+    expect(engine.getFlags()).toEqual({ outside: true });
+
+    engine.redo();
+    expect(engine.getCurrentNode().id).toBe('tavern');
+    expect(engine.getFlags().visitedTavern).toBe(true);
+  });
+
+  test('goToNodeById without effects adds no undo entry unless navigation is tracked', () => {
+    const plain: StoryData = {
+      initialNodeId: 'a',
+      nodes: [{ id: 'a', text: 'A', choices: [] }, { id: 'b', text: 'B', choices: [] }]
+    };
+    const engine = createQNCEEngine(plain);
+    engine.goToNodeById('b');
+    expect(engine.getHistorySummary().undoEntries).toHaveLength(0);
+
+    engine.configureUndoRedo({ trackActions: ['choice', 'navigation'] });
+    engine.goToNodeById('a');
+    expect(engine.getHistorySummary().undoEntries.map(e => e.action)).toEqual(['navigation']);
+  });
+
+  test('undo after a choice restores flags written by node effects', () => {
+    const engine = createQNCEEngine(story);
+    engine.selectChoice(engine.getAvailableChoices()[0]);
+    engine.undo();
+    expect(engine.getFlags()).toEqual({ outside: true });
+  });
+
+  test('records applied node effects in flow event metadata', () => {
+    const engine = createQNCEEngine(story, undefined, true);
+    engine.selectChoice(engine.getAvailableChoices()[0]);
+    const flows = engine.getActiveFlows();
+    expect(flows[flows.length - 1].metadata).toMatchObject({
+      door: 'open',
+      nodeEffects: { onExit: ['outside'], onEnter: ['visitedTavern', 'door'] }
+    });
+  });
+
+  test('hot-reload deltas report effect changes and reject malformed effects', async () => {
+    const comparator = new StoryDeltaComparator();
+    const updated: StoryData = {
+      ...story,
+      nodes: story.nodes.map(n => n.id === 'tavern' ? { ...n, onEnter: { flagEffects: { visitedTavern: 2 } } } : n)
+    };
+    const delta = comparator.compareStories(story, updated);
+    expect(delta.nodeChanges[0]).toMatchObject({ nodeId: 'tavern', effectsChanged: true });
+
+    const engine = createQNCEEngine({ ...story, nodes: [...story.nodes] });
+    const patcher = new StoryDeltaPatcher(engine);
+    const result = await patcher.applyDelta(delta);
+    expect(result.success).toBe(true);
+    expect(result.effectsChanged).toEqual(['tavern']);
+    // Effects already applied on the current node are not re-run
+    expect(engine.getFlags()).toEqual({ outside: true });
+    engine.selectChoice(engine.getAvailableChoices()[0]);
+    expect(engine.getFlags().visitedTavern).toBe(2);
+
+    const broken = comparator.compareStories(story, {
+      ...story,
+      nodes: story.nodes.map(n => n.id === 'tavern' ? { ...n, onEnter: { flagEffects: 'oops' as unknown as Record<string, unknown> } } : n)
+    });
+    const rejected = await new StoryDeltaPatcher(engine).applyDelta(broken);
+    expect(rejected.success).toBe(false);
+    expect(rejected.error).toMatch(/Invalid onEnter effects on node tavern/);
+  });
+});
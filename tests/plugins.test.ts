@@ -0,0 +1,132 @@
+import { createQNCEEngine, PluginError, type StoryData } from '../src/engine/core';
+import type { QNCEPlugin } from '../src/engine/plugins';
+import { createTelemetry, createTelemetryPlugin } from '../src/telemetry/core';
+import type { QEvent } from '../src/telemetry/types';
+import { createQuantumPlugin } from '../src/quantum/integration';
+import { createLogger } from '../src/utils/logger';
+import { createDeltaTools } from '../src/performance/HotReloadDelta';
+
+describe('Plugins', () => {
+  const story: StoryData = {
+    initialNodeId: 'start',
+    nodes: [
+      { id: 'start', text: 'Start.', choices: [{ text: 'Go', nextNodeId: 'end' }] },
+      { id: 'end', text: 'End.', choices: [] }
+    ]
+  };
+
+  test('runs lifecycle callbacks in priority order', async () => {
+    const calls: string[] = [];
+    const plugin = (name: string, priority?: number): QNCEPlugin => ({
+      name,
+      priority,
+      install: () => calls.push(`${name}.install`),
+      onStoryLoad: s => calls.push(`${name}.story:${s.initialNodeId}`),
+      onNodeEnter: ({ nodeId, fromNodeId }) => calls.push(`${name}.enter:${fromNodeId}->${nodeId}`),
+      onChoice: ({ choice, toNodeId }) => calls.push(`${name}.choice:${choice.text}->${toNodeId}`),
+      dispose: () => { calls.push(`${name}.dispose`); }
+    });
+    const engine = createQNCEEngine(story).use(plugin('late')).use(plugin('early', 10));
+    expect(engine.getPlugins().map(p => p.name)).toEqual(['early', 'late']);
+    expect(() => engine.use(plugin('late'))).toThrow(PluginError);
+
+    engine.selectChoice(engine.getAvailableChoices()[0]);
+    await engine.dispose();
+    expect(calls).toEqual([
+      'late.install', 'late.story:start', 'early.install', 'early.story:start',
+      'early.choice:Go->end', 'late.choice:Go->end',
+      'early.enter:start->end', 'late.enter:start->end',
+      'late.dispose', 'early.dispose'
+    ]);
+    expect(engine.getPlugins()).toEqual([]);
+  });
+
+  test('keeps namespaced plugin state in saves and isolates failing callbacks', async () => {
+    let steps = 0;
+    const counter: QNCEPlugin = {
+      name: 'counter',
+      onNodeEnter: () => { steps++; },
+      serialize: () => ({ steps }),
+      deserialize: state => { steps = (state as { steps: number }).steps; }
+    };
+    const broken: QNCEPlugin = { name: 'broken', onNodeEnter: () => { throw new Error('boom'); } };
+    const warnings: string[] = [];
+    const engine = createQNCEEngine(story, undefined, false, undefined, {
+      logger: createLogger({ level: 'warn', sink: { write: entry => warnings.push(entry.message) } })
+    }).use(counter).use(broken);
+    const errors: string[] = [];
+    engine.on('error', ({ error }) => errors.push(`${error.message} (${String(error.context.operation)})`));
+
+    engine.selectChoice(engine.getAvailableChoices()[0]);
+    expect(steps).toBe(1);
+    expect(errors).toEqual(['plugin error (plugin:broken.onNodeEnter)']);
+    expect(warnings).toHaveLength(1);
+
+    const saved = await engine.saveState();
+    expect(saved.pluginState).toEqual({ counter: { steps: 1 } });
+    steps = 0;
+    expect((await engine.loadState(saved)).success).toBe(true);
+    expect(steps).toBe(1);
+
+    expect(await engine.removePlugin('counter')).toBe(true);
+    expect((await engine.saveState()).pluginState).toBeUndefined();
+  });
+
+  test('reports throwing dispose callbacks as error events', async () => {
+    const failing = (name: string): QNCEPlugin => ({ name, dispose: async () => { throw new Error(`${name} stuck`); } });
+    const disposed: string[] = [];
+    const engine = createQNCEEngine(story, undefined, false, undefined, { logger: createLogger({ level: 'warn', sink: { write: () => {} } }) })
+      .use(failing('first'))
+      .use({ name: 'clean', dispose: () => { disposed.push('clean'); } })
+      .use(failing('last'));
+    const errors: string[] = [];
+    engine.on('error', ({ error }) => errors.push(String(error.context.operation)));
+
+    await expect(engine.removePlugin('first')).resolves.toBe(true);
+    expect(engine.getPlugin('first')).toBeUndefined();
+    expect(errors).toEqual(['plugin:first.dispose']);
+
+    await engine.dispose();
+    expect(errors).toEqual(['plugin:first.dispose', 'plugin:last.dispose']);
+    expect(disposed).toEqual(['clean']);
+  });
+
+  test('telemetry and quantum integrations install as plugins', async () => {
+    const sent: QEvent[] = [];
+    const telemetry = createTelemetry({ adapter: { async send(batch) { sent.push(...batch); } }, enabled: true, batchSize: 100 });
+    const quantum = createQuantumPlugin({ 'quantum.entanglement': true });
+    const engine = createQNCEEngine(story).use(createTelemetryPlugin(telemetry, { sessionId: 'session-1' })).use(quantum);
+
+    engine.setFlag('a', 1);
+    quantum.integration!.entangle(e => e.bind('a', 'b'));
+    expect(engine.getFlags().b).toBe(1);
+
+    engine.selectChoice(engine.getAvailableChoices()[0]);
+    await engine.removePlugin('telemetry');
+    expect(sent[0]).toMatchObject({ type: 'session.start', ctx: { sessionId: 'session-1' } });
+    expect(sent.map(e => e.type)).toContain('choice.select');
+    const sentBeforeRemoval = sent.length;
+    engine.goToNodeById('start');
+    await telemetry.flush();
+    expect(sent).toHaveLength(sentBeforeRemoval);
+
+    await engine.dispose();
+    expect(quantum.integration).toBeUndefined();
+  });
+
+  test('runs onStoryLoad again after a hot-reload patch', async () => {
+    const texts: string[] = [];
+    const engine = createQNCEEngine(structuredClone(story)).use({
+      name: 'watcher',
+      onStoryLoad: s => texts.push(s.nodes.find(n => n.id === 'end')!.text)
+    });
+    const { patcher } = createDeltaTools(engine);
+    const result = await patcher.applyDelta({
+      nodeChanges: [{ nodeId: 'end', changeType: 'modified', newNode: { id: 'end', text: 'The end.', choices: [] }, affectedFields: ['text'] }],
+      assetChanges: [],
+      timestamp: Date.now()
+    });
+    expect(result.success).toBe(true);
+    expect(texts).toEqual(['End.', 'The end.']);
+  });
+});
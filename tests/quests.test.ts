@@ -0,0 +1,152 @@
+import { spawnSync } from 'node:child_process';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join, resolve } from 'node:path';
+import { createQNCEEngine, QuestError, type StoryData } from '../src/engine/core';
+import { conditionEvaluator } from '../src/engine/condition';
+import { CustomJSONAdapter } from '../src/adapters/story/CustomJSONAdapter';
+
+describe('Quests', () => {
+  const story: StoryData = {
+    initialNodeId: 'village',
+    quests: [
+      {
+        id: 'rescue',
+        title: 'The Lost Child',
+        journal: { active: 'Find the child in the woods.', completed: 'The child is home.', failed: 'Too late.' },
+        objectives: [{ id: 'map', description: 'Get the map' }, { id: 'child', description: 'Find the child' }, { id: 'flowers', optional: true }]
+      },
+      { id: 'bakery', title: 'Fresh Bread' }
+    ],
+    nodes: [
+      {
+        id: 'village',
+        text: 'The village square.',
+        choices: [
+          { text: 'Take the map', nextNodeId: 'woods', questEffects: { rescue: { complete: ['map'] } } },
+          { text: 'Help the baker', nextNodeId: 'village', questEffects: { bakery: 'active' } }
+        ]
+      },
+      {
+        id: 'woods',
+        text: 'The woods.',
+        choices: [
+          { text: 'Search', nextNodeId: 'home', questEffects: { rescue: { complete: ['child'] } } },
+          { text: 'Give up', nextNodeId: 'home', questEffects: { rescue: 'failed' } }
+        ]
+      },
+      {
+        id: 'home',
+        text: 'Home.',
+        choices: [
+          { text: 'Celebrate', nextNodeId: 'village', condition: 'quest.rescue == "completed" && quest.rescue.child' },
+          { text: 'Mourn', nextNodeId: 'village', condition: 'quest.rescue == "failed"' }
+        ]
+      }
+    ]
+  };
+
+  test('choice effects activate and complete quests, with events, journal and conditions', () => {
+    const engine = createQNCEEngine(story);
+    const updates: string[] = [];
+    engine.on('questUpdated', ({ questId, previousStatus, status, completedObjectives }) =>
+      updates.push(`${questId}: ${previousStatus} -> ${status}${completedObjectives ? ` [${completedObjectives.join(',')}]` : ''}`));
+    expect(engine.getQuestStatus('rescue')).toBe('inactive');
+    expect(engine.getJournal()).toEqual([]);
+
+    engine.selectChoice(engine.getAvailableChoices()[0]);
+    expect(engine.getJournal()).toEqual([{
+      id: 'rescue',
+      title: 'The Lost Child',
+      status: 'active',
+      text: 'Find the child in the woods.',
+      objectives: [
+        { id: 'map', description: 'Get the map', done: true },
+        { id: 'child', description: 'Find the child', done: false },
+        { id: 'flowers', optional: true, done: false }
+      ]
+    }]);
+
+    engine.selectChoice(engine.getAvailableChoices()[0]);
+    expect(updates).toEqual(['rescue: inactive -> active [map]', 'rescue: active -> completed [child]']);
+    expect(engine.getQuests()).toEqual({ rescue: { status: 'completed', objectives: ['map', 'child'] } });
+    expect(engine.getAvailableChoices().map(choice => choice.text)).toEqual(['Celebrate']);
+    expect(conditionEvaluator.evaluate('quest.bakery == "inactive" && !quest.rescue.flowers', { state: engine.getState(), timestamp: Date.now() })).toBe(true);
+  });
+
+  test('quest progress is undone, saved, loaded and cleared by resetNarrative', async () => {
+    const engine = createQNCEEngine(story);
+    engine.selectChoice(engine.getAvailableChoices()[0]);
+    engine.updateQuest('bakery', 'active');
+    expect(engine.getQuestStatus('bakery')).toBe('active');
+    engine.undo();
+    expect(engine.getQuestStatus('bakery')).toBe('inactive');
+    engine.undo();
+    expect(engine.getQuests()).toEqual({});
+    engine.redo();
+    expect(engine.getQuestStatus('rescue')).toBe('active');
+
+    const saved = await engine.saveState();
+    const restored = createQNCEEngine(story);
+    await restored.loadState(saved);
+    expect(restored.getQuests()).toEqual({ rescue: { status: 'active', objectives: ['map'] } });
+
+    restored.resetNarrative();
+    expect(restored.getQuests()).toEqual({});
+  });
+
+  test('rejects undeclared quests and objectives without changing state', () => {
+    const engine = createQNCEEngine(story);
+    expect(() => engine.updateQuest('dragon', 'active')).toThrow(QuestError);
+    expect(() => engine.updateQuest('rescue', { complete: ['sword'] })).toThrow('Unknown objective of quest rescue: sword');
+    const broken: StoryData = { ...story, nodes: [{ ...story.nodes[0], choices: [{ text: 'Slay', nextNodeId: 'woods', questEffects: { dragon: 'completed' } }] }, ...story.nodes.slice(1)] };
+    const brokenEngine = createQNCEEngine(broken);
+    expect(() => brokenEngine.selectChoice(brokenEngine.getAvailableChoices()[0])).toThrow(QuestError);
+    expect(brokenEngine.getState().currentNodeId).toBe('village');
+    expect(engine.getQuests()).toEqual({});
+  });
+
+  test('accepts "done" for completed and rejects comparisons against unknown quest statuses', () => {
+    const scope = (quests: Record<string, { status: 'active' | 'completed' }>) => ({ state: { currentNodeId: 'village', flags: {}, history: [], quests }, timestamp: 0 });
+    expect(conditionEvaluator.evaluate('quest.rescue == "done"', scope({ rescue: { status: 'completed' } }))).toBe(true);
+    expect(conditionEvaluator.evaluate('quest.rescue == "done"', scope({ rescue: { status: 'active' } }))).toBe(false);
+    expect(conditionEvaluator.evaluate('"done" !== quest.rescue', scope({}))).toBe(true);
+
+    expect(() => conditionEvaluator.compile('quest.rescue == "finished"')).toThrow("Unknown quest status 'finished' for 'quest.rescue' (expected inactive, active, completed, failed or 'done') at position 16");
+    expect(() => conditionEvaluator.compile('"finished" !== quest.rescue')).toThrow("Unknown quest status 'finished'");
+    expect(() => conditionEvaluator.compile('quest.rescue != "failed" && quest.rescue.child == "finished"')).not.toThrow();
+
+    const broken: StoryData = { ...story, nodes: [{ ...story.nodes[0], choices: [{ text: 'Rest', nextNodeId: 'woods', condition: 'quest.rescue == "finished"' }] }, ...story.nodes.slice(1)] };
+    const engine = createQNCEEngine(broken);
+    expect(engine.getConditionErrors().map(e => [e.nodeId, e.expression])).toEqual([['village', 'quest.rescue == "finished"']]);
+  });
+
+  test('Custom JSON keeps quests and qnce-audit reports quests that can never complete', async () => {
+    const loaded = await new CustomJSONAdapter().load(story, { strict: true });
+    expect(loaded.quests).toHaveLength(2);
+    expect(loaded.nodes[0].choices[1].questEffects).toEqual({ bakery: 'active' });
+
+    const dir = mkdtempSync(join(tmpdir(), 'qnce-quests-'));
+    try {
+      writeFileSync(join(dir, 'story.json'), JSON.stringify(story));
+      const audit = spawnSync('node', [resolve(__dirname, '../dist/cli/audit.js'), join(dir, 'story.json')], { encoding: 'utf-8' });
+      expect(audit.stdout).toContain('❌ Quests that can never complete:');
+      expect(audit.stdout).toContain('- bakery: no choice completes it');
+      expect(audit.stdout).not.toContain('- rescue:');
+      expect(audit.stdout).not.toContain('Invalid expressions');
+
+      const withoutChild = { ...story, nodes: [story.nodes[0], { ...story.nodes[1], choices: [story.nodes[1].choices[1]] }, story.nodes[2]] };
+      writeFileSync(join(dir, 'story.json'), JSON.stringify(withoutChild));
+      const second = spawnSync('node', [resolve(__dirname, '../dist/cli/audit.js'), join(dir, 'story.json')], { encoding: 'utf-8' });
+      expect(second.stdout).toContain('- rescue: objectives never completed: child');
+
+      const unknownStatus = { ...story, nodes: [{ ...story.nodes[0], choices: [{ text: 'Rest', nextNodeId: 'woods', condition: 'quest.rescue == "finished"' }, ...story.nodes[0].choices] }, ...story.nodes.slice(1)] };
+      writeFileSync(join(dir, 'story.json'), JSON.stringify(unknownStatus));
+      const third = spawnSync('node', [resolve(__dirname, '../dist/cli/audit.js'), join(dir, 'story.json')], { encoding: 'utf-8' });
+      expect(third.stdout).toContain('❌ Invalid expressions:');
+      expect(third.stdout).toContain("- village: Unknown quest status 'finished' for 'quest.rescue'");
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,108 @@
+import { createQNCEEngine, QNCENavigationError, type StoryData } from '../src/engine/core';
+import { CustomJSONAdapter } from '../src/adapters/story/CustomJSONAdapter';
+import { createLogger } from '../src/utils/logger';
+
+describe('Redirect nodes', () => {
+  const story: StoryData = {
+    initialNodeId: 'hall',
+    nodes: [
+      {
+        id: 'hall',
+        text: 'The great hall.',
+        choices: [
+          { text: 'Open the door', nextNodeId: 'door', flagEffects: { tries: { $inc: 1 } } },
+          { text: 'Go to the yard', nextNodeId: 'yard' }
+        ]
+      },
+      {
+        id: 'door',
+        text: '',
+        onExit: { flagEffects: { knocked: true } },
+        redirects: [
+          { condition: 'flags.hasKey', nextNodeId: 'vault' },
+          { condition: 'flags.tries > 1', nextNodeId: 'guard' },
+          { nextNodeId: 'locked' }
+        ],
+        choices: []
+      },
+      { id: 'vault', text: 'The vault.', choices: [] },
+      { id: 'guard', text: 'A guard appears.', onEnter: { flagEffects: { alarm: true } }, choices: [] },
+      { id: 'locked', text: 'It is locked.', choices: [{ text: 'Back', nextNodeId: 'hall' }] },
+      { id: 'yard', text: 'The yard.', redirects: [{ condition: 'flags.night', nextNodeId: 'yard' }], choices: [] }
+    ]
+  };
+
+  test('selectChoice follows the first passing redirect and records every hop in history', () => {
+    const engine = createQNCEEngine(story);
+    engine.selectChoice(engine.getAvailableChoices()[0]);
+    expect(engine.getCurrentNode().id).toBe('locked');
+    expect(engine.getState().history).toEqual(['hall', 'door', 'locked']);
+    expect(engine.getFlags().knocked).toBe(true);
+
+    engine.selectChoice(engine.getAvailableChoices()[0]);
+    engine.selectChoice(engine.getAvailableChoices()[0]);
+    expect(engine.getCurrentNode().id).toBe('guard');
+    expect(engine.getFlags()).toMatchObject({ tries: 2, alarm: true });
+  });
+
+  test('goToNodeById redirects and a single undo returns to the pre-navigation node', () => {
+    const engine = createQNCEEngine(story, { flags: { hasKey: true } });
+    engine.goToNodeById('door');
+    expect(engine.getCurrentNode().id).toBe('vault');
+    expect(engine.getHistorySummary().undoEntries.map(entry => entry.action)).toEqual(['navigation']);
+    engine.undo();
+    expect(engine.getCurrentNode().id).toBe('hall');
+    expect(engine.getFlags().knocked).toBeUndefined();
+  });
+
+  test('a redirect node stays put when no condition passes', () => {
+    const engine = createQNCEEngine(story);
+    engine.goToNodeById('yard');
+    expect(engine.getCurrentNode().id).toBe('yard');
+  });
+
+  test('redirect loops and missing targets throw and roll back', () => {
+    const engine = createQNCEEngine(story, { flags: { night: true } });
+    expect(() => engine.goToNodeById('yard')).toThrow(/Redirect loop detected/);
+    expect(engine.getCurrentNode().id).toBe('hall');
+    expect(engine.getState().history).toEqual(['hall']);
+
+    const broken: StoryData = {
+      initialNodeId: 'a',
+      nodes: [
+        { id: 'a', text: 'A', choices: [{ text: 'go', nextNodeId: 'b' }] },
+        { id: 'b', text: '', redirects: [{ nextNodeId: 'nowhere' }], choices: [] }
+      ]
+    };
+    const brokenEngine = createQNCEEngine(broken);
+    expect(() => brokenEngine.selectChoice(brokenEngine.getAvailableChoices()[0])).toThrow(QNCENavigationError);
+    expect(brokenEngine.getCurrentNode().id).toBe('a');
+  });
+
+  test('the initial node redirects on start and after reset; bad conditions are logged and skipped', () => {
+    const warnings: string[] = [];
+    const logger = createLogger({ level: 'warn', sink: { write: (entry) => { warnings.push(entry.message); } } });
+    const routed: StoryData = {
+      initialNodeId: 'start',
+      nodes: [
+        { id: 'start', text: '', redirects: [{ condition: 'flags.a >', nextNodeId: 'x' }, { nextNodeId: 'intro' }], choices: [] },
+        { id: 'intro', text: 'Intro', choices: [] },
+        { id: 'x', text: 'X', choices: [] }
+      ]
+    };
+    const engine = createQNCEEngine(routed, undefined, false, undefined, { logger });
+    expect(engine.getState().history).toEqual(['start', 'intro']);
+    expect(warnings).toHaveLength(1);
+    engine.resetNarrative();
+    expect(engine.getCurrentNode().id).toBe('intro');
+  });
+
+  test('CustomJSONAdapter keeps redirects in strict mode', async () => {
+    const adapter = new CustomJSONAdapter();
+    const result = await adapter.load({
+      initialNodeId: 'a',
+      nodes: [{ id: 'a', text: 'A', redirects: [{ nextNodeId: 'a', condition: 'false' }], choices: [] }]
+    }, { strict: true });
+    expect(result.nodes[0].redirects).toEqual([{ nextNodeId: 'a', condition: 'false' }]);
+  });
+});
@@ -0,0 +1,151 @@
+import { createQNCEEngine, type StoryData } from '../src/engine/core';
+import { SeededRandom, hashSeed, weightedPick } from '../src/engine/random';
+import { Measurement } from '../src/quantum/measurement';
+import { attachQuantumFeatures } from '../src/quantum/integration';
+import { createBranchingEngine } from '../src/narrative/branching/engine-simple';
+import type { QNCEStory } from '../src/narrative/branching/models';
+
+describe('Seeded RNG', () => {
+  const story: StoryData = {
+    initialNodeId: 'a',
+    nodes: [
+      { id: 'a', text: 'A', choices: [{ text: 'Next', nextNodeId: 'b' }] },
+      { id: 'b', text: 'B', choices: [] }
+    ]
+  };
+
+  const draw = (n: number, next: () => number) => Array.from({ length: n }, next);
+
+  test('same seed yields the same sequence; string seeds are hashed', () => {
+    const a = createQNCEEngine(story, undefined, false, undefined, { seed: 42 });
+    const b = createQNCEEngine(story, undefined, false, undefined, { seed: 42 });
+    const seq = draw(5, () => a.random());
+    expect(draw(5, () => b.random())).toEqual(seq);
+    expect(seq.every(v => v >= 0 && v < 1)).toBe(true);
+    expect(draw(5, () => createQNCEEngine(story, undefined, false, undefined, { seed: 43 }).random())).not.toEqual(seq);
+    expect(hashSeed('run-1')).toBe(hashSeed('run-1'));
+    expect(hashSeed('run-1')).not.toBe(hashSeed('run-2'));
+  });
+
+  test('SeededRandom matches the engine sequence and resumes from its state', () => {
+    const engine = createQNCEEngine(story, undefined, false, undefined, { seed: 'bug-123' });
+    const rng = new SeededRandom('bug-123');
+    expect(draw(3, () => rng.next())).toEqual(draw(3, () => engine.random()));
+    const resumed = new SeededRandom(0);
+    resumed.setState(rng.getState());
+    expect(resumed.next()).toBe(rng.next());
+  });
+
+  test('RNG position is captured by saveState/loadState and rewound by undo', async () => {
+    const engine = createQNCEEngine(story, undefined, false, undefined, { seed: 7 });
+    engine.random();
+    const saved = await engine.saveState();
+    expect(typeof saved.state.rngState).toBe('number');
+    const expected = draw(3, () => engine.random());
+    await engine.loadState(saved);
+    expect(draw(3, () => engine.random())).toEqual(expected);
+
+    const before = engine.getState().rngState;
+    engine.selectChoice(engine.getAvailableChoices()[0]);
+    const afterChoice = engine.random();
+    engine.undo();
+    expect(engine.getState().rngState).toBe(before);
+    engine.redo();
+    expect(engine.getState().rngState).not.toBe(before);
+    engine.resetNarrative();
+    engine.setRandomSeed(7);
+    expect(engine.random()).toBe(createQNCEEngine(story, undefined, false, undefined, { seed: 7 }).random());
+    expect(afterChoice).toBeGreaterThanOrEqual(0);
+  });
+
+  test('a save taken before the first draw replays the same sequence in an unseeded engine', async () => {
+    const gamble: StoryData = {
+      initialNodeId: 'a',
+      nodes: [{ id: 'a', text: 'A', choices: Array.from({ length: 8 }, (_, i) => ({ text: `Roll ${i}`, nextNodeId: 'a', condition: 'random() < 0.5' })) }]
+    };
+    const engine = createQNCEEngine(gamble, undefined, false, undefined, { seed: 11 });
+    expect(engine.getState().rngState).toBeUndefined();
+    const saved = await engine.saveState();
+    expect(saved.state.rngState).toBe(hashSeed(11));
+
+    const restored = createQNCEEngine(gamble);
+    expect((await restored.loadState(saved)).success).toBe(true);
+    expect(restored.getAvailableChoices().map(c => c.text)).toEqual(engine.getAvailableChoices().map(c => c.text));
+    expect(draw(5, () => restored.random())).toEqual(draw(5, () => engine.random()));
+  });
+
+  test('measurements draw from an injected source', () => {
+    const engine = createQNCEEngine(story, undefined, false, undefined, { seed: 99 });
+    const twin = createQNCEEngine(story, undefined, false, undefined, { seed: 99 });
+    const m1 = new Measurement('coin', undefined, engine.getRandomSource());
+    const m2 = attachQuantumFeatures(twin).createMeasurement('coin');
+    expect(draw(10, () => Number(m1.sample()))).toEqual(draw(10, () => Number(m2.sample())));
+    expect(new Measurement('low', () => 0.3, () => 0.29).sample()).toBe(true);
+    expect(new Measurement('low', () => 0.3, () => 0.31).sample()).toBe(false);
+
+    // Without a source, measurements stay unseeded
+    const math = jest.spyOn(Math, 'random').mockReturnValue(0.1);
+    expect(new Measurement('coin', () => 0.5).sample()).toBe(true);
+    math.mockReturnValue(0.9);
+    expect(new Measurement('coin', () => 0.5).sample()).toBe(false);
+    expect(math).toHaveBeenCalledTimes(2);
+    math.mockRestore();
+  });
+
+  describe('branching', () => {
+    const branchStory = (): QNCEStory => ({
+      id: 's', title: 'S', version: '1',
+      metadata: { author: 'a', description: 'd', tags: [], createDate: new Date(), lastModified: new Date(), estimatedPlaytime: 1 },
+      chapters: [{
+        id: 'c', title: 'C', description: 'c',
+        flows: [{
+          id: 'f', name: 'F', description: 'f',
+          nodes: [{ id: 'n1', text: '', choices: [] }, { id: 'n2', text: '', choices: [] }, { id: 'n3', text: '', choices: [] }],
+          entryPoints: [{ id: 'e', nodeId: 'n1', priority: 1 }], exitPoints: [], flowType: 'branching',
+          metadata: { complexity: 1, avgCompletionTime: 0, playerChoiceCount: 0, aiGeneratedContent: false }
+        }],
+        branches: [{
+          id: 'b', name: 'B', sourceFlowId: 'f', sourceNodeId: 'n1', branchType: 'procedural',
+          branchOptions: [
+            { id: 'common', targetFlowId: 'f', targetNodeId: 'n2', displayText: 'Common', weight: 3 },
+            { id: 'rare', targetFlowId: 'f', targetNodeId: 'n3', displayText: 'Rare', weight: 1,
+              conditions: [{ type: 'random', operator: 'less', key: 'roll', value: 0.5 }] },
+            { id: 'never', targetFlowId: 'f', targetNodeId: 'n3', displayText: 'Never', weight: 0 }
+          ],
+          metadata: { usageCount: 0, avgTraversalTime: 0, playerPreference: 0, lastUsed: new Date() }
+        }],
+        prerequisites: { requiredFlags: {}, requiredChoices: [] },
+        metadata: { difficulty: 'easy', themes: [], estimatedDuration: 1, branchComplexity: 1 }
+      }],
+      branchingConfig: { maxActiveBranches: 1, branchCacheSize: 1, enableDynamicInsertion: false, enableAnalytics: false, performanceMode: false }
+    });
+    const state = () => ({ currentNodeId: 'n1', flags: {}, history: ['n1'] });
+
+    test("'random' conditions and weighted selection use the injected source", async () => {
+      const low = createBranchingEngine(branchStory(), state(), { random: () => 0.1 });
+      expect((await low.evaluateAvailableBranches()).map(o => o.id)).toEqual(['common', 'rare', 'never']);
+      expect((await low.selectWeightedBranch())?.id).toBe('common');
+
+      const high = createBranchingEngine(branchStory(), state(), { random: () => 0.9 });
+      expect((await high.evaluateAvailableBranches()).map(o => o.id)).toEqual(['common', 'never']);
+    });
+
+    test('QNCEEngine injects its seeded RNG into branching', async () => {
+      const pick = async (seed: number) => {
+        const engine = createQNCEEngine({ initialNodeId: 'n1', nodes: [{ id: 'n1', text: '', choices: [] }] }, undefined, false, undefined, { seed });
+        const branching = engine.enableBranching(branchStory());
+        const picks: string[] = [];
+        for (let i = 0; i < 5; i++) picks.push((await branching.selectWeightedBranch())!.id);
+        return picks;
+      };
+      expect(await pick(3)).toEqual(await pick(3));
+    });
+
+    test('weightedPick respects weights and skips non-positive entries', () => {
+      const items = [{ id: 'a', weight: 1 }, { id: 'b', weight: 0 }, { id: 'c', weight: 3 }];
+      expect(weightedPick(items, () => 0)?.id).toBe('a');
+      expect(weightedPick(items, () => 0.26)?.id).toBe('c');
+      expect(weightedPick([{ weight: 0 }], () => 0.5)).toBeUndefined();
+    });
+  });
+});
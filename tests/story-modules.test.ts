@@ -0,0 +1,158 @@
+import { spawnSync } from 'node:child_process';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join, resolve } from 'node:path';
+import { createQNCEEngine, loadStoryData, QNCENavigationError, type StoryData } from '../src/engine/core';
+import { composeStoryModules, findDanglingModuleLinks, type StoryManifest } from '../src/engine/modules';
+import { StoryDataError } from '../src/engine/errors';
+import { CustomJSONAdapter } from '../src/adapters/story/CustomJSONAdapter';
+
+describe('Story modules', () => {
+  const intro: StoryData = {
+    initialNodeId: 'start',
+    locales: { fr: { 'gate.text': 'La porte.' } },
+    nodes: [
+      { id: 'start', text: 'Start.', choices: [{ text: 'Gate', nextNodeId: 'gate' }] },
+      { id: 'gate', text: 'The gate.', textKey: 'gate.text', choices: [{ text: 'To market', nextNodeId: 'chapter2:market' }] }
+    ]
+  };
+  const chapter2: StoryData = {
+    initialNodeId: 'market',
+    nodes: [
+      { id: 'market', text: 'The market.', onEnter: { flagEffects: { shopped: true } }, choices: [{ text: 'Back', nextNodeId: 'intro:gate' }] }
+    ]
+  };
+  const manifest: StoryManifest = {
+    defaultLocale: 'en',
+    modules: { intro: { story: intro }, chapter2: { source: 'chapter2.json', lazy: true } }
+  };
+
+  test('composes namespaced modules with cross-module references', () => {
+    const story = composeStoryModules(manifest, { chapter2 });
+    expect(story.initialNodeId).toBe('intro:start');
+    expect(story.nodes.map(n => n.id)).toEqual(['intro:start', 'intro:gate', 'chapter2:market']);
+    expect(story.nodes[0].choices[0].nextNodeId).toBe('intro:gate');
+    expect(story.nodes[2].choices[0].nextNodeId).toBe('intro:gate');
+    expect(story.locales).toEqual({ fr: { 'gate.text': 'La porte.' } });
+    expect(story.modules).toBeUndefined();
+
+    expect(() => composeStoryModules({ modules: { a: { story: intro }, b: { story: intro } }, nodes: [{ id: 'a:start', text: '', choices: [] }] }))
+      .toThrow(StoryDataError);
+  });
+
+  test('loadStoryData keeps lazy modules pending and the engine loads them on demand', async () => {
+    const story = loadStoryData(manifest);
+    expect(Object.keys(story.modules ?? {})).toEqual(['chapter2']);
+
+    const requested: string[] = [];
+    const engine = createQNCEEngine(story, undefined, false, undefined, {
+      moduleResolver: async (ref, namespace) => { requested.push(`${namespace}:${ref.source}`); return chapter2; }
+    });
+    const loaded: string[] = [];
+    engine.on('moduleLoaded', ({ namespace, nodeCount }) => loaded.push(`${namespace}/${nodeCount}`));
+    engine.goToNodeById('intro:gate');
+    expect(engine.getPendingModules()).toEqual(['chapter2']);
+    expect(() => engine.selectChoice(engine.getAvailableChoices()[0])).toThrow(QNCENavigationError);
+    expect(engine.getCurrentNode().id).toBe('intro:gate');
+
+    await expect(engine.selectChoiceAsync(engine.getAvailableChoices()[0])).resolves.toEqual({ committed: true });
+    expect(engine.getCurrentNode().id).toBe('chapter2:market');
+    expect(engine.getFlags().shopped).toBe(true);
+    expect(engine.getPendingModules()).toEqual([]);
+    expect(requested).toEqual(['chapter2:chapter2.json']);
+    expect(loaded).toEqual(['chapter2/1']);
+    expect(story.modules?.chapter2).toBeDefined();
+  });
+
+  test('saves inside a lazy module load it when restored', async () => {
+    const story = loadStoryData(manifest);
+    const resolver = async () => chapter2;
+    const engine = createQNCEEngine(story, undefined, false, undefined, { moduleResolver: resolver });
+    await engine.loadModule('chapter2');
+    engine.goToNodeById('chapter2:market');
+    const saved = await engine.saveState();
+
+    const fresh = createQNCEEngine(story, undefined, false, undefined, { moduleResolver: resolver });
+    const result = await fresh.loadState(saved);
+    expect(result.success).toBe(true);
+    expect(fresh.getCurrentNode().text).toBe('The market.');
+
+    const unresolved = createQNCEEngine(story);
+    await expect(unresolved.loadModule('chapter2')).rejects.toThrow('no moduleResolver configured');
+    await expect(unresolved.loadModule('chapter9')).rejects.toThrow(StoryDataError);
+  });
+
+  test('reports dangling cross-module links but not links into pending modules', () => {
+    const story = composeStoryModules({
+      modules: {
+        intro: { story: { ...intro, nodes: [...intro.nodes, { id: 'lost', text: '', choices: [{ text: 'x', nextNodeId: 'intro:nowhere' }, { text: 'y', nextNodeId: 'epilogue:end' }] }] } },
+        chapter2: { source: 'chapter2.json', lazy: true }
+      }
+    });
+    expect(findDanglingModuleLinks(story)).toEqual([
+      { fromNodeId: 'intro:lost', toNodeId: 'intro:nowhere', reason: 'missing-node' },
+      { fromNodeId: 'intro:lost', toNodeId: 'epilogue:end', reason: 'unknown-module' }
+    ]);
+  });
+
+  test('module-local visit references resolve within the module', () => {
+    const ch: StoryData = {
+      initialNodeId: 'a',
+      nodes: [
+        { id: 'a', text: 'A', choices: [{ text: 'On', nextNodeId: 'b' }] },
+        {
+          id: 'b', text: 'B', choices: [
+            { text: 'Seen a', nextNodeId: 'a', condition: 'visits.a > 0 && visited("a")' },
+            { text: 'First time', nextNodeId: 'a', condition: 'visits.b == 1' }
+          ]
+        }
+      ]
+    };
+    const engine = createQNCEEngine(composeStoryModules({ modules: { ch: { story: ch } } }));
+    engine.selectChoice(engine.getAvailableChoices()[0]);
+    expect(engine.getState().visitCounts).toEqual({ 'ch:a': 1, 'ch:b': 1 });
+    expect(engine.getAvailableChoices().map(c => c.text)).toEqual(['Seen a', 'First time']);
+
+    // Outside modules ids are used as written
+    const flat = createQNCEEngine({ initialNodeId: 'x', nodes: [{ id: 'x', text: '', choices: [{ text: 'seen', nextNodeId: 'x', condition: 'visits.x == 1 && !visited("ch:x")' }] }] });
+    expect(flat.getAvailableChoices()).toHaveLength(1);
+  });
+
+  test('adapters namespace local ids and apply idPrefix', async () => {
+    const adapter = new CustomJSONAdapter();
+    const namespaced = await adapter.load(chapter2, { namespace: 'chapter2' });
+    expect(namespaced.initialNodeId).toBe('chapter2:market');
+    expect(namespaced.nodes[0].choices[0].nextNodeId).toBe('intro:gate');
+    const prefixed = await adapter.load(intro, { idPrefix: 'libA_' });
+    expect(prefixed.nodes.map(n => n.id)).toEqual(['libA_start', 'libA_gate']);
+  });
+
+  test('qnce-import flattens a manifest and qnce-audit reports dangling module links', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'qnce-modules-'));
+    try {
+      const brokenChapter = { ...chapter2, nodes: [{ ...chapter2.nodes[0], choices: [
+        { text: 'Back', nextNodeId: 'intro:cellar' },
+        { text: 'Again', nextNodeId: 'market', condition: 'visits.market > 1 || visited("stall")' }
+      ] }] };
+      writeFileSync(join(dir, 'intro.json'), JSON.stringify(intro));
+      writeFileSync(join(dir, 'chapter2.json'), JSON.stringify(chapter2));
+      writeFileSync(join(dir, 'broken.json'), JSON.stringify(brokenChapter));
+      writeFileSync(join(dir, 'story.json'), JSON.stringify({ modules: { intro: 'intro.json', chapter2: { source: 'chapter2.json', lazy: true } } }));
+      writeFileSync(join(dir, 'broken-story.json'), JSON.stringify({ modules: { intro: 'intro.json', chapter2: { source: 'broken.json', lazy: true } } }));
+
+      const imported = spawnSync('node', [resolve(__dirname, '../dist/cli/import.js'), join(dir, 'story.json'), '--out', join(dir, 'out.json'), '--quiet'], { encoding: 'utf-8' });
+      expect(imported.status).toBe(0);
+      const flattened = JSON.parse(readFileSync(join(dir, 'out.json'), 'utf-8')) as StoryData;
+      expect(flattened.nodes.map(n => n.id)).toEqual(['intro:start', 'intro:gate', 'chapter2:market']);
+
+      const audit = spawnSync('node', [resolve(__dirname, '../dist/cli/audit.js'), join(dir, 'broken-story.json')], { encoding: 'utf-8' });
+      expect(audit.stdout).toContain('📦 Modules: 2 (intro, chapter2 (lazy))');
+      expect(audit.stdout).toContain('chapter2:market -> intro:cellar (no such node in module)');
+      expect(audit.stdout).toContain('❌ Visit references to unknown nodes:');
+      expect(audit.stdout).toContain('chapter2:market: stall');
+      expect(audit.stdout).not.toContain('chapter2:market: market');
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
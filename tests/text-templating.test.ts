@@ -0,0 +1,70 @@
+import { createQNCEEngine, type StoryData } from '../src/engine/core';
+import { compileTemplate, TextTemplateRenderer } from '../src/engine/text';
+import { StoryDataError } from '../src/engine/errors';
+import { createLogger } from '../src/utils/logger';
+
+describe('Text templating', () => {
+  const story: StoryData = {
+    initialNodeId: 'start',
+    templating: true,
+    nodes: [
+      {
+        id: 'start',
+        text: 'Hello {flags.name}! {if flags.gold > 0}You carry {flags.gold} gold.{else}Your purse is empty.{/if}',
+        choices: [{ text: 'Go', nextNodeId: 'end', flagEffects: { gold: 5 } }]
+      },
+      { id: 'end', text: '{if flags.gold >= 10}Rich{elif flags.gold > 0}Comfortable{else}Poor{/if} {{braces}}', choices: [] }
+    ]
+  };
+
+  test('substitutes flag values and resolves conditional spans', () => {
+    const engine = createQNCEEngine(story, { flags: { name: 'Ada' } });
+    expect(engine.getCurrentNode().text).toBe('Hello Ada! Your purse is empty.');
+    engine.setFlag('gold', 3);
+    expect(engine.getCurrentNode().text).toBe('Hello Ada! You carry 3 gold.');
+  });
+
+  test('supports elif branches and escaped braces', () => {
+    const engine = createQNCEEngine(story);
+    engine.selectChoice(engine.getAvailableChoices()[0]);
+    expect(engine.getCurrentNode().text).toBe('Comfortable {braces}');
+  });
+
+  test('is opt-in per story', () => {
+    const engine = createQNCEEngine({ ...story, templating: false }, { flags: { name: 'Ada' } });
+    expect(engine.getCurrentNode().text).toContain('{flags.name}');
+    expect(engine.renderText('Hi {flags.name}')).toBe('Hi Ada');
+  });
+
+  test('renders missing values as empty text and logs expression failures', () => {
+    const warnings: string[] = [];
+    const logger = createLogger({ level: 'warn', sink: { write: (entry) => { warnings.push(entry.message); } } });
+    const engine = createQNCEEngine(story, {}, false, undefined, { logger });
+    expect(engine.renderText('[{flags.missing}]')).toBe('[]');
+    expect(engine.renderText('[{bogus}]')).toBe('[]');
+    expect(warnings.length).toBe(1);
+  });
+
+  test('compiles nested spans and rejects malformed templates', () => {
+    const segments = compileTemplate('{if flags.a}A{if flags.b}B{/if}{/if}');
+    expect(segments).toHaveLength(1);
+    expect(() => compileTemplate('{if flags.a}open')).toThrow(/Unclosed/);
+    expect(() => compileTemplate('{else}')).toThrow(/outside/);
+    expect(() => compileTemplate('stray }')).toThrow(/Unmatched/);
+    const renderer = new TextTemplateRenderer();
+    const ctx = { state: { currentNodeId: 'n', flags: {}, history: [] }, timestamp: 0 };
+    expect(() => renderer.renderNode('n', '{if flags.a}', ctx)).toThrow(StoryDataError);
+  });
+
+  test('caches compiled templates per node and recompiles on text change', () => {
+    const renderer = new TextTemplateRenderer();
+    const ctx = { state: { currentNodeId: 'n', flags: { x: 1 }, history: [] }, timestamp: 0 };
+    expect(renderer.renderNode('n', 'x={flags.x}', ctx)).toBe('x=1');
+    expect(renderer.renderNode('n', 'x={flags.x}', ctx)).toBe('x=1');
+    expect(renderer.cacheSize).toBe(1);
+    expect(renderer.renderNode('n', 'X is {flags.x}', ctx)).toBe('X is 1');
+    expect(renderer.cacheSize).toBe(1);
+    renderer.invalidate('n');
+    expect(renderer.cacheSize).toBe(0);
+  });
+});
@@ -0,0 +1,114 @@
+import { createQNCEEngine, type StoryData } from '../src/engine/core';
+import { ManualClock } from '../src/engine/clock';
+import { createLogger } from '../src/utils/logger';
+
+describe('Timed choices', () => {
+  const story: StoryData = {
+    initialNodeId: 'ledge',
+    nodes: [
+      {
+        id: 'ledge',
+        text: 'The ledge crumbles.',
+        timer: { durationMs: 5000, defaultChoice: 'fall' },
+        choices: [
+          { text: 'Jump', nextNodeId: 'safe' },
+          { id: 'fall', text: 'Hesitate', nextNodeId: 'fallen', flagEffects: { hesitated: true } }
+        ]
+      },
+      { id: 'safe', text: 'Safe.', choices: [{ text: 'Back', nextNodeId: 'ledge' }] },
+      { id: 'fallen', text: 'You fall.', timer: { durationMs: 1000, defaultChoice: 0 }, choices: [{ text: 'Get up', nextNodeId: 'safe' }] }
+    ]
+  };
+
+  test('exposes remaining time from the injected clock', () => {
+    const clock = new ManualClock(1000);
+    const engine = createQNCEEngine(story, undefined, false, undefined, { clock });
+    expect(engine.getTimeRemaining()).toBe(5000);
+    clock.advance(1500);
+    expect(engine.getTimeRemaining()).toBe(3500);
+    engine.selectChoice(engine.getAvailableChoices()[0]);
+    expect(engine.getTimeRemaining()).toBeUndefined();
+    expect(clock.pendingTimers()).toBe(0);
+  });
+
+  test('takes the default choice when the countdown lapses, firing timeout hooks first', () => {
+    const clock = new ManualClock();
+    const engine = createQNCEEngine(story, undefined, false, undefined, { clock });
+    const seen: string[] = [];
+    engine.registerHook('timeout', ({ node, choice }) => { seen.push(`${node.id}:${choice?.text}`); });
+
+    clock.advance(4999);
+    expect(engine.getCurrentNode().id).toBe('ledge');
+    clock.advance(1);
+    expect(engine.getCurrentNode().id).toBe('fallen');
+    expect(engine.getFlags().hesitated).toBe(true);
+    expect(engine.getTimeRemaining()).toBe(1000);
+
+    clock.advance(1000);
+    expect(engine.getCurrentNode().id).toBe('safe');
+    expect(seen).toEqual(['ledge:Hesitate', 'fallen:Get up']);
+  });
+
+  test('a timeout hook returning false cancels the automatic choice', () => {
+    const clock = new ManualClock();
+    const engine = createQNCEEngine(story, undefined, false, undefined, { clock });
+    engine.registerHook('timeout', () => false);
+    clock.advance(6000);
+    expect(engine.getCurrentNode().id).toBe('ledge');
+    expect(engine.getTimeRemaining()).toBe(0);
+  });
+
+  test('re-entering a node restarts its timer; undo restarts the countdown of the restored node', () => {
+    const clock = new ManualClock();
+    const engine = createQNCEEngine(story, undefined, false, undefined, { clock });
+    engine.selectChoice(engine.getAvailableChoices()[0]);
+    clock.advance(3000);
+    engine.selectChoice(engine.getAvailableChoices()[0]);
+    expect(engine.getTimeRemaining()).toBe(5000);
+    engine.undo();
+    expect(engine.getTimeRemaining()).toBeUndefined();
+    engine.undo();
+    expect(engine.getTimeRemaining()).toBe(5000);
+    expect(clock.pendingTimers()).toBe(1);
+  });
+
+  test('logs a missing default choice instead of throwing', () => {
+    const warnings: string[] = [];
+    const logger = createLogger({ level: 'warn', sink: { write: (entry) => { warnings.push(entry.message); } } });
+    const clock = new ManualClock();
+    const broken: StoryData = {
+      initialNodeId: 'a',
+      nodes: [{ id: 'a', text: 'A', timer: { durationMs: 10, defaultChoice: 'nope' }, choices: [] }]
+    };
+    const engine = createQNCEEngine(broken, undefined, false, undefined, { clock, logger });
+    clock.advance(10);
+    expect(engine.getCurrentNode().id).toBe('a');
+    expect(warnings).toHaveLength(1);
+  });
+
+  test('does not take a default choice the player cannot see', () => {
+    const warnings: string[] = [];
+    const logger = createLogger({ level: 'warn', sink: { write: (entry) => { warnings.push(entry.message); } } });
+    const clock = new ManualClock();
+    const guarded: StoryData = {
+      initialNodeId: 'a',
+      nodes: [
+        {
+          id: 'a', text: 'A', timer: { durationMs: 10, defaultChoice: 1 },
+          choices: [{ text: 'Go', nextNodeId: 'b' }, { text: 'Unlock', nextNodeId: 'c', condition: 'flags.key == true' }]
+        },
+        { id: 'b', text: 'B', choices: [] },
+        { id: 'c', text: 'C', choices: [] }
+      ]
+    };
+    const engine = createQNCEEngine(guarded, undefined, false, undefined, { clock, logger });
+    expect(engine.getAvailableChoices().map(c => c.text)).toEqual(['Go']);
+    clock.advance(10);
+    expect(engine.getCurrentNode().id).toBe('a');
+    expect(warnings).toHaveLength(1);
+
+    const unlocked = createQNCEEngine(guarded, { currentNodeId: 'a', flags: { key: true }, history: ['a'] }, false, undefined, { clock });
+    clock.advance(10);
+    expect(unlocked.getCurrentNode().id).toBe('c');
+  });
+});
@@ -0,0 +1,175 @@
+import { spawnSync } from 'node:child_process';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join, resolve } from 'node:path';
+import { createQNCEEngine, type StoryData } from '../src/engine/core';
+import { extractTranslations, mergeTranslations, findStaleTranslations } from '../src/adapters/translation/strings';
+import { XliffAdapter } from '../src/adapters/translation/XliffAdapter';
+import { PoAdapter } from '../src/adapters/translation/PoAdapter';
+
+describe('Translation round-trip', () => {
+  const story: StoryData = {
+    initialNodeId: 'gate',
+    items: [{ id: 'key', name: 'Rusty key', description: 'Opens "old" doors & gates' }],
+    nodes: [
+      {
+        id: 'gate',
+        text: 'A gate.\nIt is <locked>.',
+        choices: [
+          { text: 'Knock', nextNodeId: 'yard' },
+          { id: 'climb', text: 'Climb', nextNodeId: 'yard' }
+        ]
+      },
+      { id: 'yard', text: 'The yard.', textKey: 'yard.intro', choices: [] }
+    ]
+  };
+
+  const translate = (document: ReturnType<typeof extractTranslations>, words: Record<string, string>) => ({
+    ...document,
+    units: document.units.map(unit => (words[unit.id] ? { ...unit, target: words[unit.id], fuzzy: false } : unit))
+  });
+
+  test('extracts stable ids with context for nodes, choices and items', () => {
+    const document = extractTranslations(story, 'fr');
+    expect(document.sourceLocale).toBe('en');
+    expect(document.units.map(unit => unit.id)).toEqual([
+      'gate.text', 'gate.choice.0', 'choice.climb', 'yard.intro', 'item.key.name', 'item.key.description'
+    ]);
+    expect(document.units[1].context).toBe('Choice 1 of node gate (to yard)');
+  });
+
+  test('extracts and localizes quest, ending, achievement and locked-choice text', () => {
+    const meta: StoryData = {
+      initialNodeId: 'hall',
+      quests: [{ id: 'rescue', title: 'Rescue', journal: { active: 'Find the prince.' }, objectives: [{ id: 'key', description: 'Get the key' }] }],
+      nodes: [
+        {
+          id: 'hall', text: 'A hall.', achievement: { id: 'entered', title: 'Inside' },
+          choices: [
+            { text: 'Search', nextNodeId: 'end', questEffects: { rescue: 'active' } },
+            { id: 'door', text: 'Open', nextNodeId: 'end', condition: 'flags.key == true', lockedMessage: 'Locked.' }
+          ]
+        },
+        { id: 'end', text: 'The end.', ending: { id: 'good', title: 'Good', description: 'All is well.' }, choices: [] }
+      ]
+    };
+    const document = extractTranslations(meta, 'fr');
+    expect(document.units.map(unit => unit.id)).toEqual([
+      'hall.text', 'hall.choice.0', 'choice.door', 'choice.door.locked', 'end.text',
+      'quest.rescue.title', 'quest.rescue.journal.active', 'quest.rescue.objective.key',
+      'achievement.entered.title', 'ending.good.title', 'ending.good.description'
+    ]);
+
+    const { story: localized } = mergeTranslations(meta, translate(document, {
+      'choice.door.locked': 'Verrouillé.', 'quest.rescue.title': 'Sauvetage', 'quest.rescue.journal.active': 'Trouvez le prince.',
+      'quest.rescue.objective.key': 'Prendre la clé', 'achievement.entered.title': 'Dedans', 'ending.good.title': 'Bonne', 'ending.good.description': 'Tout va bien.'
+    }));
+    const engine = createQNCEEngine(localized, undefined, false, undefined, { locale: 'fr' });
+    expect(engine.getChoiceStates()[1].lockedMessage).toBe('Verrouillé.');
+    expect(engine.getAchievements()[0].title).toBe('Dedans');
+    const unlocked: string[] = [];
+    engine.on('unlocked', ({ title }) => unlocked.push(title ?? ''));
+    engine.selectChoice(engine.getAvailableChoices()[0]);
+    expect(unlocked).toEqual(['Bonne']);
+    expect(engine.getEndings()[0]).toMatchObject({ title: 'Bonne', description: 'Tout va bien.' });
+    expect(engine.getJournal()[0]).toMatchObject({ title: 'Sauvetage', text: 'Trouvez le prince.', objectives: [{ id: 'key', description: 'Prendre la clé', done: false }] });
+  });
+
+  test.each([['XLIFF', new XliffAdapter()], ['PO', new PoAdapter()]] as const)('%s serializes and parses back losslessly', (_, adapter) => {
+    const document = translate(extractTranslations(story, 'fr'), {
+      'gate.text': 'Une porte.\nElle est <verrouillée>.',
+      'item.key.description': 'Ouvre les "vieilles" portes & grilles'
+    });
+    document.units[4] = { ...document.units[4], target: 'Clé rouillée', fuzzy: true };
+    const parsed = adapter.parse(adapter.serialize(document));
+    expect(adapter.detect?.(adapter.serialize(document))).toBe(true);
+    expect(parsed).toEqual({
+      ...document,
+      units: document.units.map(unit => {
+        const copy = { ...unit };
+        if (!copy.fuzzy) delete copy.fuzzy;
+        return copy;
+      })
+    });
+  });
+
+  test('merges translations into locales and assigns text keys the engine resolves', () => {
+    const document = translate(extractTranslations(story, 'fr'), { 'gate.text': 'Une porte.', 'gate.choice.0': 'Frapper' });
+    document.units.push({ id: 'gone.text', source: 'Removed', target: 'Supprimé' });
+    const result = mergeTranslations(story, document);
+    expect(result.merged).toEqual(['gate.text', 'gate.choice.0']);
+    expect(result.untranslated).toEqual(['choice.climb', 'yard.intro', 'item.key.name', 'item.key.description']);
+    expect(result.unknown).toEqual(['gone.text']);
+    expect(result.story.defaultLocale).toBe('en');
+
+    const engine = createQNCEEngine(result.story, undefined, false, undefined, { locale: 'fr' });
+    expect(engine.getCurrentNode().text).toBe('Une porte.');
+    expect(engine.getAvailableChoices().map(c => c.text)).toEqual(['Frapper', 'Climb']);
+  });
+
+  test('flags translations whose source text changed', () => {
+    const { story: localized } = mergeTranslations(story, translate(extractTranslations(story, 'fr'), { 'gate.text': 'Une porte.' }));
+    const edited: StoryData = { ...localized, nodes: localized.nodes.map(n => (n.id === 'gate' ? { ...n, text: 'A tall gate.' } : n)) };
+
+    expect(findStaleTranslations(localized)).toEqual({ fr: [] });
+    expect(findStaleTranslations(edited)).toEqual({ fr: ['gate.text'] });
+    expect(extractTranslations(edited, 'fr').units[0]).toMatchObject({ source: 'A tall gate.', target: 'Une porte.', fuzzy: true });
+
+    const oldFile = translate(extractTranslations(story, 'fr'), { 'gate.text': 'Une porte fermée.' });
+    const result = mergeTranslations(edited, oldFile);
+    expect(result.stale).toEqual(['gate.text']);
+    expect(result.story.locales?.fr['gate.text']).toBe('Une porte.');
+  });
+
+  test('qnce-translate extracts and merges through files', () => {
+    const bin = resolve(__dirname, '../dist/cli/translate.js');
+    const dir = mkdtempSync(join(tmpdir(), 'qnce-translate-'));
+    try {
+      const storyPath = join(dir, 'story.json');
+      const poPath = join(dir, 'story.de.po');
+      const outPath = join(dir, 'story.localized.json');
+      writeFileSync(storyPath, JSON.stringify(story));
+
+      const extract = spawnSync('node', [bin, 'extract', storyPath, '--locale', 'de', '--out', poPath, '--quiet'], { encoding: 'utf-8' });
+      expect(extract.status).toBe(0);
+      const po = readFileSync(poPath, 'utf-8');
+      expect(po).toContain('msgctxt "gate.choice.0"');
+      writeFileSync(poPath, po.replace('msgid "Knock"\nmsgstr ""', 'msgid "Knock"\nmsgstr "Klopfen"'));
+
+      const merge = spawnSync('node', [bin, 'merge', storyPath, poPath, '--out', outPath, '--quiet'], { encoding: 'utf-8' });
+      expect(merge.status).toBe(0);
+      const merged = JSON.parse(readFileSync(outPath, 'utf-8')) as StoryData;
+      expect(merged.locales?.de).toEqual({ 'gate.choice.0': 'Klopfen' });
+      expect(merged.nodes[0].choices[0].textKey).toBe('gate.choice.0');
+
+      writeFileSync(storyPath, JSON.stringify({ ...story, nodes: [{ ...story.nodes[0], choices: [{ text: 'Bang', nextNodeId: 'yard' }] }, story.nodes[1]] }));
+      const stale = spawnSync('node', [bin, 'merge', storyPath, poPath, '--out', outPath, '--strict', '--quiet'], { encoding: 'utf-8' });
+      expect(stale.status).toBe(2);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  test('qnce-audit checks every string qnce-translate extracts', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'qnce-translate-audit-'));
+    try {
+      const storyPath = join(dir, 'story.json');
+      writeFileSync(storyPath, JSON.stringify({
+        ...story,
+        defaultLocale: 'en',
+        characters: [{ id: 'guard', name: 'Guard' }],
+        nodes: [
+          { ...story.nodes[0], dialogue: [{ speaker: 'guard', text: 'Halt!' }], blocks: [{ text: 'A gate.' }, { text: 'Rain.', condition: 'flags.rain' }] },
+          story.nodes[1]
+        ],
+        locales: { fr: { 'gate.text': 'Une porte.', 'gate.block.0': 'Une porte.' } }
+      }));
+      const audit = spawnSync('node', [resolve(__dirname, '../dist/cli/audit.js'), storyPath], { encoding: 'utf-8' });
+      expect(audit.stdout).toContain('❌ fr:');
+      ['gate.line.0', 'gate.block.1', 'character.guard.name', 'item.key.description'].forEach(key => expect(audit.stdout).toContain(`- ${key} (`));
+      expect(audit.stdout).not.toContain('- gate.block.0 (');
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,85 @@
+import { createQNCEEngine, QNCENavigationError, RETURN_TARGET, type StoryData } from '../src/engine/core';
+
+describe('Tunnels (call/return)', () => {
+  const story: StoryData = {
+    initialNodeId: 'square',
+    nodes: [
+      {
+        id: 'square',
+        text: 'The town square.',
+        choices: [
+          { text: 'Visit the shop', nextNodeId: 'shop', returnTo: 'square_after' },
+          { text: 'Talk to companion', nextNodeId: 'chat', returnTo: 'square' },
+          { text: 'Stray return', nextNodeId: RETURN_TARGET }
+        ]
+      },
+      { id: 'square_after', text: 'Back in the square.', choices: [] },
+      {
+        id: 'shop',
+        text: 'The shop.',
+        choices: [
+          { text: 'Check your bag', nextNodeId: 'bag', returnTo: 'shop' },
+          { text: 'Leave', nextNodeId: RETURN_TARGET, flagEffects: { shopped: true } }
+        ]
+      },
+      { id: 'bag', text: 'Your bag.', choices: [{ text: 'Close', nextNodeId: RETURN_TARGET }] },
+      { id: 'chat', text: '', redirects: [{ nextNodeId: RETURN_TARGET }], onEnter: { flagEffects: { chats: { $inc: 1 } } }, choices: [] }
+    ]
+  };
+
+  const pick = (engine: ReturnType<typeof createQNCEEngine>, text: string) =>
+    engine.selectChoice(engine.getAvailableChoices().find(c => c.text === text)!);
+
+  test('a call pushes the continuation and @return resumes there', () => {
+    const engine = createQNCEEngine(story);
+    pick(engine, 'Visit the shop');
+    expect(engine.getCallStack()).toEqual(['square_after']);
+    pick(engine, 'Leave');
+    expect(engine.getCurrentNode().id).toBe('square_after');
+    expect(engine.getCallStack()).toEqual([]);
+    expect(engine.getState().callStack).toBeUndefined();
+    expect(engine.getFlags().shopped).toBe(true);
+  });
+
+  test('nested calls return innermost first', () => {
+    const engine = createQNCEEngine(story);
+    pick(engine, 'Visit the shop');
+    pick(engine, 'Check your bag');
+    expect(engine.getCallStack()).toEqual(['square_after', 'shop']);
+    pick(engine, 'Close');
+    expect(engine.getCurrentNode().id).toBe('shop');
+    pick(engine, 'Leave');
+    expect(engine.getCurrentNode().id).toBe('square_after');
+  });
+
+  test('redirects can return from a tunnel', () => {
+    const engine = createQNCEEngine(story);
+    pick(engine, 'Talk to companion');
+    expect(engine.getCurrentNode().id).toBe('square');
+    expect(engine.getState().history).toEqual(['square', 'chat', 'square']);
+    expect(engine.getFlags().chats).toBe(1);
+  });
+
+  test('returning with an empty call stack throws and leaves state untouched', () => {
+    const engine = createQNCEEngine(story);
+    expect(() => pick(engine, 'Stray return')).toThrow(QNCENavigationError);
+    expect(engine.getState().history).toEqual(['square']);
+  });
+
+  test('the call stack is undoable, saved and cleared on reset', async () => {
+    const engine = createQNCEEngine(story);
+    pick(engine, 'Visit the shop');
+    pick(engine, 'Leave');
+    engine.undo();
+    expect(engine.getCurrentNode().id).toBe('shop');
+    expect(engine.getCallStack()).toEqual(['square_after']);
+
+    const saved = await engine.saveState();
+    engine.resetNarrative();
+    expect(engine.getCallStack()).toEqual([]);
+    await engine.loadState(saved);
+    expect(engine.getCallStack()).toEqual(['square_after']);
+    pick(engine, 'Leave');
+    expect(engine.getCurrentNode().id).toBe('square_after');
+  });
+});
@@ -0,0 +1,93 @@
+import { createQNCEEngine, type StoryData } from '../src/engine/core';
+import { conditionEvaluator } from '../src/engine/condition';
+import { CustomJSONAdapter } from '../src/adapters/story/CustomJSONAdapter';
+
+describe('Visit counts and once-only choices', () => {
+  const story: StoryData = {
+    initialNodeId: 'inn',
+    templating: true,
+    nodes: [
+      {
+        id: 'inn',
+        text: '{if visits.inn >= 3}The innkeeper sighs.{else}The innkeeper waves.{/if}',
+        choices: [
+          { id: 'ask_rumours', text: 'Ask about rumours', nextNodeId: 'inn', once: true },
+          { text: 'Order a drink', nextNodeId: 'inn' },
+          { text: 'Ask again', nextNodeId: 'inn', condition: 'chosen.ask_rumours > 0' },
+          { text: 'Leave', nextNodeId: 'street' }
+        ]
+      },
+      { id: 'street', text: 'The street.', choices: [{ text: 'Back inside', nextNodeId: 'inn' }] }
+    ]
+  };
+
+  const texts = (engine: ReturnType<typeof createQNCEEngine>) => engine.getAvailableChoices().map(c => c.text);
+  const pick = (engine: ReturnType<typeof createQNCEEngine>, text: string) =>
+    engine.selectChoice(engine.getAvailableChoices().find(c => c.text === text)!);
+
+  test('counts node visits (including the opening node) and choice selections', () => {
+    const engine = createQNCEEngine(story);
+    expect(engine.getVisitCount('inn')).toBe(1);
+    pick(engine, 'Order a drink');
+    pick(engine, 'Leave');
+    pick(engine, 'Back inside');
+    expect(engine.getVisitCount('inn')).toBe(3);
+    expect(engine.getVisitCount('street')).toBe(1);
+    expect(engine.getChoiceCount('inn#1')).toBe(1);
+    expect(engine.getCurrentNode().text).toBe('The innkeeper sighs.');
+  });
+
+  test('once choices disappear after selection; chosen.<id> is usable in conditions', () => {
+    const engine = createQNCEEngine(story);
+    expect(texts(engine)).toEqual(['Ask about rumours', 'Order a drink', 'Leave']);
+    pick(engine, 'Ask about rumours');
+    expect(engine.getChoiceCount('ask_rumours')).toBe(1);
+    expect(texts(engine)).toEqual(['Order a drink', 'Ask again', 'Leave']);
+  });
+
+  test('defaultChoiceMode "once" hides every choice after use unless it is sticky', () => {
+    const engine = createQNCEEngine({
+      ...story,
+      defaultChoiceMode: 'once',
+      nodes: [{ ...story.nodes[0], choices: [{ text: 'A', nextNodeId: 'inn' }, { text: 'B', nextNodeId: 'inn', sticky: true }] }]
+    });
+    pick(engine, 'A');
+    pick(engine, 'B');
+    expect(texts(engine)).toEqual(['B']);
+  });
+
+  test('counts are restored by undo and survive saveState/loadState; reset clears them', async () => {
+    const engine = createQNCEEngine(story);
+    pick(engine, 'Ask about rumours');
+    engine.undo();
+    expect(engine.getVisitCount('inn')).toBe(1);
+    expect(engine.getChoiceCount('ask_rumours')).toBe(0);
+    expect(texts(engine)).toContain('Ask about rumours');
+
+    pick(engine, 'Ask about rumours');
+    const saved = await engine.saveState();
+    engine.resetNarrative();
+    expect(engine.getState().visitCounts).toEqual({ inn: 1 });
+    expect(engine.getChoiceCount('ask_rumours')).toBe(0);
+    await engine.loadState(saved);
+    expect(engine.getVisitCount('inn')).toBe(2);
+    expect(texts(engine)).not.toContain('Ask about rumours');
+  });
+
+  test('visits/chosen default to 0 in the condition evaluator', () => {
+    const ctx = { state: { currentNodeId: 'a', flags: {}, history: [], visitCounts: { a: 2 } }, timestamp: 0 };
+    expect(conditionEvaluator.evaluateValue('visits.a + visits.b', ctx)).toBe(2);
+    expect(conditionEvaluator.evaluate('chosen.x == 0', ctx)).toBe(true);
+    expect(conditionEvaluator.validateExpression('visits.').valid).toBe(false);
+  });
+
+  test('CustomJSONAdapter keeps choice ids and once/sticky in strict mode', async () => {
+    const result = await new CustomJSONAdapter().load({
+      initialNodeId: 'a',
+      defaultChoiceMode: 'once',
+      nodes: [{ id: 'a', text: 'A', choices: [{ id: 'c1', text: 'x', nextNodeId: 'a', sticky: true }] }]
+    }, { strict: true });
+    expect(result.defaultChoiceMode).toBe('once');
+    expect(result.nodes[0].choices[0]).toMatchObject({ id: 'c1', sticky: true });
+  });
+});